@@ -0,0 +1,82 @@
+/**
+ * AbortSignal helpers for cancelling plugin handlers and commands.
+ */
+
+/**
+ * Create a controller that aborts (with the same reason) when `parent` does.
+ */
+export function createLinkedController(parent?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (!parent) return controller;
+
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    const onAbort = () => controller.abort(parent.reason);
+    parent.addEventListener('abort', onAbort, { once: true });
+    controller.signal.addEventListener(
+      'abort',
+      () => parent.removeEventListener('abort', onAbort),
+      { once: true }
+    );
+  }
+  return controller;
+}
+
+/**
+ * Abort `controller` with `reason()` after `timeoutMs`. Returns a function
+ * that clears the timer. A missing or non-positive timeout is a no-op.
+ */
+export function abortAfter(
+  controller: AbortController,
+  timeoutMs: number | undefined,
+  reason: () => unknown
+): () => void {
+  if (timeoutMs === undefined || timeoutMs <= 0) return () => {};
+  const timer = setTimeout(() => controller.abort(reason()), timeoutMs);
+  return () => clearTimeout(timer);
+}
+
+/**
+ * Resolve after `ms`, or reject with `signal.reason` as soon as `signal`
+ * aborts.
+ */
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with `promise`, or reject with `signal.reason` as soon as `signal`
+ * aborts - whichever happens first. Handlers that ignore the signal keep
+ * running in the background but no longer hold up the caller.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Result cache for runEvent.
+ *
+ * Entries are keyed by document, document revision, plugin version and a
+ * stable hash of the plugin's config, and hold everything needed to replay a
+ * run: the result plus every emit in order.
+ */
+
+import type { CacheInvalidationFilter, PluginEmitType, PluginResult, VdomNode } from './types';
+
+export interface CachedEmit {
+  type: PluginEmitType;
+  data: unknown;
+}
+
+export interface CacheEntry {
+  documentId: string;
+  pluginName: string;
+  result: PluginResult;
+  emits: CachedEmit[];
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal configs hash equally
+ * regardless of key order.
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * 53-bit string hash (cyrb53), hex encoded. Not cryptographic.
+ */
+export function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+export function hashValue(value: unknown): string {
+  return hashString(stableStringify(value));
+}
+
+/**
+ * Content hash of a document's nodes, used when the host does not supply
+ * `document.revision`. Only covers data plugins can see synchronously.
+ */
+export function hashDocument(nodes: VdomNode[]): string {
+  return hashValue(
+    nodes.map((node) => ({
+      id: node.id,
+      type: node.type,
+      bbox: node.bbox,
+      pageNumber: node.pageNumber,
+      text: typeof node.textContent === 'string' ? node.textContent : node._textContent,
+      classNames: node.classNames,
+      attributes: node.attributes,
+      parent: node.parent?.id,
+    }))
+  );
+}
+
+/**
+ * Bounded LRU map of cache entries. Entries are cloned on the way in and out,
+ * so callers mutating a result or emit they were handed never change what a
+ * later replay sees.
+ */
+export class ResultCache {
+  private entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Refresh recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry && structuredClone(entry);
+  }
+
+  /** Store `entry`; entries holding values structuredClone rejects are not cached */
+  set(key: string, entry: CacheEntry): void {
+    let copy: CacheEntry;
+    try {
+      copy = structuredClone(entry);
+    } catch {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, copy);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Drop entries matching every given filter; no filter clears everything.
+   * Returns the number of entries removed.
+   */
+  invalidate(filter: CacheInvalidationFilter = {}): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (filter.documentId !== undefined && entry.documentId !== filter.documentId) continue;
+      if (filter.pluginName !== undefined && entry.pluginName !== filter.pluginName) continue;
+      this.entries.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let time = 0;
+  const now = () => time;
+
+  it('trips after consecutive failures inside the window', () => {
+    time = 0;
+    const breaker = new CircuitBreaker({ maxFailures: 3, windowMs: 1000, cooldownMs: 500 }, now);
+
+    breaker.record('p', undefined, 'error', 'a');
+    time = 600;
+    breaker.record('p', undefined, 'error', 'b');
+    time = 1200; // the first failure has left the window
+    expect(breaker.record('p', undefined, 'timeout', 'c')).toBeUndefined();
+    time = 1300;
+    expect(breaker.record('p', undefined, 'error', 'd')).toBe('quarantined');
+
+    expect(breaker.getQuarantine('p')).toEqual({
+      name: 'p',
+      failures: 3,
+      error: 'd',
+      since: 1300,
+      retryAt: 1800,
+    });
+    expect(breaker.acquire('p')).toBe(breaker.getQuarantine('p'));
+  });
+
+  it('resets the count on success and ignores cancellations', () => {
+    time = 0;
+    const breaker = new CircuitBreaker({ maxFailures: 2 }, now);
+    breaker.record('p', undefined, 'error');
+    breaker.record('p', undefined, 'success');
+    breaker.record('p', undefined, 'cancelled');
+    expect(breaker.record('p', undefined, 'error')).toBeUndefined();
+  });
+
+  it('lets one trial through after the cool-off', () => {
+    time = 0;
+    const breaker = new CircuitBreaker({ maxFailures: 1, cooldownMs: 100 }, now);
+    breaker.record('p', 'cmd', 'error', 'down');
+
+    time = 100;
+    expect(breaker.acquire('p', 'cmd')).toBeUndefined();
+    expect(breaker.acquire('p', 'cmd')).toMatchObject({ commandId: 'cmd' }); // trial in flight
+    expect(breaker.record('p', 'cmd', 'error', 'still down')).toBe('quarantined');
+    expect(breaker.getQuarantine('p', 'cmd')!.retryAt).toBe(200);
+
+    time = 200;
+    expect(breaker.acquire('p', 'cmd')).toBeUndefined();
+    expect(breaker.record('p', 'cmd', 'success')).toBe('restored');
+    expect(breaker.getQuarantines()).toEqual([]);
+  });
+
+  it('resets a plugin together with its commands', () => {
+    const breaker = new CircuitBreaker({ maxFailures: 1 }, now);
+    breaker.record('p', undefined, 'error');
+    breaker.record('p', 'cmd', 'error');
+    breaker.record('q', undefined, 'error');
+
+    expect(breaker.reset('p').map((q) => q.commandId)).toEqual([undefined, 'cmd']);
+    expect(breaker.getQuarantines().map((q) => q.name)).toEqual(['q']);
+    expect(breaker.reset('p')).toEqual([]);
+  });
+});
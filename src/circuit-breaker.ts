@@ -0,0 +1,134 @@
+/**
+ * Circuit breaker behind VdomPluginManagerOptions.failurePolicy: counts
+ * consecutive failures per plugin handler and per command, and quarantines
+ * the ones that keep failing.
+ */
+
+import type { FailurePolicy, InvocationOutcome, PluginQuarantine } from './types';
+
+interface BreakerState {
+  /** Times of the consecutive failures still inside the window */
+  failures: number[];
+  quarantine?: PluginQuarantine;
+  /** A trial call after the cool-off is in flight */
+  trial: boolean;
+}
+
+/** State change caused by a recorded outcome */
+export type BreakerTransition = 'quarantined' | 'restored';
+
+/**
+ * Closed until `maxFailures` consecutive failures land within `windowMs`,
+ * then open (quarantined) for `cooldownMs`. After the cool-off one trial
+ * call is let through: success closes the breaker, failure reopens it.
+ */
+export class CircuitBreaker {
+  private readonly maxFailures: number;
+  private readonly windowMs: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  /** Keyed by plugin name, then command id (null for the plugin's handler) */
+  private states = new Map<string, Map<string | null, BreakerState>>();
+
+  constructor(policy: FailurePolicy = {}, now: () => number = Date.now) {
+    this.maxFailures = policy.maxFailures ?? 5;
+    this.windowMs = policy.windowMs ?? 60_000;
+    this.cooldownMs = policy.cooldownMs ?? 30_000;
+    this.now = now;
+  }
+
+  /**
+   * The quarantine blocking a call, or undefined if it may run. Once the
+   * cool-off has passed, the first caller gets through as the trial.
+   */
+  acquire(name: string, commandId?: string): PluginQuarantine | undefined {
+    const state = this.states.get(name)?.get(commandId ?? null);
+    const quarantine = state?.quarantine;
+    if (!quarantine) return undefined;
+    if (state.trial || this.now() < quarantine.retryAt) return quarantine;
+    state.trial = true;
+    return undefined;
+  }
+
+  /**
+   * Record how a call ended. `error` is the failure message for 'error' and
+   * 'timeout'.
+   */
+  record(
+    name: string,
+    commandId: string | undefined,
+    outcome: InvocationOutcome,
+    error = ''
+  ): BreakerTransition | undefined {
+    const targets = this.states.get(name);
+    const state = targets?.get(commandId ?? null);
+
+    if (outcome === 'cancelled') {
+      // A cancelled trial proves nothing; let the next call try
+      if (state) state.trial = false;
+      return undefined;
+    }
+
+    if (outcome === 'success') {
+      if (!state) return undefined;
+      targets!.delete(commandId ?? null);
+      if (targets!.size === 0) this.states.delete(name);
+      return state.quarantine ? 'restored' : undefined;
+    }
+
+    const now = this.now();
+    const current = state ?? { failures: [], trial: false };
+    current.failures = current.failures.filter((time) => now - time < this.windowMs);
+    current.failures.push(now);
+    if (!state) {
+      if (!targets) this.states.set(name, new Map());
+      this.states.get(name)!.set(commandId ?? null, current);
+    }
+
+    if (!current.trial && current.failures.length < this.maxFailures) return undefined;
+    current.trial = false;
+    current.quarantine = {
+      name,
+      ...(commandId !== undefined && { commandId }),
+      failures: current.failures.length,
+      error,
+      since: now,
+      retryAt: now + this.cooldownMs,
+    };
+    return 'quarantined';
+  }
+
+  getQuarantine(name: string, commandId?: string): PluginQuarantine | undefined {
+    return this.states.get(name)?.get(commandId ?? null)?.quarantine;
+  }
+
+  getQuarantines(): PluginQuarantine[] {
+    const quarantines: PluginQuarantine[] = [];
+    for (const targets of this.states.values()) {
+      for (const state of targets.values()) {
+        if (state.quarantine) quarantines.push(state.quarantine);
+      }
+    }
+    return quarantines;
+  }
+
+  /**
+   * Forget failures and lift quarantines. Without `commandId` this covers
+   * the plugin's handler and all of its commands. Returns the quarantines
+   * that were lifted.
+   */
+  reset(name: string, commandId?: string): PluginQuarantine[] {
+    const targets = this.states.get(name);
+    if (!targets) return [];
+
+    const keys = commandId === undefined ? Array.from(targets.keys()) : [commandId];
+    const lifted: PluginQuarantine[] = [];
+    for (const key of keys) {
+      const quarantine = targets.get(key)?.quarantine;
+      if (quarantine) lifted.push(quarantine);
+      targets.delete(key);
+    }
+    if (targets.size === 0) this.states.delete(name);
+    return lifted;
+  }
+}
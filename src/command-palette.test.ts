@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { CommandUsage, fuzzyMatch, getEntityTitle, interpolateTitle } from './command-palette';
+import { createMockNode } from './test-helpers';
+
+describe('getEntityTitle', () => {
+  it('prefers the title attribute, then the first line of text, then the type', () => {
+    expect(getEntityTitle(createMockNode({ attributes: { title: ' Revenue ' }, textContent: 'ignored' }))).toBe('Revenue');
+    expect(getEntityTitle(createMockNode({ textContent: '  Quarterly   results\nQ1 Q2' }))).toBe('Quarterly results');
+    expect(getEntityTitle(createMockNode({ textContent: Promise.resolve('later'), _textContent: 'Cached' }))).toBe('Cached');
+    expect(getEntityTitle(createMockNode())).toBe('table');
+  });
+
+  it('cuts long text to 40 characters', () => {
+    const title = getEntityTitle(createMockNode({ textContent: 'word '.repeat(20) }));
+    expect(title).toBe(`${'word '.repeat(7)}word…`);
+  });
+});
+
+describe('interpolateTitle', () => {
+  it('replaces every %s', () => {
+    expect(interpolateTitle('Copy "%s" (%s)', 'Revenue')).toBe('Copy "Revenue" (Revenue)');
+    expect(interpolateTitle('Extract as Markdown', 'Revenue')).toBe('Extract as Markdown');
+  });
+});
+
+describe('fuzzyMatch', () => {
+  it('matches subsequences case-insensitively and merges highlight runs', () => {
+    expect(fuzzyMatch('exmd', 'Extract as Markdown')?.highlights).toEqual([
+      { start: 0, end: 2 },
+      { start: 11, end: 12 },
+      { start: 15, end: 16 },
+    ]);
+    expect(fuzzyMatch('as mark', 'Extract as Markdown')?.highlights).toEqual([
+      { start: 8, end: 10 },
+      { start: 11, end: 15 },
+    ]);
+    expect(fuzzyMatch('xyz', 'Extract as Markdown')).toBeNull();
+  });
+
+  it('scores word starts and consecutive runs above scattered matches', () => {
+    const wordStarts = fuzzyMatch('em', 'Extract Markdown')!.score;
+    const scattered = fuzzyMatch('em', 'Remember')!.score;
+    const consecutive = fuzzyMatch('mark', 'Markdown')!.score;
+    const spread = fuzzyMatch('mark', 'Make a Rank')!.score;
+
+    expect(wordStarts).toBeGreaterThan(scattered);
+    expect(consecutive).toBeGreaterThan(spread);
+  });
+
+  it('reports highlights against the original text when lowercasing changes its length', () => {
+    // "İ" lowercases to two code units ("i" plus a combining dot)
+    expect('İ'.toLowerCase()).toHaveLength(2);
+    expect(fuzzyMatch('imp', 'İstanbul İmport')?.highlights).toEqual([{ start: 9, end: 12 }]);
+    expect(fuzzyMatch('port', 'İİ Export')?.highlights).toEqual([{ start: 5, end: 9 }]);
+    expect(fuzzyMatch('İst', 'İstanbul')?.highlights).toEqual([{ start: 0, end: 3 }]);
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(fuzzyMatch('  ', 'Anything')).toEqual({ score: 0, highlights: [] });
+  });
+});
+
+describe('CommandUsage', () => {
+  const day = 24 * 60 * 60 * 1000;
+
+  it('boosts frequent and recent commands', () => {
+    const usage = new CommandUsage();
+    usage.record('p', 'once', 0);
+    usage.record('p', 'often', 0);
+    usage.record('p', 'often', 0);
+    usage.record('p', 'often', 0);
+    usage.record('p', 'recent', 3 * day);
+
+    const now = 3 * day;
+    expect(usage.getBoost('p', 'often', now)).toBeGreaterThan(usage.getBoost('p', 'once', now));
+    expect(usage.getBoost('p', 'recent', now)).toBeGreaterThan(usage.getBoost('p', 'once', now));
+    expect(usage.getBoost('p', 'never', now)).toBe(0);
+    expect(usage.get('p', 'often')).toEqual({ count: 3, lastUsed: 0 });
+  });
+
+  it('forgets one plugin or everything', () => {
+    const usage = new CommandUsage();
+    usage.record('a', 'cmd');
+    usage.record('b', 'cmd');
+
+    usage.clear('a');
+    expect(usage.get('a', 'cmd')).toBeUndefined();
+    expect(usage.get('b', 'cmd')).toBeDefined();
+
+    usage.clear();
+    expect(usage.get('b', 'cmd')).toBeUndefined();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Command palette search: entity titles for `%s` in command titles, fuzzy
+ * matching with highlight ranges, and the usage history that ranks
+ * recently and frequently used commands first.
+ */
+
+import type { TextRange, VdomNode } from './types';
+
+export interface FuzzyMatch {
+  score: number;
+  /** Matched characters of the text, merged into runs */
+  highlights: TextRange[];
+}
+
+/** How often and how lately a command was executed */
+export interface CommandUsageEntry {
+  count: number;
+  /** Epoch milliseconds */
+  lastUsed: number;
+}
+
+/** Longest text-derived entity title before it is cut off */
+const MAX_TITLE_LENGTH = 40;
+
+/** Score per matched character, and bonuses for where it matched */
+const MATCH_SCORE = 1;
+const CONSECUTIVE_BONUS = 5;
+const WORD_START_BONUS = 4;
+const TEXT_START_BONUS = 2;
+/** Points lost per skipped character between matches, up to GAP_PENALTY_CAP */
+const GAP_PENALTY = 0.5;
+const GAP_PENALTY_CAP = 3;
+
+/** Usage boost: log2(1 + count) * FREQUENCY_WEIGHT plus a recency term halving every RECENCY_HALF_LIFE_MS */
+const FREQUENCY_WEIGHT = 2;
+const RECENCY_WEIGHT = 6;
+const RECENCY_HALF_LIFE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Title shown for an entity in command titles: its `title` attribute, else
+ * the first line of its text (cut to 40 characters), else its type.
+ */
+export function getEntityTitle(entity: VdomNode): string {
+  const title = entity.attributes.title;
+  if (typeof title === 'string' && title.trim() !== '') return title.trim();
+
+  const text = typeof entity.textContent === 'string' ? entity.textContent : entity._textContent;
+  const line = text?.trim().split('\n')[0].replace(/\s+/g, ' ') ?? '';
+  if (line === '') return entity.type;
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : line;
+}
+
+/** Replace every `%s` in a command title with the entity title */
+export function interpolateTitle(title: string, entityTitle: string): string {
+  return title.split('%s').join(entityTitle);
+}
+
+const isWordChar = (char: string) => /[\p{L}\p{N}]/u.test(char);
+
+function positionBonus(text: string, index: number): number {
+  if (index === 0) return WORD_START_BONUS + TEXT_START_BONUS;
+  const previous = text[index - 1];
+  const char = text[index];
+  if (!isWordChar(previous)) return WORD_START_BONUS;
+  // camelCase boundary
+  if (previous === previous.toLowerCase() && char !== char.toLowerCase()) return WORD_START_BONUS;
+  return 0;
+}
+
+/**
+ * Match `query` against `text` as a case-insensitive subsequence,
+ * ignoring whitespace in the query. Picks the alignment that scores best,
+ * favouring consecutive characters and word starts. Returns null when the
+ * text does not contain the query's characters in order.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = [...query.replace(/\s+/g, '').toLowerCase()];
+  if (needle.length === 0) return { score: 0, highlights: [] };
+
+  // Lowercasing can change length ("İ" becomes "i̇"), so match the lowercased
+  // characters but keep the span of `text` each one came from
+  const haystack: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (let index = 0; index < text.length; ) {
+    const char = String.fromCodePoint(text.codePointAt(index)!);
+    for (const lower of char.toLowerCase()) {
+      haystack.push(lower);
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    index += char.length;
+  }
+  const m = needle.length;
+  const n = haystack.length;
+  if (m > n) return null;
+
+  // best[i][j]: best score with needle[i] matched at haystack[j]
+  const best: number[][] = Array.from({ length: m }, () => new Array<number>(n).fill(-Infinity));
+  const from: number[][] = Array.from({ length: m }, () => new Array<number>(n).fill(-1));
+
+  for (let i = 0; i < m; i++) {
+    for (let j = i; j < n; j++) {
+      if (haystack[j] !== needle[i]) continue;
+      const firstOfChar = j === 0 || starts[j] !== starts[j - 1];
+      const gain = MATCH_SCORE + (firstOfChar ? positionBonus(text, starts[j]) : 0);
+      if (i === 0) {
+        best[i][j] = gain;
+        continue;
+      }
+      for (let k = i - 1; k < j; k++) {
+        if (best[i - 1][k] === -Infinity) continue;
+        // Characters of `text` skipped between the two matches
+        const gap = Math.max(0, starts[j] - ends[k]);
+        const score =
+          best[i - 1][k] + gain + (gap === 0 ? CONSECUTIVE_BONUS : -Math.min(gap * GAP_PENALTY, GAP_PENALTY_CAP));
+        if (score > best[i][j]) {
+          best[i][j] = score;
+          from[i][j] = k;
+        }
+      }
+    }
+  }
+
+  let end = -1;
+  for (let j = 0; j < n; j++) {
+    if (best[m - 1][j] > -Infinity && (end === -1 || best[m - 1][j] > best[m - 1][end])) end = j;
+  }
+  if (end === -1) return null;
+
+  const positions: number[] = [];
+  for (let i = m - 1, j = end; i >= 0; j = from[i][j], i--) positions.unshift(j);
+
+  const highlights: TextRange[] = [];
+  for (const position of positions) {
+    const last = highlights[highlights.length - 1];
+    if (last && last.end >= starts[position]) last.end = Math.max(last.end, ends[position]);
+    else highlights.push({ start: starts[position], end: ends[position] });
+  }
+  return { score: best[m - 1][end], highlights };
+}
+
+/**
+ * Execution counts and times per command, behind the usage boost in
+ * command search.
+ */
+export class CommandUsage {
+  /** Keyed by plugin name, then command ID */
+  private entries = new Map<string, Map<string, CommandUsageEntry>>();
+
+  record(pluginName: string, commandId: string, now = Date.now()): void {
+    let commands = this.entries.get(pluginName);
+    if (!commands) {
+      commands = new Map();
+      this.entries.set(pluginName, commands);
+    }
+    const entry = commands.get(commandId);
+    if (entry) {
+      entry.count++;
+      entry.lastUsed = now;
+    } else {
+      commands.set(commandId, { count: 1, lastUsed: now });
+    }
+  }
+
+  get(pluginName: string, commandId: string): CommandUsageEntry | undefined {
+    const entry = this.entries.get(pluginName)?.get(commandId);
+    return entry && { ...entry };
+  }
+
+  /** Ranking bonus for a command; 0 if it was never used */
+  getBoost(pluginName: string, commandId: string, now = Date.now()): number {
+    const entry = this.entries.get(pluginName)?.get(commandId);
+    if (!entry) return 0;
+    const age = Math.max(0, now - entry.lastUsed);
+    return FREQUENCY_WEIGHT * Math.log2(1 + entry.count) + RECENCY_WEIGHT * 0.5 ** (age / RECENCY_HALF_LIFE_MS);
+  }
+
+  /** Forget one plugin's history, or everything */
+  clear(pluginName?: string): void {
+    if (pluginName === undefined) this.entries.clear();
+    else this.entries.delete(pluginName);
+  }
+}
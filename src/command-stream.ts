@@ -0,0 +1,49 @@
+/**
+ * Streaming command output: turn a handler's CommandOutput into the final
+ * CommandResult, relaying chunks as they arrive.
+ */
+
+import type { CommandOutput, CommandResult, CommandStream } from './types';
+import { raceAbort } from './abort';
+
+export function isCommandStream(value: unknown): value is CommandStream {
+  return typeof (value as CommandStream | null)?.[Symbol.asyncIterator] === 'function';
+}
+
+export interface CollectCommandOptions {
+  /** Stop reading (and close the stream) when this aborts */
+  signal?: AbortSignal;
+  onChunk?: (chunk: string, index: number) => void;
+}
+
+/**
+ * Await a command handler's output. A stream resolves to
+ * `{ success: true, content: <chunks joined> }` merged with whatever the
+ * generator returned (no `content` if nothing was yielded); a thrown error
+ * or abort rejects.
+ */
+export async function collectCommandResult(
+  output: CommandOutput,
+  options: CollectCommandOptions = {}
+): Promise<CommandResult> {
+  const { signal = new AbortController().signal, onChunk } = options;
+  // Plain results from synchronous handlers are fine too
+  if (!isCommandStream(output)) return raceAbort(Promise.resolve(output), signal);
+
+  const iterator = output[Symbol.asyncIterator]();
+  const chunks: string[] = [];
+  try {
+    for (;;) {
+      const step = await raceAbort(iterator.next(), signal);
+      if (step.done) {
+        return { success: true, ...(chunks.length > 0 && { content: chunks.join('') }), ...step.value };
+      }
+      onChunk?.(step.value, chunks.length);
+      chunks.push(step.value);
+    }
+  } catch (error) {
+    // Let the generator run its finally blocks; it may still be awaiting
+    if (signal.aborted) Promise.resolve(iterator.return?.()).catch(() => {});
+    throw error;
+  }
+}
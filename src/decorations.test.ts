@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { DecorationStore } from './decorations';
+import type { EntityOverlay } from './types';
+
+const overlay = (id: string, page = 1, label?: string): EntityOverlay => ({
+  id,
+  type: 'table',
+  bbox: { x1: 0, y1: 0, x2: 1, y2: 1 },
+  page,
+  ...(label && { label }),
+});
+
+const pages: Record<string, number> = { n1: 1, n2: 2 };
+const getNodePage = (nodeId: string) => pages[nodeId];
+
+describe('DecorationStore', () => {
+  it('diffs a rerun against the previous decorations by key', () => {
+    const store = new DecorationStore();
+    store.replace('tables', 'doc-1', { overlays: [overlay('a'), overlay('b')], stats: { n: 2 } });
+
+    const diff = store.replace('tables', 'doc-1', {
+      overlays: [overlay('b', 1, 'Table'), overlay('c')],
+      stats: { n: 2 },
+    });
+
+    expect(diff.added.map((d) => d.key)).toEqual(['c']);
+    expect(diff.removed.map((d) => d.key)).toEqual(['a']);
+    expect(diff.changed).toEqual([
+      { kind: 'overlay', pluginName: 'tables', key: 'b', page: 1, value: overlay('b', 1, 'Table') },
+    ]);
+    expect(store.getAll({ kind: 'overlay' }).map((d) => d.key)).toEqual(['b', 'c']);
+  });
+
+  it('queries by page and node across plugins', () => {
+    const store = new DecorationStore();
+    store.replace('tables', 'doc-1', { overlays: [overlay('t1', 2)] }, getNodePage);
+    store.replace(
+      'orphans',
+      'doc-1',
+      {
+        badges: [{ nodeId: 'n1', text: 'ORPHAN', color: 'orange' }],
+        annotations: [{ nodeId: 'n2', startOffset: 0, endOffset: 4, type: 'highlight' }],
+        stats: { orphanBlocks: 1 },
+      },
+      getNodePage
+    );
+
+    expect(store.getByPage(2).map((d) => `${d.pluginName}/${d.kind}`)).toEqual(['tables/overlay', 'orphans/annotation']);
+    expect(store.getByNode('n1')).toEqual([
+      expect.objectContaining({ kind: 'badge', page: 1, value: { nodeId: 'n1', text: 'ORPHAN', color: 'orange' } }),
+    ]);
+    expect(store.getByPage(2, { pluginName: 'tables' })).toHaveLength(1);
+    expect(store.getStats('orphans')).toEqual({ orphanBlocks: 1 });
+  });
+
+  it('starts over for another document and clears single plugins', () => {
+    const store = new DecorationStore();
+    store.replace('tables', 'doc-1', { overlays: [overlay('a')] });
+    store.replace('orphans', 'doc-1', { stats: { n: 0 } });
+
+    const switched = store.replace('tables', 'doc-2', { overlays: [overlay('a')] });
+    expect(switched.removed.map((d) => d.pluginName)).toEqual(['tables', 'orphans']);
+    expect(switched.added).toHaveLength(1);
+    expect(store.documentId).toBe('doc-2');
+
+    expect(store.clear('tables').removed).toHaveLength(1);
+    expect(store.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Current decorations (overlays, badges, annotations, stats) of every
+ * plugin, for hosts that render them without tracking lifecycle:emit.
+ */
+
+import type {
+  Decoration,
+  DecorationDiff,
+  DecorationKind,
+  PluginResult,
+} from './types';
+import { stableStringify } from './cache';
+
+export interface DecorationFilter {
+  pluginName?: string;
+  kind?: DecorationKind;
+}
+
+function toDecorations(
+  pluginName: string,
+  data: NonNullable<PluginResult['data']>,
+  getNodePage: (nodeId: string) => number | undefined
+): Decoration[] {
+  const decorations: Decoration[] = [];
+
+  for (const overlay of data.overlays ?? []) {
+    decorations.push({ kind: 'overlay', pluginName, key: overlay.id, page: overlay.page, value: overlay });
+  }
+  for (const badge of data.badges ?? []) {
+    decorations.push({
+      kind: 'badge',
+      pluginName,
+      key: `${badge.nodeId}:${badge.text}`,
+      page: getNodePage(badge.nodeId),
+      nodeId: badge.nodeId,
+      value: badge,
+    });
+  }
+  for (const annotation of data.annotations ?? []) {
+    decorations.push({
+      kind: 'annotation',
+      pluginName,
+      key: `${annotation.nodeId}:${annotation.type}:${annotation.startOffset}-${annotation.endOffset}`,
+      page: getNodePage(annotation.nodeId),
+      nodeId: annotation.nodeId,
+      value: annotation,
+    });
+  }
+  if (data.stats) {
+    decorations.push({ kind: 'stats', pluginName, key: 'stats', value: data.stats });
+  }
+
+  return decorations;
+}
+
+const entryKey = (decoration: Decoration) => `${decoration.kind}:${decoration.key}`;
+
+/**
+ * Decorations for one document, keyed by plugin. The manager replaces a
+ * plugin's entries when it completes a run and clears them when the plugin
+ * is disabled or unregistered; hosts only read from it.
+ */
+export class DecorationStore {
+  private byPlugin = new Map<string, Map<string, Decoration>>();
+  private _documentId: string | null = null;
+
+  /** Document the stored decorations belong to */
+  get documentId(): string | null {
+    return this._documentId;
+  }
+
+  /**
+   * Replace everything `pluginName` has with the decorations in `data`.
+   * A run for another document first drops all stored decorations.
+   */
+  replace(
+    pluginName: string,
+    documentId: string,
+    data: PluginResult['data'],
+    getNodePage: (nodeId: string) => number | undefined = () => undefined
+  ): DecorationDiff {
+    const diff: DecorationDiff = { added: [], removed: [], changed: [] };
+    if (documentId !== this._documentId) {
+      diff.removed = this.getAll();
+      this.byPlugin.clear();
+      this._documentId = documentId;
+    }
+
+    const previous = this.byPlugin.get(pluginName) ?? new Map<string, Decoration>();
+    const next = new Map<string, Decoration>();
+    for (const decoration of toDecorations(pluginName, data ?? {}, getNodePage)) {
+      next.set(entryKey(decoration), decoration);
+    }
+
+    for (const [key, decoration] of next) {
+      const old = previous.get(key);
+      if (!old) diff.added.push(decoration);
+      else if (stableStringify(old.value) !== stableStringify(decoration.value) || old.page !== decoration.page) {
+        diff.changed.push(decoration);
+      }
+    }
+    for (const [key, decoration] of previous) {
+      if (!next.has(key)) diff.removed.push(decoration);
+    }
+
+    if (next.size > 0) this.byPlugin.set(pluginName, next);
+    else this.byPlugin.delete(pluginName);
+    return diff;
+  }
+
+  /** Remove every decoration of `pluginName` */
+  clear(pluginName: string): DecorationDiff {
+    const removed = Array.from(this.byPlugin.get(pluginName)?.values() ?? []);
+    this.byPlugin.delete(pluginName);
+    return { added: [], removed, changed: [] };
+  }
+
+  getAll(filter: DecorationFilter = {}): Decoration[] {
+    const plugins = filter.pluginName
+      ? [this.byPlugin.get(filter.pluginName) ?? new Map<string, Decoration>()]
+      : Array.from(this.byPlugin.values());
+
+    return plugins
+      .flatMap((decorations) => Array.from(decorations.values()))
+      .filter((decoration) => !filter.kind || decoration.kind === filter.kind);
+  }
+
+  /** Overlays on `page`, plus badges and annotations whose node is on it */
+  getByPage(page: number, filter: DecorationFilter = {}): Decoration[] {
+    return this.getAll(filter).filter((decoration) => decoration.page === page);
+  }
+
+  /** Badges and annotations attached to `nodeId` */
+  getByNode(nodeId: string, filter: DecorationFilter = {}): Decoration[] {
+    return this.getAll(filter).filter((decoration) => decoration.nodeId === nodeId);
+  }
+
+  getStats(pluginName: string): Record<string, number | string> | undefined {
+    const stats = this.byPlugin.get(pluginName)?.get('stats:stats');
+    return stats?.kind === 'stats' ? stats.value : undefined;
+  }
+}
+
+export function isEmptyDiff(diff: DecorationDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
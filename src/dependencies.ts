@@ -0,0 +1,156 @@
+/**
+ * Plugin dependency graph helpers.
+ *
+ * Pure functions over `VdomPlugin.dependencies`; the manager owns the plugin
+ * map and passes a lookup so these stay independent of its state.
+ */
+
+type DependencyLookup = (name: string) => string[] | undefined;
+
+export interface DependencySpec {
+  name: string;
+  /** Semver range the dependency's version must satisfy */
+  range?: string;
+}
+
+/**
+ * Split a `dependencies` entry such as `coord-table-detector@^1.2` into name
+ * and range. Entries without `@` (after the first character, so scoped
+ * names work) have no range.
+ */
+export function parseDependency(entry: string): DependencySpec {
+  const at = entry.lastIndexOf('@');
+  if (at <= 0) return { name: entry };
+  return { name: entry.slice(0, at), range: entry.slice(at + 1).trim() };
+}
+
+/**
+ * Plugin names from `dependencies` entries, without ranges.
+ */
+export function getDependencyNames(entries: string[] | undefined): string[] | undefined {
+  return entries?.map((entry) => parseDependency(entry).name);
+}
+
+/**
+ * Find a dependency cycle reachable from `start`.
+ * Returns the cycle path (first and last entries equal), or null if acyclic.
+ * Unknown plugin names are treated as leaves.
+ */
+export function findDependencyCycle(start: string, getDependencies: DependencyLookup): string[] | null {
+  const visiting: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (name: string): string[] | null => {
+    const index = visiting.indexOf(name);
+    if (index !== -1) return [...visiting.slice(index), name];
+    if (done.has(name)) return null;
+
+    visiting.push(name);
+    for (const dep of getDependencies(name) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    done.add(name);
+    return null;
+  };
+
+  return visit(start);
+}
+
+/**
+ * Collect every transitive dependency of `name` (excluding `name` itself),
+ * dependencies first.
+ */
+export function collectDependencies(name: string, getDependencies: DependencyLookup): string[] {
+  const collected: string[] = [];
+  const seen = new Set<string>([name]);
+
+  const visit = (current: string) => {
+    for (const dep of getDependencies(current) ?? []) {
+      if (seen.has(dep)) continue;
+      seen.add(dep);
+      visit(dep);
+      collected.push(dep);
+    }
+  };
+
+  visit(name);
+  return collected;
+}
+
+/**
+ * Order `names` so each entry comes after its dependencies.
+ * Preserves input order otherwise. Assumes the graph is acyclic.
+ */
+export function sortByDependencies(names: string[], getDependencies: DependencyLookup): string[] {
+  const included = new Set(names);
+  const ordered: string[] = [];
+  const resolved = new Set<string>();
+
+  const resolve = (name: string) => {
+    if (resolved.has(name)) return;
+    resolved.add(name);
+
+    for (const dep of getDependencies(name) ?? []) {
+      resolve(dep);
+    }
+
+    if (included.has(name)) {
+      ordered.push(name);
+    }
+  };
+
+  for (const name of names) {
+    resolve(name);
+  }
+
+  return ordered;
+}
+
+/**
+ * Run `task` for each of `names`, at most `concurrency` at a time, starting a
+ * name only once every dependency that is also in `names` has finished.
+ * Ready names start in input order. A non-finite `concurrency` (Infinity,
+ * NaN) means no limit. `task` must not reject.
+ */
+export async function runInDependencyOrder(
+  names: string[],
+  getDependencies: DependencyLookup,
+  concurrency: number,
+  task: (name: string) => Promise<void>
+): Promise<void> {
+  const included = new Set(names);
+  const blockers = new Map(
+    names.map((name) => [
+      name,
+      collectDependencies(name, getDependencies).filter((dep) => included.has(dep)),
+    ])
+  );
+  const limit = Number.isFinite(concurrency) ? Math.max(1, concurrency) : Infinity;
+  const pending = [...names];
+  const finished = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+
+  while (pending.length > 0 || running.size > 0) {
+    for (let i = 0; i < pending.length && running.size < limit; ) {
+      const name = pending[i];
+      if (!blockers.get(name)!.every((dep) => finished.has(dep))) {
+        i++;
+        continue;
+      }
+
+      pending.splice(i, 1);
+      running.set(
+        name,
+        task(name).then(() => {
+          running.delete(name);
+          finished.add(name);
+        })
+      );
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * VDOM Plugin System Errors
+ *
+ * Error classes thrown by the plugin manager. Each carries the plugin name
+ * plus structured details so hosts can render them without parsing messages.
+ */
+
+import type { ConfigFieldError, PluginCapability, PluginQuarantine } from './types';
+
+// =============================================================================
+// Dependency Errors
+// =============================================================================
+
+/** 'incompatible': a registered version does not satisfy a dependency range */
+export type PluginDependencyErrorReason = 'cycle' | 'missing' | 'disabled' | 'incompatible';
+
+export class PluginDependencyError extends Error {
+  readonly pluginName: string;
+  readonly reason: PluginDependencyErrorReason;
+  /**
+   * Plugin names involved: the cycle path, the missing/disabled
+   * dependencies, or the other side of an incompatible range
+   */
+  readonly dependencies: string[];
+
+  constructor(
+    pluginName: string,
+    reason: PluginDependencyErrorReason,
+    dependencies: string[],
+    message: string
+  ) {
+    super(message);
+    this.name = 'PluginDependencyError';
+    this.pluginName = pluginName;
+    this.reason = reason;
+    this.dependencies = dependencies;
+  }
+}
+
+/**
+ * A plugin's `apiVersion` is not supported by this library's
+ * PLUGIN_API_VERSION.
+ */
+export class PluginApiVersionError extends Error {
+  readonly pluginName: string;
+  readonly apiVersion: string;
+  readonly supportedVersion: string;
+
+  constructor(pluginName: string, apiVersion: string, supportedVersion: string) {
+    super(
+      `Plugin "${pluginName}" targets plugin API ${apiVersion}, ` +
+        `but this library implements ${supportedVersion}`
+    );
+    this.name = 'PluginApiVersionError';
+    this.pluginName = pluginName;
+    this.apiVersion = apiVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+// =============================================================================
+// Cancellation Errors
+// =============================================================================
+
+/**
+ * A plugin handler or command exceeded its manifest `timeoutMs`.
+ */
+export class PluginTimeoutError extends Error {
+  readonly pluginName: string;
+  readonly commandId?: string;
+  readonly timeoutMs: number;
+
+  constructor(pluginName: string, timeoutMs: number, commandId?: string) {
+    const target = commandId ? `Command "${commandId}" of plugin "${pluginName}"` : `Plugin "${pluginName}"`;
+    super(`${target} timed out after ${timeoutMs}ms`);
+    this.name = 'PluginTimeoutError';
+    this.pluginName = pluginName;
+    this.commandId = commandId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * A plugin handler or command was cancelled via cancel()/cancelCommand()
+ * or the caller's AbortSignal.
+ */
+export class PluginCancelledError extends Error {
+  readonly pluginName: string;
+  readonly commandId?: string;
+
+  constructor(pluginName: string, commandId?: string) {
+    const target = commandId ? `Command "${commandId}" of plugin "${pluginName}"` : `Plugin "${pluginName}"`;
+    super(`${target} was cancelled`);
+    this.name = 'PluginCancelledError';
+    this.pluginName = pluginName;
+    this.commandId = commandId;
+  }
+}
+
+// =============================================================================
+// Quarantine Errors
+// =============================================================================
+
+/**
+ * A plugin handler or command is quarantined by the manager's failure
+ * policy and was not called.
+ */
+export class PluginQuarantinedError extends Error {
+  readonly pluginName: string;
+  readonly commandId?: string;
+  readonly quarantine: PluginQuarantine;
+
+  constructor(quarantine: PluginQuarantine) {
+    const { name: pluginName, commandId } = quarantine;
+    const target = commandId ? `Command "${commandId}" of plugin "${pluginName}"` : `Plugin "${pluginName}"`;
+    super(
+      `${target} is quarantined after ${quarantine.failures} consecutive failures ` +
+        `(last: ${quarantine.error}); retrying after ${new Date(quarantine.retryAt).toISOString()}`
+    );
+    this.name = 'PluginQuarantinedError';
+    this.pluginName = pluginName;
+    this.commandId = commandId;
+    this.quarantine = quarantine;
+  }
+}
+
+// =============================================================================
+// Config Errors
+// =============================================================================
+
+/**
+ * A config (or a configSchema default) failed validation against the
+ * plugin's configSchema.
+ */
+export class PluginConfigError extends Error {
+  readonly pluginName: string;
+  readonly fieldErrors: ConfigFieldError[];
+
+  constructor(pluginName: string, fieldErrors: ConfigFieldError[], message?: string) {
+    super(
+      message ??
+        `Invalid config for plugin "${pluginName}": ${fieldErrors.map((e) => e.message).join('; ')}`
+    );
+    this.name = 'PluginConfigError';
+    this.pluginName = pluginName;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// =============================================================================
+// Permission Errors
+// =============================================================================
+
+/**
+ * A plugin used a capability (network origin, mutation, clipboard) the host
+ * did not grant.
+ */
+export class PluginPermissionError extends Error {
+  readonly pluginName: string;
+  readonly capability: PluginCapability;
+  /** The denied origin for 'network' */
+  readonly detail?: string;
+  readonly commandId?: string;
+
+  constructor(pluginName: string, capability: PluginCapability, detail?: string, commandId?: string) {
+    const what = capability === 'network' ? `network access to ${detail}` : `the ${capability} permission`;
+    super(`Plugin "${pluginName}" was not granted ${what}`);
+    this.name = 'PluginPermissionError';
+    this.pluginName = pluginName;
+    this.capability = capability;
+    this.detail = detail;
+    this.commandId = commandId;
+  }
+}
+
+// =============================================================================
+// Manifest Errors
+// =============================================================================
+
+/**
+ * A manifest.json is malformed, or its entry module does not export the
+ * handlers it declares.
+ */
+export class PluginManifestError extends Error {
+  /** Manifest URL or path */
+  readonly source: string;
+  readonly pluginName?: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[], pluginName?: string) {
+    const subject = pluginName ? `plugin "${pluginName}" (${source})` : source;
+    super(`Invalid manifest for ${subject}: ${issues.join('; ')}`);
+    this.name = 'PluginManifestError';
+    this.source = source;
+    this.pluginName = pluginName;
+    this.issues = issues;
+  }
+}
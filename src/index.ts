@@ -15,8 +15,13 @@ export type {
   VdomReadyStateValue,
   EntityType,
   VdomNode,
+  NodeSnapshot,
+  NodeMutation,
+  NodeUpdate,
+  MutationBatch,
   ConfigFieldType,
   ConfigField,
+  ConfigFieldError,
   PluginConfigSchema,
   ViewControlType,
   ViewControlSchema,
@@ -28,37 +33,182 @@ export type {
   QueryEngine,
   EmitFunction,
   PluginContext,
+  PluginRunContext,
+  EmittedData,
+  UpstreamResult,
   PluginResult,
   VdomPlugin,
   PluginManagerEvent,
   PluginManagerEventData,
   IPluginManager,
   EntityContextType,
+  LogLevel,
+  LogFunction,
+  LogEntry,
+  Logger,
   CommandOutputFormat,
   CommandContext,
+  CommandRunContext,
   CommandResult,
+  CommandStream,
+  CommandOutput,
   PluginCommand,
   ResolvedCommand,
+  ShortcutPlatform,
+  ShortcutKeyEvent,
+  ShortcutBinding,
+  ShortcutConflict,
+  TextRange,
+  CommandSearchOptions,
+  CommandSearchResult,
+  PluginSettings,
+  PluginSettingsSnapshot,
+  PluginSettingsStore,
+  SettingsProfile,
+  ProfileImportReport,
+  EnablePluginOptions,
+  DisablePluginOptions,
+  PluginDependencyNode,
+  RunEventOptions,
+  ExecuteCommandOptions,
+  ExecuteCommandBatchOptions,
+  VdomPluginManagerOptions,
+  DocumentProvider,
+  RegisterPluginOptions,
+  PluginWorkerOptions,
+  PluginWorkerPort,
+  PluginWorkerFactory,
+  ResultCacheOptions,
+  CacheInvalidationFilter,
+  PluginCapability,
+  PluginPermissions,
+  PermissionPolicy,
+  PluginFetch,
+  PluginManifest,
+  PluginCommandManifest,
+  PluginEntryModule,
+  PluginLoadFailure,
+  PluginLoadReport,
+  Decoration,
+  DecorationKind,
+  DecorationDiff,
+  TraceCategory,
+  TraceAttributes,
+  TraceSpan,
+  TraceFunction,
+  MetricLabels,
+  MetricSnapshot,
+  CounterSeries,
+  HistogramSeries,
+  InvocationOutcome,
+  FailurePolicy,
+  PluginQuarantine,
+  CommandFailure,
+  CommandRetryPolicy,
 } from './types';
 
 export {
   VdomReadyState,
+  PLUGIN_API_VERSION,
   isVdomPlugin,
   isPluginResult,
   isPluginCommand,
   isCommandResult,
   validatePluginConfig,
+  applyConfigDefaults,
 } from './types';
 
 // =============================================================================
 // Runtime - Plugin manager
 // =============================================================================
 export { VdomPluginManager, pluginManager } from './runtime';
+export { createConsoleLogger } from './logger';
+export { hashDocument } from './cache';
+export { PageState } from './mutations';
+export { DecorationStore, type DecorationFilter } from './decorations';
+export { collectCommandResult, isCommandStream, type CollectCommandOptions } from './command-stream';
+export { Tracer, noopTrace, type ChromeTrace, type ChromeTraceEvent } from './tracing';
+export {
+  MetricsRegistry,
+  Counter,
+  Histogram,
+  DEFAULT_BUCKETS,
+  registerPluginMetrics,
+  type MetricsRegistryOptions,
+  type PluginMetrics,
+} from './metrics';
+
+// =============================================================================
+// Workers - Handler isolation (see PluginWorkerOptions)
+// =============================================================================
+export { defaultWorkerFactory } from './worker';
+export { startWorkerRuntime, type WorkerEndpoint } from './worker-runtime';
+
+// =============================================================================
+// Manifests - Plugins loaded from manifest.json + entry module
+// (loadPluginDirectory is Node-only: '@okrapdf/vdom-plugins/plugin-directory')
+// =============================================================================
+export {
+  parsePluginManifest,
+  createPluginFromManifest,
+  loadPluginFromManifest,
+  registerPluginManifests,
+  type ManifestLoaderOptions,
+} from './manifest';
+
+// =============================================================================
+// Settings - Persistent enabled flags and configs
+// (JsonFileSettingsStore is Node-only: '@okrapdf/vdom-plugins/settings-file')
+// =============================================================================
+export {
+  PLUGIN_SETTINGS_VERSION,
+  PROFILE_EXPORT_FORMAT,
+  PROFILE_EXPORT_VERSION,
+  parseSettingsSnapshot,
+  parseProfileExport,
+  MemorySettingsStore,
+  LocalStorageSettingsStore,
+} from './settings';
+
+// =============================================================================
+// Errors
+// =============================================================================
+export {
+  PluginDependencyError,
+  PluginTimeoutError,
+  PluginCancelledError,
+  PluginQuarantinedError,
+  PluginConfigError,
+  PluginPermissionError,
+  PluginApiVersionError,
+  PluginManifestError,
+  type PluginDependencyErrorReason,
+} from './errors';
 
 // =============================================================================
 // Utilities
 // =============================================================================
 export { overlapRatio, bboxContains } from './utils';
+export { parseVersion, compareVersions, satisfies, type SemVer } from './semver';
+export { parseDependency, type DependencySpec } from './dependencies';
+export {
+  parseAccelerator,
+  formatAccelerator,
+  normalizeAccelerator,
+  acceleratorFromEvent,
+  detectShortcutPlatform,
+  findShortcutConflicts,
+  type Accelerator,
+  type ShortcutClaim,
+} from './shortcuts';
+export {
+  getEntityTitle,
+  interpolateTitle,
+  fuzzyMatch,
+  CommandUsage,
+  type FuzzyMatch,
+  type CommandUsageEntry,
+} from './command-palette';
 
 // =============================================================================
 // Built-in Plugins
@@ -91,6 +241,7 @@ export {
   type CoordTableDetectorConfig,
   type CoordTableDetectorStats,
   type DetectedTable,
+  type CoordTableDetectorExports,
 } from './plugins/coord-table-detector';
 
 // =============================================================================
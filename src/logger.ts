@@ -0,0 +1,31 @@
+import type { Logger, LogEntry, LogLevel } from './types';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+function formatEntry(entry: LogEntry): string {
+  const source = entry.commandId ? `${entry.pluginName}:${entry.commandId}` : entry.pluginName;
+  return `[${source}] ${entry.message}`;
+}
+
+/**
+ * Logger that writes entries at or above `minLevel` to the console.
+ * The manager's default is `createConsoleLogger('error')`.
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'info'): Logger {
+  const write = (level: LogLevel) => (_message: string, entry: LogEntry) => {
+    if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[minLevel]) return;
+    console[level](formatEntry(entry));
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { VdomPluginManager } from './runtime';
+import { parsePluginManifest, createPluginFromManifest, registerPluginManifests } from './manifest';
+import { loadPluginDirectory } from './plugin-directory';
+import { PluginManifestError } from './errors';
+import type { PluginManifest } from './types';
+
+function createManifest(overrides: Partial<PluginManifest> = {}): PluginManifest {
+  return {
+    name: 'table-stats',
+    description: 'Counts tables',
+    version: '1.0.0',
+    runsOn: ['complete'],
+    entry: './index.js',
+    commands: [{ id: 'copy-stats', title: 'Copy stats', contexts: ['table'], outputFormat: 'text' }],
+    ...overrides,
+  };
+}
+
+function getIssues(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PluginManifestError);
+    return (error as PluginManifestError).issues;
+  }
+  throw new Error('expected a PluginManifestError');
+}
+
+describe('parsePluginManifest', () => {
+  it('accepts a valid manifest', () => {
+    const manifest = createManifest({ configSchema: { limit: { type: 'number', label: 'Limit', default: 3 } } });
+    expect(parsePluginManifest(JSON.parse(JSON.stringify(manifest)), 'manifest.json')).toEqual(manifest);
+  });
+
+  it('lists every problem', () => {
+    const issues = getIssues(() =>
+      parsePluginManifest(
+        {
+          name: 'broken',
+          runsOn: ['complete', 'onload'],
+          timeoutMs: '5s',
+          permissions: { network: 'https://api.example.com', clipboard: 'yes' },
+          commands: [
+            { id: 'a', title: 'A', contexts: ['all'], shortcut: 'Ctrl+Hyper+K' },
+            { id: 'a', title: 'A', contexts: 'all', outputFormat: 'text', retry: { maxAttempts: '3' } },
+          ],
+        },
+        'plugins/broken/manifest.json'
+      )
+    );
+
+    expect(issues).toEqual([
+      'description must be a string',
+      'entry must be a non-empty string',
+      'runsOn has unknown event "onload"',
+      'timeoutMs must be a number',
+      'permissions.network must be an array of strings',
+      'permissions.clipboard must be a boolean',
+      'commands[0].outputFormat must be a non-empty string',
+      'commands[0].shortcut: Invalid shortcut "Ctrl+Hyper+K": unknown modifier "Hyper"',
+      'commands[1].contexts must be an array of strings',
+      'commands[1].retry.maxAttempts must be a number',
+      'command id "a" is declared more than once',
+    ]);
+  });
+});
+
+describe('createPluginFromManifest', () => {
+  it('attaches exported handlers, from named or default exports', () => {
+    const handler = vi.fn().mockReturnValue({ success: true });
+    const copy = vi.fn().mockResolvedValue({ success: true, content: '3 tables' });
+
+    const exports = { handler, commands: { 'copy-stats': copy } };
+    for (const module of [exports, { default: exports }]) {
+      const plugin = createPluginFromManifest(createManifest(), module, 'manifest.json');
+      expect(plugin.handler).toBe(handler);
+      expect(plugin.commands![0]).toEqual({
+        id: 'copy-stats',
+        title: 'Copy stats',
+        contexts: ['table'],
+        outputFormat: 'text',
+        handler: copy,
+      });
+      expect(plugin).not.toHaveProperty('entry');
+    }
+  });
+
+  it('rejects entry modules that do not match the manifest', () => {
+    const issues = getIssues(() =>
+      createPluginFromManifest(createManifest(), { commands: { 'copy-stats': 'nope', extra: vi.fn() } }, 'manifest.json')
+    );
+
+    expect(issues).toEqual([
+      'entry module must export a handler for runsOn events (complete)',
+      'handler for command "copy-stats" must be a function',
+      'entry module exports a handler for undeclared command "extra"',
+    ]);
+  });
+
+  it('lets command-only plugins omit the handler', async () => {
+    const plugin = createPluginFromManifest(
+      createManifest({ runsOn: [] }),
+      { commands: { 'copy-stats': vi.fn() } },
+      'manifest.json'
+    );
+    expect(await plugin.handler({} as never)).toEqual({ success: true });
+  });
+});
+
+describe('registerPluginManifests', () => {
+  it('registers what loads and reports per-plugin failures', async () => {
+    const manifests: Record<string, unknown> = {
+      'https://cdn.example.com/plugins/stats/manifest.json': createManifest(),
+      'https://cdn.example.com/plugins/broken/manifest.json': { name: 'broken' },
+      'https://cdn.example.com/plugins/clash/manifest.json': createManifest({ commands: [] }),
+    };
+    const importModule = vi.fn(async () => ({ handler: vi.fn(), commands: { 'copy-stats': vi.fn() } }));
+    const manager = new VdomPluginManager();
+
+    const report = await registerPluginManifests(manager, Object.keys(manifests), {
+      readManifest: async (url) => manifests[url.href],
+      importModule,
+    });
+
+    expect(importModule).toHaveBeenCalledWith(new URL('https://cdn.example.com/plugins/stats/index.js'));
+    expect(report.loaded).toEqual(['table-stats']);
+    expect(report.failed.map(({ source, pluginName }) => ({ source, pluginName }))).toEqual([
+      { source: 'https://cdn.example.com/plugins/broken/manifest.json', pluginName: 'broken' },
+      { source: 'https://cdn.example.com/plugins/clash/manifest.json', pluginName: 'table-stats' },
+    ]);
+    expect(report.failed[1].error.message).toContain('undeclared command "copy-stats"');
+    expect(manager.getPlugin('table-stats')!.commands).toHaveLength(1);
+  });
+});
+
+describe('loadPluginDirectory', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('loads each plugin directory with a manifest.json', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vdom-plugins-'));
+    await mkdir(join(dir, 'stats'));
+    await writeFile(join(dir, 'stats', 'manifest.json'), JSON.stringify(createManifest({ defaultEnabled: true })));
+    await writeFile(
+      join(dir, 'stats', 'index.js'),
+      [
+        'export const handler = () => ({ success: true, data: { stats: { loaded: "yes" } } });',
+        'export const commands = { "copy-stats": async () => ({ success: true, content: "ok" }) };',
+      ].join('\n')
+    );
+    await mkdir(join(dir, 'invalid-json'));
+    await writeFile(join(dir, 'invalid-json', 'manifest.json'), '{ "name": ');
+    await mkdir(join(dir, 'assets'));
+
+    const manager = new VdomPluginManager();
+    const report = await loadPluginDirectory(manager, dir);
+
+    expect(report.loaded).toEqual(['table-stats']);
+    expect(report.failed).toHaveLength(1);
+    expect(report.failed[0].source).toBe(join(dir, 'invalid-json', 'manifest.json'));
+    expect(report.failed[0].error).toBeInstanceOf(SyntaxError);
+
+    const results = await manager.runEvent('complete', {
+      document: { id: 'doc-1', getAllNodes: () => [], getNode: () => undefined, pages: [] },
+      $: () => ({ toArray: () => [], length: 0, first: () => undefined, filter: () => ({ toArray: () => [] }) }),
+    });
+    expect(results.get('table-stats')!.data).toEqual({ stats: { loaded: 'yes' } });
+  });
+});
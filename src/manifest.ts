@@ -0,0 +1,274 @@
+/**
+ * Declarative plugins: a manifest.json describing the plugin plus an entry
+ * module exporting its handlers, loaded and registered at runtime.
+ */
+
+import type {
+  IPluginManager,
+  PluginCommand,
+  PluginCommandManifest,
+  PluginEntryModule,
+  PluginLoadReport,
+  PluginManifest,
+  VdomLifecycleEvent,
+  VdomPlugin,
+} from './types';
+import { PluginManifestError } from './errors';
+import { parseAccelerator } from './shortcuts';
+
+export interface ManifestLoaderOptions {
+  /** Read and parse a manifest. Default: fetch() the URL as JSON */
+  readManifest?: (url: URL) => Promise<unknown>;
+  /** Import an entry module. Default: import() */
+  importModule?: (url: URL) => Promise<Record<string, unknown>>;
+}
+
+const LIFECYCLE_EVENTS: Record<VdomLifecycleEvent, true> = {
+  loading: true,
+  ready: true,
+  interactive: true,
+  complete: true,
+  nodeAdded: true,
+  nodeRemoved: true,
+  nodeUpdated: true,
+  selectionChanged: true,
+  pageChanged: true,
+};
+
+const OPTIONAL_FIELD_TYPES: Record<string, 'string' | 'number' | 'boolean' | 'object'> = {
+  version: 'string',
+  apiVersion: 'string',
+  defaultEnabled: 'boolean',
+  timeoutMs: 'number',
+  cacheable: 'boolean',
+  configSchema: 'object',
+  permissions: 'object',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+function checkCommand(command: unknown, index: number, issues: string[]): void {
+  const at = `commands[${index}]`;
+  if (!isObject(command)) {
+    issues.push(`${at} must be an object`);
+    return;
+  }
+  for (const field of ['id', 'title', 'outputFormat']) {
+    if (typeof command[field] !== 'string' || command[field] === '') {
+      issues.push(`${at}.${field} must be a non-empty string`);
+    }
+  }
+  if (!isStringArray(command.contexts)) issues.push(`${at}.contexts must be an array of strings`);
+  for (const field of ['enabled', 'visible', 'mutatesDocument', 'batch']) {
+    if (command[field] !== undefined && typeof command[field] !== 'boolean') {
+      issues.push(`${at}.${field} must be a boolean`);
+    }
+  }
+  if (command.timeoutMs !== undefined && typeof command.timeoutMs !== 'number') {
+    issues.push(`${at}.timeoutMs must be a number`);
+  }
+  if (command.shortcut !== undefined) {
+    if (typeof command.shortcut !== 'string') {
+      issues.push(`${at}.shortcut must be a string`);
+    } else {
+      try {
+        parseAccelerator(command.shortcut);
+      } catch (error) {
+        issues.push(`${at}.shortcut: ${(error as Error).message}`);
+      }
+    }
+  }
+  if (command.retry !== undefined) {
+    if (!isObject(command.retry)) {
+      issues.push(`${at}.retry must be an object`);
+    } else {
+      for (const field of ['maxAttempts', 'initialDelayMs', 'maxDelayMs', 'multiplier', 'jitter']) {
+        const type = field === 'jitter' ? 'boolean' : 'number';
+        const value = command.retry[field];
+        if (value !== undefined && typeof value !== type) issues.push(`${at}.retry.${field} must be a ${type}`);
+      }
+    }
+  }
+}
+
+/**
+ * Validate parsed manifest.json contents. Throws PluginManifestError listing
+ * every problem found. Config defaults, versions and dependency ranges are
+ * checked later by register().
+ */
+export function parsePluginManifest(raw: unknown, source: string): PluginManifest {
+  if (!isObject(raw)) throw new PluginManifestError(source, ['manifest must be a JSON object']);
+
+  const name = typeof raw.name === 'string' && raw.name !== '' ? raw.name : undefined;
+  const issues: string[] = [];
+  if (!name) issues.push('name must be a non-empty string');
+  if (typeof raw.description !== 'string') issues.push('description must be a string');
+  if (typeof raw.entry !== 'string' || raw.entry === '') issues.push('entry must be a non-empty string');
+
+  if (!isStringArray(raw.runsOn)) {
+    issues.push('runsOn must be an array of lifecycle events');
+  } else {
+    for (const event of raw.runsOn) {
+      if (!(event in LIFECYCLE_EVENTS)) issues.push(`runsOn has unknown event "${event}"`);
+    }
+  }
+
+  for (const [field, type] of Object.entries(OPTIONAL_FIELD_TYPES)) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (type === 'object' ? !isObject(value) : typeof value !== type) {
+      issues.push(`${field} must be ${type === 'object' ? 'an object' : `a ${type}`}`);
+    }
+  }
+  if (isObject(raw.permissions)) {
+    const { network } = raw.permissions;
+    if (network !== undefined && !isStringArray(network)) {
+      issues.push('permissions.network must be an array of strings');
+    }
+    for (const field of ['clipboard', 'mutation']) {
+      const value = raw.permissions[field];
+      if (value !== undefined && typeof value !== 'boolean') issues.push(`permissions.${field} must be a boolean`);
+    }
+  }
+  if (raw.dependencies !== undefined && !isStringArray(raw.dependencies)) {
+    issues.push('dependencies must be an array of strings');
+  }
+  if (raw.viewControls !== undefined && !Array.isArray(raw.viewControls)) {
+    issues.push('viewControls must be an array');
+  }
+
+  if (raw.commands !== undefined) {
+    if (!Array.isArray(raw.commands)) {
+      issues.push('commands must be an array');
+    } else {
+      raw.commands.forEach((command, index) => checkCommand(command, index, issues));
+      const ids = raw.commands.map((command) => (isObject(command) ? command.id : undefined));
+      const duplicates = ids.filter((id, index) => typeof id === 'string' && ids.indexOf(id) !== index);
+      for (const id of new Set(duplicates)) issues.push(`command id "${id}" is declared more than once`);
+    }
+  }
+
+  if (issues.length > 0) throw new PluginManifestError(source, issues, name);
+  return raw as unknown as PluginManifest;
+}
+
+/**
+ * Combine a manifest with its entry module's exports. Throws
+ * PluginManifestError when the exported handlers do not match the manifest:
+ * a missing handler for runsOn events or for a declared command, a command
+ * handler the manifest does not declare, or a non-function export.
+ */
+export function createPluginFromManifest(
+  manifest: PluginManifest,
+  module: Record<string, unknown>,
+  source: string
+): VdomPlugin {
+  const exports: Record<string, unknown> =
+    module.handler === undefined && module.commands === undefined && isObject(module.default)
+      ? module.default
+      : module;
+  const { handler, cleanup } = exports as PluginEntryModule;
+  const commandHandlers = exports.commands;
+  const issues: string[] = [];
+
+  if (handler !== undefined && typeof handler !== 'function') issues.push('handler export must be a function');
+  if (handler === undefined && manifest.runsOn.length > 0) {
+    issues.push(`entry module must export a handler for runsOn events (${manifest.runsOn.join(', ')})`);
+  }
+  if (cleanup !== undefined && typeof cleanup !== 'function') issues.push('cleanup export must be a function');
+
+  const declared = manifest.commands ?? [];
+  if (commandHandlers !== undefined && !isObject(commandHandlers)) {
+    issues.push('commands export must be an object of handlers keyed by command id');
+  } else {
+    for (const command of declared) {
+      const commandHandler = commandHandlers?.[command.id];
+      if (commandHandler === undefined) {
+        issues.push(`command "${command.id}" has no handler in the entry module`);
+      } else if (typeof commandHandler !== 'function') {
+        issues.push(`handler for command "${command.id}" must be a function`);
+      }
+    }
+    for (const id of Object.keys(commandHandlers ?? {})) {
+      if (!declared.some((command) => command.id === id)) {
+        issues.push(`entry module exports a handler for undeclared command "${id}"`);
+      }
+    }
+  }
+
+  if (issues.length > 0) throw new PluginManifestError(source, issues, manifest.name);
+
+  const { entry: _entry, commands, ...fields } = manifest;
+  return {
+    ...fields,
+    handler: handler ?? (() => ({ success: true })),
+    ...(cleanup && { cleanup }),
+    ...(commands && {
+      commands: commands.map(
+        (command: PluginCommandManifest): PluginCommand => ({
+          ...command,
+          handler: (commandHandlers as Record<string, PluginCommand['handler']>)[command.id],
+        })
+      ),
+    }),
+  };
+}
+
+async function fetchManifest(url: URL): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url.href}: ${response.status} ${response.statusText}`);
+  return response.json();
+}
+
+/**
+ * Read a manifest, import its entry module (resolved against the manifest
+ * URL) and build the plugin. Nothing is registered.
+ */
+export async function loadPluginFromManifest(
+  manifestUrl: string | URL,
+  options: ManifestLoaderOptions = {}
+): Promise<VdomPlugin> {
+  const url = new URL(manifestUrl);
+  const { readManifest = fetchManifest, importModule = (entry) => import(/* @vite-ignore */ entry.href) } = options;
+
+  const manifest = parsePluginManifest(await readManifest(url), url.href);
+  const module = await importModule(new URL(manifest.entry, url));
+  return createPluginFromManifest(manifest, module, url.href);
+}
+
+/**
+ * Load and register plugins from manifest URLs. One plugin failing to load
+ * or register is reported in `failed` and does not stop the others.
+ */
+export async function registerPluginManifests(
+  manager: IPluginManager,
+  manifestUrls: (string | URL)[],
+  options: ManifestLoaderOptions = {}
+): Promise<PluginLoadReport> {
+  const report: PluginLoadReport = { loaded: [], failed: [] };
+  const loads = await Promise.allSettled(manifestUrls.map((url) => loadPluginFromManifest(url, options)));
+
+  loads.forEach((load, index) => {
+    const source = String(manifestUrls[index]);
+    let pluginName: string | undefined;
+    try {
+      if (load.status === 'rejected') throw load.reason;
+      pluginName = load.value.name;
+      manager.register(load.value);
+      report.loaded.push(pluginName);
+    } catch (error) {
+      pluginName ??= error instanceof PluginManifestError ? error.pluginName : undefined;
+      report.failed.push({
+        source,
+        ...(pluginName !== undefined && { pluginName }),
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  });
+
+  return report;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from './metrics';
+
+describe('MetricsRegistry', () => {
+  it('counts per label set regardless of label order', () => {
+    const registry = new MetricsRegistry();
+    const runs = registry.counter('runs_total', 'Runs');
+    runs.inc({ plugin: 'a', outcome: 'success' });
+    runs.inc({ outcome: 'success', plugin: 'a' }, 2);
+    runs.inc({ plugin: 'b', outcome: 'error' });
+
+    expect(runs.get({ plugin: 'a', outcome: 'success' })).toBe(3);
+    expect(runs.get({ plugin: 'c' })).toBe(0);
+    expect(registry.counter('runs_total', 'Runs')).toBe(runs);
+    expect(() => registry.histogram('runs_total', 'Runs')).toThrow('already registered as a counter');
+  });
+
+  it('tracks cumulative buckets and percentiles over recent samples', () => {
+    const registry = new MetricsRegistry({ maxSamples: 100 });
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    for (let i = 1; i <= 200; i++) latency.observe({ plugin: 'a' }, i / 100);
+
+    const series = latency.get({ plugin: 'a' })!;
+    expect(series.count).toBe(200);
+    expect(series.sum).toBeCloseTo(201);
+    expect(series.buckets).toEqual([
+      { le: 0.1, count: 10 },
+      { le: 1, count: 100 },
+      { le: Infinity, count: 200 },
+    ]);
+    // Only the last 100 observations (1.01..2.00) feed the percentiles
+    expect(series.percentiles).toEqual({ p50: 1.5, p90: 1.9, p95: 1.95, p99: 1.99 });
+  });
+
+  it('serializes to Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('runs_total', 'Plugin runs\nby outcome').inc({ plugin: 'say "hi"' }, 2);
+    registry.histogram('latency_seconds', 'Latency', [0.5]).observe({ plugin: 'a' }, 0.25);
+    registry.counter('unused_total', 'Nothing yet');
+
+    expect(registry.toPrometheus()).toBe(
+      [
+        '# HELP runs_total Plugin runs\\nby outcome',
+        '# TYPE runs_total counter',
+        'runs_total{plugin="say \\"hi\\""} 2',
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{plugin="a",le="0.5"} 1',
+        'latency_seconds_bucket{plugin="a",le="+Inf"} 1',
+        'latency_seconds_sum{plugin="a"} 0.25',
+        'latency_seconds_count{plugin="a"} 1',
+        '# HELP unused_total Nothing yet',
+        '# TYPE unused_total counter',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('reset zeroes series but keeps metrics registered', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('runs_total', 'Runs').inc();
+    registry.reset();
+    expect(registry.snapshot()).toEqual([{ name: 'runs_total', help: 'Runs', type: 'counter', series: [] }]);
+  });
+});
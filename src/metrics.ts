@@ -0,0 +1,262 @@
+/**
+ * Counters and histograms keyed by label sets, with snapshots and
+ * Prometheus text exposition. VdomPluginManager records into one of these
+ * (see registerPluginMetrics); hosts can register their own metrics
+ * alongside.
+ */
+
+import type { CounterSeries, HistogramSeries, MetricLabels, MetricSnapshot } from './types';
+
+/** Prometheus' default latency buckets, in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export interface MetricsRegistryOptions {
+  /** Recent observations kept per histogram series for percentiles. Default: 1000 */
+  maxSamples?: number;
+}
+
+const seriesKey = (labels: MetricLabels) =>
+  JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+
+export class Counter {
+  readonly name: string;
+  readonly help: string;
+  private series = new Map<string, CounterSeries>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key);
+    if (series) series.value += value;
+    else this.series.set(key, { labels: { ...labels }, value });
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'counter',
+      series: Array.from(this.series.values(), (s) => ({ labels: { ...s.labels }, value: s.value })),
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+interface HistogramState {
+  labels: MetricLabels;
+  count: number;
+  sum: number;
+  /** Non-cumulative count per bucket, plus one for +Inf */
+  bucketCounts: number[];
+  /** Ring buffer of recent observations */
+  samples: number[];
+  nextSample: number;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export class Histogram {
+  readonly name: string;
+  readonly help: string;
+  /** Upper bounds in ascending order, without +Inf */
+  readonly buckets: number[];
+  private readonly maxSamples: number;
+  private series = new Map<string, HistogramState>();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS, maxSamples = 1000) {
+    this.name = name;
+    this.help = help;
+    this.buckets = [...buckets].sort((a, b) => a - b);
+    this.maxSamples = maxSamples;
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(labels);
+    let state = this.series.get(key);
+    if (!state) {
+      state = {
+        labels: { ...labels },
+        count: 0,
+        sum: 0,
+        bucketCounts: new Array(this.buckets.length + 1).fill(0),
+        samples: [],
+        nextSample: 0,
+      };
+      this.series.set(key, state);
+    }
+
+    state.count++;
+    state.sum += value;
+    const bucket = this.buckets.findIndex((le) => value <= le);
+    state.bucketCounts[bucket === -1 ? this.buckets.length : bucket]++;
+
+    if (state.samples.length < this.maxSamples) {
+      state.samples.push(value);
+    } else {
+      state.samples[state.nextSample] = value;
+      state.nextSample = (state.nextSample + 1) % this.maxSamples;
+    }
+  }
+
+  get(labels: MetricLabels = {}): HistogramSeries | undefined {
+    const state = this.series.get(seriesKey(labels));
+    return state && this.toSeries(state);
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'histogram',
+      series: Array.from(this.series.values(), (state) => this.toSeries(state)),
+    };
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  private toSeries(state: HistogramState): HistogramSeries {
+    let cumulative = 0;
+    const bounds = [...this.buckets, Infinity];
+    const sorted = [...state.samples].sort((a, b) => a - b);
+    return {
+      labels: { ...state.labels },
+      count: state.count,
+      sum: state.sum,
+      buckets: bounds.map((le, i) => ({ le, count: (cumulative += state.bucketCounts[i]) })),
+      percentiles: {
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p95: percentile(sorted, 95),
+        p99: percentile(sorted, 99),
+      },
+    };
+  }
+}
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const escapeHelp = (help: string) => help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+const formatNumber = (value: number) =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+/**
+ * Metrics by name. counter() and histogram() return the existing metric when
+ * the name is already registered with the same type.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Histogram>();
+  private readonly maxSamples: number;
+
+  constructor(options: MetricsRegistryOptions = {}) {
+    this.maxSamples = options.maxSamples ?? 1000;
+  }
+
+  counter(name: string, help: string): Counter {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Counter) return existing;
+    if (existing) throw new Error(`Metric "${name}" is already registered as a histogram`);
+    const counter = new Counter(name, help);
+    this.metrics.set(name, counter);
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Histogram) return existing;
+    if (existing) throw new Error(`Metric "${name}" is already registered as a counter`);
+    const histogram = new Histogram(name, help, buckets, this.maxSamples);
+    this.metrics.set(name, histogram);
+    return histogram;
+  }
+
+  /** Every metric and series, in registration order */
+  snapshot(): MetricSnapshot[] {
+    return Array.from(this.metrics.values(), (metric) => metric.snapshot());
+  }
+
+  /** Zero every series; metrics stay registered */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  /**
+   * Prometheus text exposition format (version 0.0.4), for a /metrics
+   * endpoint. Percentiles are only in snapshot(); Prometheus computes its
+   * own from the buckets.
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+
+    for (const metric of this.snapshot()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`, `# TYPE ${metric.name} ${metric.type}`);
+
+      if (metric.type === 'counter') {
+        for (const series of metric.series) {
+          lines.push(`${metric.name}${formatLabels(series.labels)} ${formatNumber(series.value)}`);
+        }
+        continue;
+      }
+
+      for (const series of metric.series) {
+        for (const bucket of series.buckets) {
+          const labels = formatLabels({ ...series.labels, le: formatNumber(bucket.le) });
+          lines.push(`${metric.name}_bucket${labels} ${bucket.count}`);
+        }
+        lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${formatNumber(series.sum)}`);
+        lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+}
+
+/** The metrics VdomPluginManager records */
+export interface PluginMetrics {
+  /** labels: plugin, outcome */
+  pluginRuns: Counter;
+  /** labels: plugin */
+  pluginCacheHits: Counter;
+  /** labels: plugin; handler runs only, not cache hits */
+  pluginDuration: Histogram;
+  /** labels: plugin, type; array emits count each element */
+  pluginEmittedItems: Counter;
+  /** labels: plugin, command, outcome */
+  commandExecutions: Counter;
+  /** labels: plugin, command */
+  commandDuration: Histogram;
+}
+
+export function registerPluginMetrics(registry: MetricsRegistry): PluginMetrics {
+  return {
+    pluginRuns: registry.counter('vdom_plugin_runs_total', 'Plugin handler runs by outcome'),
+    pluginCacheHits: registry.counter('vdom_plugin_cache_hits_total', 'Plugin runs answered from the result cache'),
+    pluginDuration: registry.histogram('vdom_plugin_run_duration_seconds', 'Plugin handler run time'),
+    pluginEmittedItems: registry.counter('vdom_plugin_emitted_items_total', 'Items emitted by plugins, by emit type'),
+    commandExecutions: registry.counter('vdom_command_executions_total', 'Command executions by outcome'),
+    commandDuration: registry.histogram('vdom_command_duration_seconds', 'Command handler run time'),
+  };
+}
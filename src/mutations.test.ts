@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { MutationQueue, PageState, getMutationEvents } from './mutations';
+import { createMockNode } from './test-helpers';
+import type { MutationBatch } from './types';
+
+describe('MutationQueue', () => {
+  it('returns null when nothing is queued', () => {
+    expect(new MutationQueue().drain('doc-1')).toBeNull();
+  });
+
+  it('collapses repeated updates into one before/after pair', () => {
+    const queue = new MutationQueue();
+    const moved = createMockNode({ bbox: { x1: 5, y1: 5, x2: 15, y2: 15 }, pageNumber: 2 });
+    queue.add({ type: 'updated', node: moved, before: { type: 'text', bbox: { x1: 0, y1: 0, x2: 10, y2: 10 }, pageNumber: 1 } });
+    queue.add({ type: 'updated', node: { ...moved, type: 'table' }, before: { type: 'text', bbox: moved.bbox, pageNumber: 2 } });
+
+    const batch = queue.drain('doc-1')!;
+    expect(batch.updated).toHaveLength(1);
+    expect(batch.updated[0].before).toEqual({ type: 'text', bbox: { x1: 0, y1: 0, x2: 10, y2: 10 }, pageNumber: 1 });
+    expect(batch.updated[0].after).toEqual({ type: 'table', bbox: { x1: 5, y1: 5, x2: 15, y2: 15 }, pageNumber: 2 });
+    expect(batch.pages).toEqual([1, 2]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('drops nodes added and removed within one batch', () => {
+    const queue = new MutationQueue();
+    queue.add({ type: 'added', node: createMockNode() });
+    queue.add({ type: 'updated', node: createMockNode(), before: { type: 'text', bbox: createMockNode().bbox, pageNumber: 1 } });
+    queue.add({ type: 'removed', node: createMockNode() });
+
+    expect(queue.drain('doc-1')).toBeNull();
+  });
+
+  it('numbers batches without spending numbers on empty drains', () => {
+    const queue = new MutationQueue();
+    queue.add({ type: 'added', node: createMockNode({ id: 'a' }) });
+    expect(queue.drain('doc-1')!.sequence).toBe(1);
+
+    queue.add({ type: 'added', node: createMockNode({ id: 'b' }) });
+    queue.add({ type: 'removed', node: createMockNode({ id: 'b' }) });
+    expect(queue.drain('doc-1')).toBeNull();
+
+    queue.add({ type: 'added', node: createMockNode({ id: 'c' }) });
+    expect(queue.drain('doc-1')!.sequence).toBe(2);
+    expect(queue.getSequence('doc-1')).toBe(2);
+    expect(queue.getSequence('doc-2')).toBe(0);
+  });
+
+  it('treats a removed and re-added node as updated', () => {
+    const queue = new MutationQueue();
+    queue.add({ type: 'removed', node: createMockNode() });
+    queue.add({ type: 'added', node: createMockNode({ pageNumber: 3 }) });
+
+    const batch = queue.drain('doc-1')!;
+    expect(batch.added).toEqual([]);
+    expect(batch.removed).toEqual([]);
+    expect(batch.updated[0].before.pageNumber).toBe(1);
+    expect(batch.pages).toEqual([1, 3]);
+  });
+
+  it('maps batch contents to lifecycle events', () => {
+    const queue = new MutationQueue();
+    queue.add({ type: 'added', node: createMockNode({ id: 'a' }) });
+    queue.add({ type: 'removed', node: createMockNode({ id: 'b' }) });
+
+    expect(getMutationEvents(queue.drain('doc-1')!)).toEqual(['nodeAdded', 'nodeRemoved']);
+  });
+});
+
+describe('PageState', () => {
+  const document = { id: 'doc-1', getAllNodes: () => [], getNode: () => undefined, pages: [] };
+  const batch = (sequence: number, pages: number[]): MutationBatch => ({
+    added: [],
+    removed: [],
+    updated: [],
+    pages,
+    sequence,
+  });
+
+  it('recomputes everything on runs without mutations', () => {
+    const state = new PageState<string>();
+    expect(state.getStalePages({ document, config: {}, mutationSequence: 0 }, [1, 2])).toEqual([1, 2]);
+    state.set('doc-1', 1, 'one');
+    state.set('doc-1', 2, 'two');
+
+    expect(state.getStalePages({ document, config: {}, mutationSequence: 0 }, [1, 2])).toEqual([1, 2]);
+  });
+
+  it('only marks touched and new pages stale on mutation runs', () => {
+    const state = new PageState<string>();
+    state.getStalePages({ document, config: {}, mutationSequence: 0 }, [1, 2, 3]);
+    state.set('doc-1', 1, 'one');
+    state.set('doc-1', 2, 'two');
+    state.set('doc-1', 3, 'three');
+
+    const mutationRun = { document, config: {}, mutationSequence: 1, mutations: batch(1, [2]) };
+    expect(state.getStalePages(mutationRun, [1, 2, 4])).toEqual([2, 4]);
+    expect(state.get('doc-1', [1, 2, 3, 4])).toEqual(['one']);
+  });
+
+  it('starts over when the config changes', () => {
+    const state = new PageState<string>();
+    state.getStalePages({ document, config: { threshold: 1 }, mutationSequence: 0 }, [1]);
+    state.set('doc-1', 1, 'one');
+
+    expect(
+      state.getStalePages({ document, config: { threshold: 2 }, mutationSequence: 1, mutations: batch(1, []) }, [1])
+    ).toEqual([1]);
+  });
+
+  it('starts over after missing a batch', () => {
+    const state = new PageState<string>();
+    state.getStalePages({ document, config: {}, mutationSequence: 3 }, [1, 2]);
+    state.set('doc-1', 1, 'one');
+    state.set('doc-1', 2, 'two');
+    const mutationRun = (sequence: number) => ({ document, config: {}, mutationSequence: sequence, mutations: batch(sequence, [1]) });
+    expect(state.getStalePages(mutationRun(4), [1, 2])).toEqual([1]);
+    state.set('doc-1', 1, 'one');
+
+    // Batch 5 went by without this plugin running, so page 2 may be stale
+    expect(state.getStalePages(mutationRun(6), [1, 2])).toEqual([1, 2]);
+  });
+});
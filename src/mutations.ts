@@ -0,0 +1,185 @@
+/**
+ * Node mutation batching.
+ *
+ * The manager collects host edits in a MutationQueue and delivers them to
+ * plugins as one MutationBatch per debounce window. PageState helps plugins
+ * recompute only the pages a batch touched.
+ */
+
+import type {
+  MutationBatch,
+  NodeMutation,
+  NodeSnapshot,
+  PluginContext,
+  VdomLifecycleEvent,
+  VdomNode,
+} from './types';
+import { stableStringify } from './cache';
+
+export function snapshotNode(node: VdomNode): NodeSnapshot {
+  return { type: node.type, bbox: { ...node.bbox }, pageNumber: node.pageNumber };
+}
+
+/** Lifecycle event each mutation type is delivered on */
+export const MUTATION_EVENTS: Record<NodeMutation['type'], VdomLifecycleEvent> = {
+  added: 'nodeAdded',
+  removed: 'nodeRemoved',
+  updated: 'nodeUpdated',
+};
+
+interface PendingMutation {
+  type: NodeMutation['type'];
+  node: VdomNode;
+  /** State before the first mutation in the batch; unset for added nodes */
+  before?: NodeSnapshot;
+}
+
+/**
+ * Pending mutations keyed by node id. Repeated edits to one node collapse
+ * into a single entry that compares the state before the batch with the
+ * node's latest state.
+ */
+export class MutationQueue {
+  private entries = new Map<string, PendingMutation>();
+  /** Last batch sequence per document */
+  private sequences = new Map<string, number>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Sequence of the document's last drained batch; 0 before the first */
+  getSequence(documentId: string): number {
+    return this.sequences.get(documentId) ?? 0;
+  }
+
+  add(mutation: NodeMutation): void {
+    const { id } = mutation.node;
+    const pending = this.entries.get(id);
+
+    if (!pending) {
+      this.entries.set(id, {
+        type: mutation.type,
+        node: mutation.node,
+        before:
+          mutation.type === 'updated' ? mutation.before
+          : mutation.type === 'removed' ? snapshotNode(mutation.node)
+          : undefined,
+      });
+      return;
+    }
+
+    if (mutation.type === 'removed') {
+      // Added and removed within one batch: nothing happened
+      if (pending.type === 'added') this.entries.delete(id);
+      else this.entries.set(id, { type: 'removed', node: mutation.node, before: pending.before });
+      return;
+    }
+
+    // A node removed and re-added within one batch was updated in place
+    const type = pending.type === 'added' ? 'added' : 'updated';
+    this.entries.set(id, { type, node: mutation.node, before: pending.before });
+  }
+
+  /**
+   * Take everything queued so far as the next batch of `documentId`, or
+   * null if nothing is queued
+   */
+  drain(documentId: string): MutationBatch | null {
+    if (this.entries.size === 0) return null;
+
+    const batch: MutationBatch = { added: [], removed: [], updated: [], pages: [], sequence: 0 };
+    const pages = new Set<number>();
+
+    for (const { type, node, before } of this.entries.values()) {
+      if (before) pages.add(before.pageNumber);
+      if (type === 'added') {
+        batch.added.push(node);
+        pages.add(node.pageNumber);
+      } else if (type === 'removed') {
+        batch.removed.push(node);
+      } else {
+        batch.updated.push({ node, before: before!, after: snapshotNode(node) });
+        pages.add(node.pageNumber);
+      }
+    }
+
+    this.entries.clear();
+    batch.pages = [...pages].sort((a, b) => a - b);
+    batch.sequence = this.getSequence(documentId) + 1;
+    this.sequences.set(documentId, batch.sequence);
+    return batch;
+  }
+}
+
+/** Lifecycle events a batch is delivered on, in MUTATION_EVENTS order */
+export function getMutationEvents(batch: MutationBatch): VdomLifecycleEvent[] {
+  const events: VdomLifecycleEvent[] = [];
+  if (batch.added.length > 0) events.push(MUTATION_EVENTS.added);
+  if (batch.removed.length > 0) events.push(MUTATION_EVENTS.removed);
+  if (batch.updated.length > 0) events.push(MUTATION_EVENTS.updated);
+  return events;
+}
+
+interface DocumentPages<T> {
+  configKey: string;
+  pages: Map<number, T>;
+  /** Mutation sequence the stored pages reflect */
+  sequence: number;
+}
+
+/**
+ * Per-document, per-page results for plugins that recompute incrementally.
+ * On a mutation run only the pages in ctx.mutations (and pages not seen
+ * before) are stale; any other run, a config change, or a batch that does
+ * not directly follow the last one seen starts over. Keep it in ctx.state,
+ * not at module level: sequences are per manager.
+ */
+export class PageState<T> {
+  private documents = new Map<string, DocumentPages<T>>();
+
+  /**
+   * Pages of `pageNumbers` that must be recomputed. Pages the document no
+   * longer has are dropped.
+   */
+  getStalePages(
+    ctx: Pick<PluginContext<unknown>, 'document' | 'config' | 'mutations' | 'mutationSequence'>,
+    pageNumbers: number[]
+  ): number[] {
+    const configKey = stableStringify(ctx.config);
+    const { mutations } = ctx;
+    let state = this.documents.get(ctx.document.id);
+    if (!state || state.configKey !== configKey || !mutations || mutations.sequence !== state.sequence + 1) {
+      state = { configKey, pages: new Map(), sequence: 0 };
+      this.documents.set(ctx.document.id, state);
+    }
+    state.sequence = mutations?.sequence ?? ctx.mutationSequence;
+
+    const current = new Set(pageNumbers);
+    for (const page of state.pages.keys()) {
+      if (!current.has(page)) state.pages.delete(page);
+    }
+    for (const page of ctx.mutations?.pages ?? []) {
+      state.pages.delete(page);
+    }
+
+    const { pages } = state;
+    return pageNumbers.filter((page) => !pages.has(page));
+  }
+
+  set(documentId: string, pageNumber: number, value: T): void {
+    this.documents.get(documentId)?.pages.set(pageNumber, value);
+  }
+
+  /** Stored values for `pageNumbers`, in that order */
+  get(documentId: string, pageNumbers: number[]): T[] {
+    const pages = this.documents.get(documentId)?.pages;
+    if (!pages) return [];
+    return pageNumbers.filter((page) => pages.has(page)).map((page) => pages.get(page)!);
+  }
+
+  clear(documentId?: string): void {
+    if (documentId === undefined) this.documents.clear();
+    else this.documents.delete(documentId);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Enforcement of manifest permissions: ctx.fetch checks the request origin
+ * against the granted network origins, ctx.writeClipboard the clipboard
+ * grant.
+ */
+
+import type { PluginCapability, PluginFetch, PluginPermissions } from './types';
+import { PluginPermissionError } from './errors';
+
+/**
+ * Origin of a request, or 'self' for relative URLs and the page's own
+ * origin.
+ */
+export function getRequestOrigin(input: RequestInfo | URL): string {
+  const raw = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const base = (globalThis as { location?: { href: string } }).location?.href;
+
+  try {
+    const url = new URL(raw, base);
+    if (base && url.origin === new URL(base).origin) return 'self';
+    return url.origin;
+  } catch {
+    // Relative URL with no page to resolve against
+    return 'self';
+  }
+}
+
+function matchesOrigin(pattern: string, origin: string): boolean {
+  if (pattern === '*' || pattern === origin) return true;
+
+  const wildcard = pattern.match(/^([a-z]+:\/\/)\*\.(.+)$/i);
+  if (!wildcard || origin === 'self') return false;
+  const [, scheme, domain] = wildcard;
+  return origin.startsWith(scheme) && origin.endsWith(`.${domain}`);
+}
+
+export function isOriginGranted(origin: string, granted: PluginPermissions): boolean {
+  return (granted.network ?? []).some((pattern) => matchesOrigin(pattern, origin));
+}
+
+/**
+ * What a policy withheld: requested network patterns missing from the
+ * grant (unless it grants '*'), and requested flags it did not set. Empty
+ * when everything was granted.
+ */
+export function getWithheldPermissions(
+  requested: PluginPermissions,
+  granted: PluginPermissions
+): PluginPermissions {
+  const withheld: PluginPermissions = {};
+  const grantedNetwork = granted.network ?? [];
+  const network = grantedNetwork.includes('*')
+    ? []
+    : (requested.network ?? []).filter((pattern) => !grantedNetwork.includes(pattern));
+  if (network.length > 0) withheld.network = network;
+  if (requested.clipboard && !granted.clipboard) withheld.clipboard = true;
+  if (requested.mutation && !granted.mutation) withheld.mutation = true;
+  return withheld;
+}
+
+export interface PermissionGate {
+  pluginName: string;
+  commandId?: string;
+  granted: PluginPermissions;
+  /** Called before the PluginPermissionError is thrown */
+  onDenied(capability: PluginCapability, detail?: string): void;
+}
+
+export function denyPermission(gate: PermissionGate, capability: PluginCapability, detail?: string): PluginPermissionError {
+  gate.onDenied(capability, detail);
+  return new PluginPermissionError(gate.pluginName, capability, detail, gate.commandId);
+}
+
+/**
+ * ctx.fetch: rejects with PluginPermissionError for origins not granted.
+ */
+export function createGatedFetch(gate: PermissionGate, fetchImpl: PluginFetch): PluginFetch {
+  return async (input, init) => {
+    const origin = getRequestOrigin(input);
+    if (!isOriginGranted(origin, gate.granted)) {
+      throw denyPermission(gate, 'network', origin);
+    }
+    return fetchImpl(input, init);
+  };
+}
+
+/**
+ * ctx.writeClipboard: rejects with PluginPermissionError without the
+ * clipboard grant.
+ */
+export function createClipboardWriter(
+  gate: PermissionGate,
+  clipboard: { writeText(text: string): Promise<void> } | undefined
+): (text: string) => Promise<void> {
+  return async (text) => {
+    if (!gate.granted.clipboard) throw denyPermission(gate, 'clipboard');
+    if (!clipboard) throw new Error('Clipboard is not available');
+    await clipboard.writeText(text);
+  };
+}
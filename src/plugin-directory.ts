@@ -0,0 +1,56 @@
+/**
+ * Node-only loading of manifest plugins from a local directory. Kept out of
+ * the main entry point so browser bundles never pull in `node:fs`.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { IPluginManager, PluginLoadReport } from './types';
+import { type ManifestLoaderOptions, registerPluginManifests } from './manifest';
+
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * file: URLs of `<dir>/<plugin>/manifest.json`, sorted by plugin directory
+ * name. Subdirectories without a manifest are skipped.
+ */
+export async function findPluginManifests(dir: string): Promise<URL[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const manifests: URL[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory()) continue;
+    const path = join(dir, entry.name, MANIFEST_FILE);
+    try {
+      if ((await stat(path)).isFile()) manifests.push(pathToFileURL(path));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  return manifests;
+}
+
+async function readManifestFile(url: URL): Promise<unknown> {
+  return JSON.parse(await readFile(fileURLToPath(url), 'utf8'));
+}
+
+/**
+ * Load and register every plugin in `dir`. Plugins that fail to load or
+ * register are listed in the report's `failed` entries with their manifest
+ * path; the rest are registered.
+ */
+export async function loadPluginDirectory(
+  manager: IPluginManager,
+  dir: string,
+  options: ManifestLoaderOptions = {}
+): Promise<PluginLoadReport> {
+  const manifests = await findPluginManifests(dir);
+  const report = await registerPluginManifests(manager, manifests, { readManifest: readManifestFile, ...options });
+
+  return {
+    ...report,
+    failed: report.failed.map((failure) => ({ ...failure, source: fileURLToPath(failure.source) })),
+  };
+}
@@ -24,11 +24,14 @@ import type {
   ViewControlSchema,
   VdomNode,
   BBox,
+  LogFunction,
 } from '../../types';
+import { PageState } from '../../mutations';
 
 import type {
   CoordTableDetectorConfig,
   CoordTableDetectorStats,
+  CoordTableDetectorExports,
   DetectedTable,
   RowCluster,
   ClusterBlock,
@@ -38,6 +41,7 @@ import type {
 export type {
   CoordTableDetectorConfig,
   CoordTableDetectorStats,
+  CoordTableDetectorExports,
   DetectedTable,
 };
 
@@ -397,7 +401,7 @@ function detectTablesOnPage(
   blocks: ClusterBlock[],
   pageNumber: number,
   config: CoordTableDetectorConfig,
-  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void
+  log: LogFunction
 ): DetectedTable[] {
   const tables: DetectedTable[] = [];
 
@@ -463,20 +467,14 @@ function detectTablesOnPage(
 // Plugin Handler
 // =============================================================================
 
+/** Max time spent detecting before yielding to the event loop */
+const YIELD_INTERVAL_MS = 50;
+
 async function coordTableDetectorHandler(
   ctx: PluginContext<CoordTableDetectorConfig>
-): Promise<PluginResult> {
+): Promise<PluginResult<CoordTableDetectorExports>> {
   const startTime = performance.now();
-  const config: CoordTableDetectorConfig = {
-    rowTolerance: ctx.config.rowTolerance ?? 15,
-    columnTolerance: ctx.config.columnTolerance ?? 20,
-    minColumns: ctx.config.minColumns ?? 2,
-    minRows: ctx.config.minRows ?? 2,
-    confidenceThreshold: ctx.config.confidenceThreshold ?? 0.7,
-    showOverlays: ctx.config.showOverlays ?? true,
-    overlayBorderStyle: ctx.config.overlayBorderStyle ?? '2px solid #3b82f6',
-    debug: ctx.config.debug ?? false,
-  };
+  const config = ctx.config;
 
   ctx.log('info', `Running coord-table-detector with config: ${JSON.stringify(config)}`);
 
@@ -485,17 +483,13 @@ async function coordTableDetectorHandler(
 
   if (ocrBlocks.length === 0) {
     ctx.log('info', 'No OCR blocks found, skipping table detection');
-    return {
-      success: true,
-      data: {
-        stats: {
-          totalBlocks: 0,
-          tablesDetected: 0,
-          blocksInTables: 0,
-          latencyMs: performance.now() - startTime,
-        },
-      },
-    };
+    ctx.emit('stats', {
+      totalBlocks: 0,
+      tablesDetected: 0,
+      blocksInTables: 0,
+      latencyMs: performance.now() - startTime,
+    });
+    return { success: true, exports: { tables: [] } };
   }
 
   // Group blocks by page
@@ -518,19 +512,31 @@ async function coordTableDetectorHandler(
     blocksByPage.set(block.pageNumber, pageBlocks);
   }
 
-  // Detect tables on each page
-  const allTables: DetectedTable[] = [];
+  // Detect tables on each stale page, yielding periodically so a timeout
+  // or cancel() can interrupt long documents
+  const pageNumbers = [...blocksByPage.keys()].sort((a, b) => a - b);
+  // Tables per page from earlier runs; mutation runs only redo touched pages
+  const pageState = (ctx.state.pageState ??= new PageState<DetectedTable[]>()) as PageState<DetectedTable[]>;
+  const stalePages = pageState.getStalePages(ctx, pageNumbers);
+  let lastYield = performance.now();
+
+  for (const pageNumber of stalePages) {
+    if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      lastYield = performance.now();
+    }
+    ctx.signal.throwIfAborted();
 
-  for (const [pageNumber, blocks] of blocksByPage) {
-    const pageTables = detectTablesOnPage(blocks, pageNumber, config, ctx.log);
-    allTables.push(...pageTables);
+    const pageTables = detectTablesOnPage(blocksByPage.get(pageNumber)!, pageNumber, config, ctx.log);
+    pageState.set(ctx.document.id, pageNumber, pageTables);
   }
 
+  const allTables = pageState.get(ctx.document.id, pageNumbers).flat();
   const latencyMs = performance.now() - startTime;
 
   ctx.log(
     'info',
-    `Detected ${allTables.length} tables in ${latencyMs.toFixed(1)}ms`
+    `Detected ${allTables.length} tables in ${latencyMs.toFixed(1)}ms (recomputed ${stalePages.length} of ${pageNumbers.length} pages)`
   );
 
   // Emit overlays
@@ -576,33 +582,23 @@ async function coordTableDetectorHandler(
 
   ctx.emit('stats', stats as unknown as Record<string, string | number>);
 
-  return {
-    success: true,
-    data: {
-      stats: stats as unknown as Record<string, string | number>,
-      overlays: config.showOverlays
-        ? allTables.map((t) => ({
-            id: `coord-table-overlay-${t.id}`,
-            type: 'table-detected',
-            bbox: t.bbox,
-            page: t.pageNumber,
-            style: { border: config.overlayBorderStyle },
-          }))
-        : [],
-    },
-  };
+  return { success: true, exports: { tables: allTables } };
 }
 
 // =============================================================================
 // Plugin Export
 // =============================================================================
 
-export const coordTableDetectorPlugin: VdomPlugin<CoordTableDetectorConfig> = {
+export const coordTableDetectorPlugin: VdomPlugin<
+  CoordTableDetectorConfig,
+  CoordTableDetectorExports
+> = {
   name: 'coord-table-detector',
   description:
     'Detect tables via OCR block coordinate analysis (54x faster than VLM)',
   version: '1.0.0',
-  runsOn: ['interactive'],
+  apiVersion: '1.0',
+  runsOn: ['interactive', 'nodeAdded', 'nodeRemoved', 'nodeUpdated'],
   defaultEnabled: false, // Opt-in for now, experimental
   configSchema: coordTableDetectorConfigSchema,
   viewControls: coordTableDetectorViewControls,
@@ -120,3 +120,12 @@ export interface CoordTableDetectorStats {
   /** Average confidence of detected tables */
   avgConfidence: number;
 }
+
+/**
+ * Published via PluginResult.exports for plugins that depend on
+ * coord-table-detector: `ctx.getResult<CoordTableDetectorExports>('coord-table-detector')`.
+ */
+export interface CoordTableDetectorExports {
+  /** Detected tables including their row/column grids */
+  tables: DetectedTable[];
+}
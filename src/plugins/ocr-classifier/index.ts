@@ -38,6 +38,7 @@ const markAsParagraphCommand: PluginCommand<OcrClassifierConfig> = {
   title: 'Mark as Paragraph',
   contexts: ['ocr-block'],
   outputFormat: 'json',
+  mutatesDocument: true,
   icon: 'align-left',
   async handler(ctx: CommandContext<OcrClassifierConfig>): Promise<CommandResult> {
     const payload = createEntityPayload(ctx, 'paragraph');
@@ -55,6 +56,7 @@ const markAsHeadingCommand: PluginCommand<OcrClassifierConfig> = {
   title: 'Mark as Heading',
   contexts: ['ocr-block'],
   outputFormat: 'json',
+  mutatesDocument: true,
   icon: 'heading',
   async handler(ctx: CommandContext<OcrClassifierConfig>): Promise<CommandResult> {
     const payload = createEntityPayload(ctx, 'heading', { level: 1 });
@@ -72,6 +74,7 @@ const markAsListCommand: PluginCommand<OcrClassifierConfig> = {
   title: 'Mark as List Item',
   contexts: ['ocr-block'],
   outputFormat: 'json',
+  mutatesDocument: true,
   icon: 'list',
   async handler(ctx: CommandContext<OcrClassifierConfig>): Promise<CommandResult> {
     const payload = createEntityPayload(ctx, 'list');
@@ -89,6 +92,7 @@ const markAsHeaderCommand: PluginCommand<OcrClassifierConfig> = {
   title: 'Mark as Page Header',
   contexts: ['ocr-block'],
   outputFormat: 'json',
+  mutatesDocument: true,
   icon: 'panel-top',
   async handler(ctx: CommandContext<OcrClassifierConfig>): Promise<CommandResult> {
     const payload = createEntityPayload(ctx, 'header');
@@ -105,8 +109,10 @@ export const ocrClassifierPlugin: VdomPlugin<OcrClassifierConfig> = {
   name: 'ocr-classifier',
   description: 'Classify OCR blocks as semantic entities (paragraph, heading, list)',
   version: '1.0.0',
+  apiVersion: '1.0',
   runsOn: [],
   defaultEnabled: true,
+  permissions: { mutation: true },
   configSchema: ocrClassifierConfigSchema,
   commands: [
     markAsParagraphCommand,
@@ -6,8 +6,10 @@ import type {
   EntityOverlay,
   NodeBadge,
   ViewControlSchema,
+  VdomNode,
 } from '../../types';
 import { overlapRatio } from '../../utils';
+import { PageState } from '../../mutations';
 
 export { overlapRatio };
 
@@ -84,15 +86,30 @@ export const orphanDetectorViewControls: ViewControlSchema[] = [
   },
 ];
 
+interface PageOrphans {
+  ocrBlocks: number;
+  orphans: VdomNode[];
+}
+
+function groupByPage(nodes: VdomNode[]): Map<number, VdomNode[]> {
+  const byPage = new Map<number, VdomNode[]>();
+  for (const node of nodes) {
+    const pageNodes = byPage.get(node.pageNumber) || [];
+    pageNodes.push(node);
+    byPage.set(node.pageNumber, pageNodes);
+  }
+  return byPage;
+}
+
 async function orphanDetectorHandler(
   ctx: PluginContext<OrphanDetectorConfig>
 ): Promise<PluginResult> {
   const {
-    coverageThreshold = 0.5,
-    showOverlays = true,
-    showBadges = true,
-    overlayBorderStyle = '2px dashed #f59e0b',
-    badgeColor = 'orange',
+    coverageThreshold,
+    showOverlays,
+    showBadges,
+    overlayBorderStyle,
+    badgeColor,
   } = ctx.config;
 
   ctx.log('debug', `Running orphan detector with threshold: ${coverageThreshold}`);
@@ -102,18 +119,39 @@ async function orphanDetectorHandler(
 
   ctx.log('info', `Found ${ocrBlocks.length} OCR blocks and ${semanticEntities.length} entities`);
 
-  const orphans = ocrBlocks.filter((block) => {
-    if (!block.bbox) return true;
+  const blocksByPage = groupByPage(ocrBlocks);
+  const entitiesByPage = groupByPage(semanticEntities);
+  const pageNumbers = [...blocksByPage.keys()].sort((a, b) => a - b);
+  // Last result per page, so mutation runs only revisit touched pages
+  const pageState = (ctx.state.pageState ??= new PageState<PageOrphans>()) as PageState<PageOrphans>;
+  const stalePages = pageState.getStalePages(ctx, pageNumbers);
+
+  for (const pageNumber of stalePages) {
+    const blocks = blocksByPage.get(pageNumber)!;
+    const entities = entitiesByPage.get(pageNumber) || [];
 
-    const isCovered = semanticEntities.some((entity) => {
-      if (!entity.bbox) return false;
-      return overlapRatio(block.bbox, entity.bbox) >= coverageThreshold;
+    const pageOrphans = blocks.filter((block) => {
+      if (!block.bbox) return true;
+
+      const isCovered = entities.some((entity) => {
+        if (!entity.bbox) return false;
+        return overlapRatio(block.bbox, entity.bbox) >= coverageThreshold;
+      });
+
+      return !isCovered;
     });
 
-    return !isCovered;
-  });
+    pageState.set(ctx.document.id, pageNumber, { ocrBlocks: blocks.length, orphans: pageOrphans });
+  }
+
+  const orphans = pageState
+    .get(ctx.document.id, pageNumbers)
+    .flatMap((page) => page.orphans);
 
-  ctx.log('info', `Detected ${orphans.length} orphan blocks`);
+  ctx.log(
+    'info',
+    `Detected ${orphans.length} orphan blocks (recomputed ${stalePages.length} of ${pageNumbers.length} pages)`
+  );
 
   const pagesWithOrphans = [...new Set(orphans.map((o) => o.pageNumber))].sort((a, b) => a - b);
 
@@ -162,31 +200,15 @@ async function orphanDetectorHandler(
 
   ctx.emit('stats', stats as unknown as Record<string, string | number>);
 
-  return {
-    success: true,
-    data: {
-      stats: stats as unknown as Record<string, string | number>,
-      overlays: showOverlays ? orphans.filter((b) => b.bbox).map((b) => ({
-        id: `orphan-overlay-${b.id}`,
-        type: 'orphan',
-        bbox: b.bbox!,
-        page: b.pageNumber,
-        style: { border: overlayBorderStyle },
-      })) : [],
-      badges: showBadges ? orphans.map((b) => ({
-        nodeId: b.id,
-        text: 'ORPHAN',
-        color: badgeColor,
-      })) : [],
-    },
-  };
+  return { success: true };
 }
 
 export const orphanDetectorPlugin: VdomPlugin<OrphanDetectorConfig> = {
   name: 'orphan-detector',
   description: 'Detect OCR blocks not covered by semantic entities',
   version: '1.0.0',
-  runsOn: ['interactive'],
+  apiVersion: '1.0',
+  runsOn: ['interactive', 'nodeAdded', 'nodeRemoved', 'nodeUpdated'],
   defaultEnabled: true,
   configSchema: orphanDetectorConfigSchema,
   viewControls: orphanDetectorViewControls,
@@ -1,10 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { qwenMarkdownPlugin, type QwenMarkdownConfig } from './index';
 import type { CommandContext, VdomNode } from '../../types';
+import { noopTrace } from '../../tracing';
+import { collectCommandResult } from '../../command-stream';
 
-// Mock global fetch
+// Stands in for ctx.fetch
 const mockFetch = vi.fn();
-global.fetch = mockFetch;
 
 function createMockNode(overrides: Partial<VdomNode> = {}): VdomNode {
   return {
@@ -29,8 +30,13 @@ function createMockContext(overrides: Partial<CommandContext<QwenMarkdownConfig>
       model: 'qwen/qwen3-vl-235b-a22b-instruct',
       promptStyle: 'table',
       apiEndpoint: '/api/transform/entity-to-markdown',
+      stream: false,
     },
     log: vi.fn(),
+    signal: new AbortController().signal,
+    fetch: mockFetch,
+    writeClipboard: vi.fn(),
+    trace: noopTrace,
     ...overrides,
   };
 }
@@ -71,7 +77,7 @@ describe('qwenMarkdownPlugin', () => {
 
     it('returns error when no imageUrl provided', async () => {
       const ctx = createMockContext({ imageUrl: undefined });
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('No image URL provided');
@@ -95,10 +101,11 @@ describe('qwenMarkdownPlugin', () => {
           model: 'qwen/qwen3-vl-235b-a22b-instruct',
           promptStyle: 'table',
           apiEndpoint: '/api/transform/entity-to-markdown',
+          stream: false,
         },
       });
 
-      await getCommand().handler(ctx);
+      await collectCommandResult(getCommand().handler(ctx));
 
       expect(mockFetch).toHaveBeenCalledWith('/api/transform/entity-to-markdown', {
         method: 'POST',
@@ -109,6 +116,7 @@ describe('qwenMarkdownPlugin', () => {
           promptStyle: 'table',
           entityType: 'table',
         }),
+        signal: ctx.signal,
       });
     });
 
@@ -125,7 +133,7 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.success).toBe(true);
       expect(result.content).toBe(markdownContent);
@@ -144,10 +152,26 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('API error: 500 - Internal server error');
+      expect(result.retryable).toBeUndefined();
+    });
+
+    it('marks rate limiting and overload as retryable', async () => {
+      for (const status of [429, 503]) {
+        mockFetch.mockResolvedValueOnce({
+          ok: false,
+          status,
+          text: () => Promise.resolve('Slow down'),
+        });
+
+        const result = await collectCommandResult(getCommand().handler(createMockContext()));
+
+        expect(result).toEqual({ success: false, error: `API error: ${status} - Slow down`, retryable: true });
+      }
+      expect(getCommand().retry).toMatchObject({ maxAttempts: 4 });
     });
 
     it('handles API returning success: false', async () => {
@@ -160,7 +184,7 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('File not found: gs://okrapdf/test.pdf');
@@ -170,7 +194,7 @@ describe('qwenMarkdownPlugin', () => {
       mockFetch.mockRejectedValueOnce(new Error('Network timeout'));
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Network timeout');
@@ -180,7 +204,7 @@ describe('qwenMarkdownPlugin', () => {
       mockFetch.mockRejectedValueOnce('string error');
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Network error');
@@ -200,7 +224,7 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      await getCommand().handler(ctx);
+      await collectCommandResult(getCommand().handler(ctx));
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.any(String),
@@ -220,7 +244,7 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.format).toBe('markdown');
     });
@@ -239,7 +263,7 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      await getCommand().handler(ctx);
+      await collectCommandResult(getCommand().handler(ctx));
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.any(String),
@@ -259,7 +283,7 @@ describe('qwenMarkdownPlugin', () => {
       });
 
       const ctx = createMockContext();
-      const result = await getCommand().handler(ctx);
+      const result = await collectCommandResult(getCommand().handler(ctx));
 
       expect(result.format).toBe('json');
     });
@@ -297,7 +321,7 @@ describe('entity type to promptStyle mapping', () => {
       entity: createMockNode({ type: 'table' }),
     });
     const cmd = qwenMarkdownPlugin.commands!.find(c => c.id === 'extract-markdown')!;
-    await cmd.handler(ctx);
+    await collectCommandResult(cmd.handler(ctx));
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.any(String),
@@ -318,7 +342,7 @@ describe('entity type to promptStyle mapping', () => {
       entity: createMockNode({ type: 'figure' }),
     });
     const cmd = qwenMarkdownPlugin.commands!.find(c => c.id === 'extract-markdown')!;
-    await cmd.handler(ctx);
+    await collectCommandResult(cmd.handler(ctx));
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.any(String),
@@ -339,7 +363,7 @@ describe('entity type to promptStyle mapping', () => {
       entity: createMockNode({ type: 'ocr-block' }),
     });
     const cmd = qwenMarkdownPlugin.commands!.find(c => c.id === 'extract-markdown')!;
-    await cmd.handler(ctx);
+    await collectCommandResult(cmd.handler(ctx));
 
     expect(mockFetch).toHaveBeenCalledWith(
       expect.any(String),
@@ -350,6 +374,84 @@ describe('entity type to promptStyle mapping', () => {
   });
 });
 
+describe('qwenMarkdownPlugin streaming', () => {
+  const streamConfig: QwenMarkdownConfig = {
+    model: 'qwen/qwen3-vl-235b-a22b-instruct',
+    promptStyle: 'table',
+    apiEndpoint: '/api/transform/entity-to-markdown',
+    stream: true,
+  };
+  const getCommand = () => qwenMarkdownPlugin.commands!.find((c) => c.id === 'extract-markdown')!;
+
+  // Splits the body across reads to exercise line buffering
+  function streamingResponse(body: string, contentType: string): Response {
+    const bytes = new TextEncoder().encode(body);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 17));
+        controller.enqueue(bytes.slice(17));
+        controller.close();
+      },
+    });
+    return new Response(stream, { headers: { 'Content-Type': contentType } });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('streams server-sent event deltas as chunks', async () => {
+    mockFetch.mockResolvedValueOnce(
+      streamingResponse(
+        'data: {"delta":"| A |"}\n\n: keep-alive\n\nevent: message\ndata: {"delta":"\\n| 1 |","model":"m"}\n\ndata: [DONE]\n\n',
+        'text/event-stream'
+      )
+    );
+    const chunks: string[] = [];
+
+    const result = await collectCommandResult(getCommand().handler(createMockContext({ config: streamConfig })), {
+      onChunk: (chunk) => chunks.push(chunk),
+    });
+
+    expect(chunks).toEqual(['| A |', '\n| 1 |']);
+    expect(result).toEqual({
+      success: true,
+      content: '| A |\n| 1 |',
+      format: 'markdown',
+      metadata: { model: 'm' },
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      '/api/transform/entity-to-markdown',
+      expect.objectContaining({
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream, application/x-ndjson' },
+        body: expect.stringContaining('"stream":true'),
+      })
+    );
+  });
+
+  it('streams NDJSON and reports errors sent mid-stream', async () => {
+    mockFetch.mockResolvedValueOnce(
+      streamingResponse('{"delta":"partial"}\n{"error":"model overloaded"}\n', 'application/x-ndjson')
+    );
+
+    const result = await collectCommandResult(getCommand().handler(createMockContext({ config: streamConfig })));
+
+    expect(result).toEqual({ success: false, content: 'partial', error: 'model overloaded' });
+  });
+
+  it('falls back to a single chunk when the endpoint answers with plain JSON', async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify({ success: true, markdown: '# Page' }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    const result = await collectCommandResult(getCommand().handler(createMockContext({ config: streamConfig })));
+
+    expect(result).toMatchObject({ success: true, content: '# Page', format: 'markdown' });
+  });
+});
+
 describe('transform API gs:// URL handling (integration)', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -372,7 +474,7 @@ describe('transform API gs:// URL handling (integration)', () => {
     });
 
     const cmd = qwenMarkdownPlugin.commands!.find(c => c.id === 'extract-markdown')!;
-    await cmd.handler(ctx);
+    await collectCommandResult(cmd.handler(ctx));
 
     // Plugin sends the URL as-is - API is responsible for conversion
     expect(mockFetch).toHaveBeenCalledWith(
@@ -398,7 +500,7 @@ describe('transform API gs:// URL handling (integration)', () => {
     });
 
     const cmd = qwenMarkdownPlugin.commands!.find(c => c.id === 'extract-markdown')!;
-    const result = await cmd.handler(ctx);
+    const result = await collectCommandResult(cmd.handler(ctx));
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('File not found');
@@ -3,55 +3,136 @@ import type {
   PluginCommand,
   CommandContext,
   CommandResult,
+  CommandOutput,
+  CommandRetryPolicy,
   EntityType,
 } from '../../types';
 import { type QwenMarkdownConfig, qwenMarkdownConfigSchema } from './types';
+import { getStreamFormat, readStreamMessages } from './stream';
 
 export { qwenMarkdownConfigSchema };
 export type { QwenMarkdownConfig };
 
+/** Rate limiting and overload from the transform API are usually brief */
+const TRANSIENT_STATUSES = new Set([429, 503]);
+
+const transientRetry: CommandRetryPolicy = { maxAttempts: 4, initialDelayMs: 1000 };
+
+type PromptStyle = 'table' | 'page' | 'json';
+
+/** A message of a streaming response; `delta` is the next piece of markdown */
+interface TransformStreamMessage {
+  delta?: string;
+  error?: string;
+  model?: string;
+  tokens?: unknown;
+}
+
+function requestTransform(
+  ctx: CommandContext<QwenMarkdownConfig>,
+  promptStyle: PromptStyle,
+  stream: boolean
+): Promise<Response> {
+  const { imageUrl, config } = ctx;
+  const entityType: EntityType | string = ctx.entity.type;
+  return ctx.fetch(config.apiEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(stream && { Accept: 'text/event-stream, application/x-ndjson' }),
+    },
+    body: JSON.stringify({
+      imageUrl,
+      model: config.model,
+      promptStyle,
+      entityType,
+      ...(stream && { stream: true }),
+    }),
+    signal: ctx.signal,
+  });
+}
+
+async function toApiError(response: Response): Promise<CommandResult> {
+  const error = await response.text();
+  return {
+    success: false,
+    error: `API error: ${response.status} - ${error}`,
+    ...(TRANSIENT_STATUSES.has(response.status) && { retryable: true }),
+  };
+}
+
+async function toResult(response: Response, promptStyle: PromptStyle): Promise<CommandResult> {
+  const data = await response.json();
+
+  if (!data.success) {
+    return { success: false, error: data.error || 'Unknown API error' };
+  }
+
+  return {
+    success: true,
+    content: data.markdown,
+    format: promptStyle === 'json' ? 'json' : 'markdown',
+    metadata: { model: data.model, tokens: data.tokens },
+  };
+}
+
 async function callTransformApi(
-  imageUrl: string,
-  config: QwenMarkdownConfig,
-  promptStyle: 'table' | 'page' | 'json',
-  entityType: EntityType | string
+  ctx: CommandContext<QwenMarkdownConfig>,
+  promptStyle: PromptStyle
 ): Promise<CommandResult> {
   try {
-    const response = await fetch(config.apiEndpoint, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        imageUrl,
-        model: config.model,
-        promptStyle,
-        entityType,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      return { success: false, error: `API error: ${response.status} - ${error}` };
-    }
+    const response = await requestTransform(ctx, promptStyle, false);
+    if (!response.ok) return toApiError(response);
+    return await toResult(response, promptStyle);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Network error';
+    return { success: false, error: message };
+  }
+}
 
-    const data = await response.json();
+/**
+ * Yield markdown as the endpoint produces it (SSE or NDJSON messages with a
+ * `delta`). Endpoints that ignore `stream: true` and answer with plain JSON
+ * still work; their markdown arrives as one chunk.
+ */
+async function* streamTransformApi(
+  ctx: CommandContext<QwenMarkdownConfig>,
+  promptStyle: PromptStyle
+): AsyncGenerator<string, CommandResult> {
+  const format = promptStyle === 'json' ? 'json' : 'markdown';
+  const metadata: Record<string, unknown> = {};
 
-    if (!data.success) {
-      return { success: false, error: data.error || 'Unknown API error' };
+  try {
+    const response = await requestTransform(ctx, promptStyle, true);
+    if (!response.ok) return await toApiError(response);
+
+    const streamFormat = getStreamFormat(response);
+    if (!streamFormat || !response.body) {
+      const { content, ...result } = await toResult(response, promptStyle);
+      if (content) yield content;
+      return result;
     }
 
-    return {
-      success: true,
-      content: data.markdown,
-      format: promptStyle === 'json' ? 'json' : 'markdown',
-      metadata: { model: data.model, tokens: data.tokens },
-    };
+    for await (const message of readStreamMessages(response.body, streamFormat)) {
+      const { delta, error, model, tokens } = message as TransformStreamMessage;
+      if (error) return { success: false, error };
+      if (model !== undefined) metadata.model = model;
+      if (tokens !== undefined) metadata.tokens = tokens;
+      if (delta) yield delta;
+    }
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Network error';
     return { success: false, error: message };
   }
+
+  return { success: true, format, ...(Object.keys(metadata).length > 0 && { metadata }) };
+}
+
+function transform(ctx: CommandContext<QwenMarkdownConfig>, promptStyle: PromptStyle): CommandOutput {
+  return ctx.config.stream ? streamTransformApi(ctx, promptStyle) : callTransformApi(ctx, promptStyle);
 }
 
-function entityTypeToPromptStyle(entityType: EntityType | string): 'table' | 'page' | 'json' {
+function entityTypeToPromptStyle(entityType: EntityType | string): PromptStyle {
   switch (entityType) {
     case 'table':
       return 'table';
@@ -71,12 +152,13 @@ const extractMarkdownCommand: PluginCommand<QwenMarkdownConfig> = {
   dataGetter: 'markdown',
   icon: 'file-text',
   shortcut: 'Ctrl+M',
-  async handler(ctx: CommandContext<QwenMarkdownConfig>): Promise<CommandResult> {
+  retry: transientRetry,
+  handler(ctx: CommandContext<QwenMarkdownConfig>): CommandOutput {
     if (!ctx.imageUrl) {
-      return { success: false, error: 'No image URL provided' };
+      return Promise.resolve({ success: false, error: 'No image URL provided' });
     }
     const promptStyle = entityTypeToPromptStyle(ctx.entity.type);
-    return callTransformApi(ctx.imageUrl, ctx.config, promptStyle, ctx.entity.type);
+    return transform(ctx, promptStyle);
   },
 };
 
@@ -87,11 +169,12 @@ const extractPageMarkdownCommand: PluginCommand<QwenMarkdownConfig> = {
   outputFormat: 'markdown',
   dataGetter: 'pageMarkdown',
   icon: 'file',
-  async handler(ctx: CommandContext<QwenMarkdownConfig>): Promise<CommandResult> {
+  retry: transientRetry,
+  handler(ctx: CommandContext<QwenMarkdownConfig>): CommandOutput {
     if (!ctx.imageUrl) {
-      return { success: false, error: 'No image URL provided' };
+      return Promise.resolve({ success: false, error: 'No image URL provided' });
     }
-    return callTransformApi(ctx.imageUrl, ctx.config, 'page', ctx.entity.type);
+    return transform(ctx, 'page');
   },
 };
 
@@ -102,11 +185,12 @@ const extractJsonCommand: PluginCommand<QwenMarkdownConfig> = {
   outputFormat: 'json',
   dataGetter: 'json',
   icon: 'braces',
-  async handler(ctx: CommandContext<QwenMarkdownConfig>): Promise<CommandResult> {
+  retry: transientRetry,
+  handler(ctx: CommandContext<QwenMarkdownConfig>): CommandOutput {
     if (!ctx.imageUrl) {
-      return { success: false, error: 'No image URL provided' };
+      return Promise.resolve({ success: false, error: 'No image URL provided' });
     }
-    return callTransformApi(ctx.imageUrl, ctx.config, 'json', ctx.entity.type);
+    return transform(ctx, 'json');
   },
 };
 
@@ -114,8 +198,11 @@ export const qwenMarkdownPlugin: VdomPlugin<QwenMarkdownConfig> = {
   name: 'qwen-markdown',
   description: 'Transform entities to markdown via Qwen VL',
   version: '1.0.0',
+  apiVersion: '1.0',
   runsOn: [],
   defaultEnabled: true,
+  // apiEndpoint defaults to a same-origin route
+  permissions: { network: ['self'] },
   configSchema: qwenMarkdownConfigSchema,
   commands: [extractMarkdownCommand, extractPageMarkdownCommand, extractJsonCommand],
   handler: async () => ({ success: true }),
@@ -0,0 +1,64 @@
+/**
+ * Readers for streaming transform responses: server-sent events
+ * (text/event-stream) and newline-delimited JSON (application/x-ndjson).
+ */
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * The streaming format of a response, or null for a plain JSON body.
+ */
+export function getStreamFormat(response: Response): StreamFormat | null {
+  const contentType = response.headers?.get('content-type') ?? '';
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+  return null;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop()!;
+      yield* lines;
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parsed JSON messages of a streaming response. For SSE, each event's data
+ * lines form one message and `data: [DONE]` ends the stream; for NDJSON,
+ * each non-empty line is a message.
+ */
+export async function* readStreamMessages(body: ReadableStream<Uint8Array>, format: StreamFormat): AsyncGenerator<unknown> {
+  if (format === 'ndjson') {
+    for await (const line of readLines(body)) {
+      if (line.trim() !== '') yield JSON.parse(line);
+    }
+    return;
+  }
+
+  let data: string[] = [];
+  for await (const line of readLines(body)) {
+    if (line.startsWith('data:')) {
+      data.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+      continue;
+    }
+    // Other fields (event:, id:, retry:) and comments are not used
+    if (line !== '' || data.length === 0) continue;
+
+    const payload = data.join('\n');
+    data = [];
+    if (payload === '[DONE]') return;
+    yield JSON.parse(payload);
+  }
+  if (data.length > 0 && data.join('\n') !== '[DONE]') yield JSON.parse(data.join('\n'));
+}
@@ -4,6 +4,8 @@ export interface QwenMarkdownConfig {
   model: string;
   promptStyle: 'table' | 'page' | 'json';
   apiEndpoint: string;
+  /** Request SSE/NDJSON output and stream it as command chunks */
+  stream: boolean;
 }
 
 export const qwenMarkdownConfigSchema: PluginConfigSchema = {
@@ -33,4 +35,10 @@ export const qwenMarkdownConfigSchema: PluginConfigSchema = {
     label: 'API Endpoint',
     description: 'Transformation API endpoint',
   },
+  stream: {
+    type: 'boolean',
+    default: false,
+    label: 'Stream Output',
+    description: 'Show markdown as it is generated (the endpoint must support SSE or NDJSON)',
+  },
 };
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { shouldRetry, getRetryDelay } from './retry';
+
+describe('retry policy', () => {
+  it('retries retryable results until maxAttempts', () => {
+    const failed = { success: false, retryable: true };
+    expect(shouldRetry({}, { attempt: 1, result: failed })).toBe(true);
+    expect(shouldRetry({}, { attempt: 3, result: failed })).toBe(false);
+    expect(shouldRetry({}, { attempt: 1, result: { success: false } })).toBe(false);
+    expect(shouldRetry({}, { attempt: 1, error: new Error('boom') })).toBe(false);
+  });
+
+  it('asks retryOn instead of the retryable flag when given', () => {
+    const policy = { maxAttempts: 5, retryOn: ({ error }: { error?: Error }) => error?.message === 'ECONNRESET' };
+    expect(shouldRetry(policy, { attempt: 4, error: new Error('ECONNRESET') })).toBe(true);
+    expect(shouldRetry(policy, { attempt: 1, result: { success: false, retryable: true } })).toBe(false);
+  });
+
+  it('backs off exponentially up to maxDelayMs, with full jitter by default', () => {
+    const policy = { initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+    expect([1, 2, 3, 4, 5].map((attempt) => getRetryDelay(policy, attempt))).toEqual([100, 200, 400, 800, 1000]);
+    expect(getRetryDelay({ initialDelayMs: 100, multiplier: 3 }, 3, () => 0.5)).toBe(450);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Backoff and retry decisions for PluginCommand.retry.
+ */
+
+import type { CommandFailure, CommandRetryPolicy } from './types';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_MULTIPLIER = 2;
+
+/**
+ * Whether to make another attempt after `failure`.
+ */
+export function shouldRetry(policy: CommandRetryPolicy, failure: CommandFailure): boolean {
+  if (failure.attempt >= (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)) return false;
+  if (policy.retryOn) return policy.retryOn(failure);
+  return failure.result?.retryable === true;
+}
+
+/**
+ * Milliseconds to wait after attempt `attempt` failed. Full jitter:
+ * uniformly random between 0 and the exponential backoff.
+ */
+export function getRetryDelay(
+  policy: CommandRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(
+    policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    (policy.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS) * (policy.multiplier ?? DEFAULT_MULTIPLIER) ** (attempt - 1)
+  );
+  return policy.jitter === false ? backoff : Math.round(random() * backoff);
+}
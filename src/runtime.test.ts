@@ -1,12 +1,40 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { VdomPluginManager } from './runtime';
+import { VdomReadyState, PLUGIN_API_VERSION } from './types';
+import {
+  PluginDependencyError,
+  PluginTimeoutError,
+  PluginCancelledError,
+  PluginConfigError,
+  PluginPermissionError,
+  PluginApiVersionError,
+  PluginQuarantinedError,
+} from './errors';
+import { defaultPlugins } from './index';
+import { Tracer } from './tracing';
+import { MetricsRegistry } from './metrics';
+import {
+  MemorySettingsStore,
+  createSettingsSnapshot,
+  PLUGIN_SETTINGS_VERSION,
+  PROFILE_EXPORT_FORMAT,
+  PROFILE_EXPORT_VERSION,
+} from './settings';
+import { createCommandContext } from './test-helpers';
 import type {
   VdomPlugin,
   VdomNode,
   PluginCommand,
   CommandContext,
+  CommandRunContext,
   CommandResult,
   EntityContextType,
+  PluginRunContext,
+  PluginContext,
+  PluginResult,
+  UpstreamResult,
+  Logger,
+  PluginConfigSchema,
 } from './types';
 
 function createMockNode(overrides: Partial<VdomNode> = {}): VdomNode {
@@ -32,6 +60,23 @@ function createMockCommand(overrides: Partial<PluginCommand> = {}): PluginComman
   };
 }
 
+function createMockRunContext(nodes: VdomNode[] = []): PluginRunContext {
+  return {
+    document: {
+      id: 'doc-1',
+      getAllNodes: () => nodes,
+      getNode: (id) => nodes.find((n) => n.id === id),
+      pages: [nodes],
+    },
+    $: () => ({
+      toArray: () => nodes,
+      length: nodes.length,
+      first: () => nodes[0],
+      filter: (predicate) => ({ toArray: () => nodes.filter(predicate) }),
+    }),
+  };
+}
+
 function createMockPlugin(overrides: Partial<VdomPlugin> = {}): VdomPlugin {
   return {
     name: 'test-plugin',
@@ -174,7 +219,7 @@ describe('VdomPluginManager - Commands', () => {
   describe('executeCommand', () => {
     it('returns error when plugin not found', async () => {
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -192,7 +237,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.register(plugin);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -211,7 +256,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.register(plugin);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -235,7 +280,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.register(plugin);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -258,7 +303,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.setConfig('test-plugin', { model: 'gpt-4', temperature: 0.5 });
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -278,7 +323,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.register(plugin);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -300,7 +345,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.on('command:started', startedHandler);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -325,7 +370,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.on('command:completed', completedHandler);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -354,7 +399,7 @@ describe('VdomPluginManager - Commands', () => {
       manager.on('command:error', errorHandler);
 
       const node = createMockNode();
-      const ctx: Omit<CommandContext, 'config' | 'log'> = {
+      const ctx: CommandRunContext = {
         entity: node,
         bbox: node.bbox,
         pageNumber: node.pageNumber,
@@ -414,3 +459,2313 @@ describe('VdomPluginManager - Commands', () => {
     });
   });
 });
+
+describe('VdomPluginManager - Dependencies', () => {
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+  });
+
+  describe('register', () => {
+    it('rejects a dependency cycle and names the path', () => {
+      manager.register(createMockPlugin({ name: 'a', dependencies: ['b'] }));
+      manager.register(createMockPlugin({ name: 'b', dependencies: ['c'] }));
+
+      expect(() =>
+        manager.register(createMockPlugin({ name: 'c', dependencies: ['a'] }))
+      ).toThrow('c -> a -> b -> c');
+      expect(manager.getPlugin('c')).toBeUndefined();
+    });
+
+    it('rejects a self-dependency', () => {
+      let error: unknown;
+      try {
+        manager.register(createMockPlugin({ name: 'a', dependencies: ['a'] }));
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(PluginDependencyError);
+      expect((error as PluginDependencyError).reason).toBe('cycle');
+      expect((error as PluginDependencyError).dependencies).toEqual(['a', 'a']);
+    });
+
+    it('allows dependencies to be registered later', () => {
+      manager.register(createMockPlugin({ name: 'a', dependencies: ['b'], defaultEnabled: false }));
+      manager.register(createMockPlugin({ name: 'b', defaultEnabled: false }));
+
+      expect(manager.getPlugins()).toHaveLength(2);
+    });
+
+    it('enables disabled dependencies of a default-enabled plugin like enable()', async () => {
+      const store = new MemorySettingsStore();
+      const persisted = new VdomPluginManager({ settingsStore: store });
+      persisted.register(createMockPlugin({ name: 'base', defaultEnabled: false }));
+      const enabled = vi.fn();
+      persisted.on('plugin:enabled', enabled);
+
+      persisted.register(createMockPlugin({ name: 'top', dependencies: ['base', 'ghost'] }));
+      await persisted.flushSettings();
+
+      expect(enabled.mock.calls.map(([data]) => data.name)).toEqual(['base', 'top']);
+      expect(store.read()?.plugins).toEqual({
+        base: { enabled: true, config: {} },
+        top: { enabled: true, config: {} },
+      });
+    });
+  });
+
+  describe('enable', () => {
+    it('enables disabled dependencies first', () => {
+      manager.register(createMockPlugin({ name: 'base', defaultEnabled: false }));
+      manager.register(createMockPlugin({ name: 'mid', dependencies: ['base'], defaultEnabled: false }));
+      manager.register(createMockPlugin({ name: 'top', dependencies: ['mid'], defaultEnabled: false }));
+
+      const enabled = vi.fn();
+      manager.on('plugin:enabled', enabled);
+      manager.enable('top');
+
+      expect(enabled.mock.calls.map(([data]) => data.name)).toEqual(['base', 'mid', 'top']);
+      expect(manager.isEnabled('base')).toBe(true);
+    });
+
+    it('refuses disabled dependencies when required', () => {
+      manager.register(createMockPlugin({ name: 'base', defaultEnabled: false }));
+      manager.register(createMockPlugin({ name: 'top', dependencies: ['base'], defaultEnabled: false }));
+
+      expect(() => manager.enable('top', { dependencies: 'require' })).toThrow(
+        'requires disabled plugin(s): base'
+      );
+      expect(manager.isEnabled('top')).toBe(false);
+      expect(manager.isEnabled('base')).toBe(false);
+    });
+
+    it('throws for unregistered dependencies', () => {
+      manager.register(createMockPlugin({ name: 'top', dependencies: ['ghost'], defaultEnabled: false }));
+
+      expect(() => manager.enable('top')).toThrow(PluginDependencyError);
+      expect(manager.isEnabled('top')).toBe(false);
+    });
+  });
+
+  describe('disable', () => {
+    it('warns about enabled dependents', () => {
+      manager.register(createMockPlugin({ name: 'base' }));
+      manager.register(createMockPlugin({ name: 'top', dependencies: ['base'] }));
+
+      const warning = vi.fn();
+      manager.on('plugin:dependencyWarning', warning);
+      manager.disable('base');
+
+      expect(warning).toHaveBeenCalledWith({ name: 'base', dependents: ['top'] });
+      expect(manager.isEnabled('top')).toBe(true);
+    });
+
+    it('disables dependents with cascade', () => {
+      manager.register(createMockPlugin({ name: 'base' }));
+      manager.register(createMockPlugin({ name: 'top', dependencies: ['base'] }));
+
+      manager.disable('base', { cascade: true });
+
+      expect(manager.getEnabledPlugins()).toEqual([]);
+    });
+
+    it('throws for unregistered plugins', () => {
+      const disabled = vi.fn();
+      manager.on('plugin:disabled', disabled);
+
+      expect(() => manager.disable('ghost')).toThrow('Plugin "ghost" is not registered');
+      expect(disabled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDependencyGraph', () => {
+    it('lists plugins in dependency order with dependents and missing entries', () => {
+      manager.register(createMockPlugin({ name: 'top', dependencies: ['base', 'ghost'] }));
+      manager.register(createMockPlugin({ name: 'base' }));
+
+      const graph = manager.getDependencyGraph();
+
+      expect(graph.map((node) => node.name)).toEqual(['base', 'top']);
+      expect(graph[0]).toEqual({
+        name: 'base',
+        enabled: true,
+        dependencies: [],
+        missing: [],
+        dependents: ['top'],
+        enabledDependents: ['top'],
+      });
+      expect(graph[1].missing).toEqual(['ghost']);
+    });
+  });
+
+  describe('runEvent', () => {
+    it('runs dependencies before dependents', async () => {
+      const order: string[] = [];
+      const track = (name: string) => vi.fn(async () => {
+        order.push(name);
+        return { success: true };
+      });
+      manager.register(createMockPlugin({ name: 'top', runsOn: ['ready'], dependencies: ['base'], handler: track('top') }));
+      manager.register(createMockPlugin({ name: 'base', runsOn: ['ready'], handler: track('base') }));
+
+      await manager.runEvent('ready', createMockRunContext());
+
+      expect(order).toEqual(['base', 'top']);
+    });
+
+    it('fails plugins whose dependencies are disabled instead of running them', async () => {
+      const handler = vi.fn().mockResolvedValue({ success: true });
+      manager.register(createMockPlugin({ name: 'base', runsOn: ['ready'] }));
+      manager.register(createMockPlugin({ name: 'top', runsOn: ['ready'], dependencies: ['base'], handler }));
+      manager.disable('base');
+
+      const errors = vi.fn();
+      manager.on('plugin:error', errors);
+      const results = await manager.runEvent('ready', createMockRunContext());
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(results.get('top')?.success).toBe(false);
+      expect(errors.mock.calls[0][0].error).toBeInstanceOf(PluginDependencyError);
+    });
+  });
+});
+
+describe('VdomPluginManager - Concurrent runEvent', () => {
+  function deferred() {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => (resolve = r));
+    return { promise, resolve };
+  }
+
+  function trackedPlugin(name: string, log: string[], gate?: Promise<void>, dependencies?: string[]) {
+    return createMockPlugin({
+      name,
+      runsOn: ['interactive'],
+      dependencies,
+      handler: async () => {
+        log.push(`start:${name}`);
+        await gate;
+        log.push(`end:${name}`);
+        return { success: true };
+      },
+    });
+  }
+
+  it('runs independent plugins in parallel', async () => {
+    const manager = new VdomPluginManager();
+    const log: string[] = [];
+    const gate = deferred();
+    manager.register(trackedPlugin('a', log, gate.promise));
+    manager.register(trackedPlugin('b', log, gate.promise));
+
+    const run = manager.runEvent('interactive', createMockRunContext());
+    await Promise.resolve();
+    expect(log).toEqual(['start:a', 'start:b']);
+
+    gate.resolve();
+    await run;
+    expect(log).toEqual(['start:a', 'start:b', 'end:a', 'end:b']);
+  });
+
+  it('respects the concurrency limit', async () => {
+    const manager = new VdomPluginManager({ concurrency: 4 });
+    const log: string[] = [];
+    manager.register(trackedPlugin('a', log, Promise.resolve()));
+    manager.register(trackedPlugin('b', log, Promise.resolve()));
+
+    await manager.runEvent('interactive', createMockRunContext(), { concurrency: 1 });
+
+    expect(log).toEqual(['start:a', 'end:a', 'start:b', 'end:b']);
+  });
+
+  it('treats a NaN concurrency as unlimited', async () => {
+    const manager = new VdomPluginManager({ concurrency: NaN });
+    const log: string[] = [];
+    const gate = deferred();
+    manager.register(trackedPlugin('a', log, gate.promise));
+    manager.register(trackedPlugin('b', log, gate.promise));
+
+    const run = manager.runEvent('interactive', createMockRunContext());
+    await Promise.resolve();
+    expect(log).toEqual(['start:a', 'start:b']);
+
+    gate.resolve();
+    expect(Array.from((await run).keys())).toEqual(['a', 'b']);
+  });
+
+  it('starts dependents only after their dependencies settle', async () => {
+    const manager = new VdomPluginManager();
+    const log: string[] = [];
+    const gate = deferred();
+    manager.register(trackedPlugin('top', log, undefined, ['base']));
+    manager.register(trackedPlugin('base', log, gate.promise));
+    manager.register(trackedPlugin('other', log));
+
+    const run = manager.runEvent('interactive', createMockRunContext());
+    await new Promise((r) => setTimeout(r, 0));
+    expect(log).toEqual(['start:base', 'start:other', 'end:other']);
+
+    gate.resolve();
+    await run;
+    expect(log.indexOf('start:top')).toBeGreaterThan(log.indexOf('end:base'));
+  });
+
+  it('orders results by dependency order regardless of completion order', async () => {
+    const manager = new VdomPluginManager();
+    const log: string[] = [];
+    const slow = deferred();
+    manager.register(trackedPlugin('slow', log, slow.promise));
+    manager.register(trackedPlugin('fast', log));
+
+    const started = vi.fn();
+    manager.on('plugin:started', started);
+    const run = manager.runEvent('interactive', createMockRunContext());
+    setTimeout(slow.resolve, 0);
+    const results = await run;
+
+    expect(Array.from(results.keys())).toEqual(['slow', 'fast']);
+    expect(started.mock.calls.map(([data]) => data.name)).toEqual(['slow', 'fast']);
+  });
+});
+
+describe('VdomPluginManager - Cancellation and timeouts', () => {
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+  });
+
+  function hangingHandler() {
+    return vi.fn(() => new Promise<never>(() => {}));
+  }
+
+  it('passes an AbortSignal to plugin handlers', async () => {
+    const handler = vi.fn().mockResolvedValue({ success: true });
+    manager.register(createMockPlugin({ runsOn: ['ready'], handler }));
+
+    await manager.runEvent('ready', createMockRunContext());
+
+    expect(handler.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('times out a hung handler with a PluginTimeoutError', async () => {
+    manager.register(createMockPlugin({ runsOn: ['ready'], timeoutMs: 10, handler: hangingHandler() }));
+    const timeout = vi.fn();
+    const error = vi.fn();
+    manager.on('plugin:timeout', timeout);
+    manager.on('plugin:error', error);
+
+    const results = await manager.runEvent('ready', createMockRunContext());
+    const result = results.get('test-plugin')!;
+
+    expect(result.success).toBe(false);
+    expect(result.errorDetails).toBeInstanceOf(PluginTimeoutError);
+    expect(result.error).toBe('Plugin "test-plugin" timed out after 10ms');
+    expect(timeout).toHaveBeenCalledWith({ name: 'test-plugin', timeoutMs: 10 });
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('ignores emits and logs from a handler that outlives its timeout', async () => {
+    manager.register(createMockPlugin({
+      name: 'slow',
+      runsOn: ['ready'],
+      timeoutMs: 10,
+      handler: (ctx) => new Promise<never>(() => {
+        setTimeout(() => {
+          ctx.emit('stats', { rows: 3 });
+          ctx.log('info', 'late');
+        }, 20);
+      }),
+    }));
+    let upstream: UpstreamResult | undefined;
+    manager.register(createMockPlugin({
+      name: 'reader',
+      runsOn: ['ready'],
+      dependencies: ['slow'],
+      handler: async (ctx) => {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        upstream = ctx.getResult('slow');
+        return { success: true };
+      },
+    }));
+    const emits = vi.fn();
+    const logs = vi.fn();
+    manager.on('lifecycle:emit', emits);
+    manager.on('plugin:log', logs);
+
+    const results = await manager.runEvent('ready', createMockRunContext());
+
+    expect(results.get('slow')!.errorDetails).toBeInstanceOf(PluginTimeoutError);
+    expect(emits).not.toHaveBeenCalled();
+    expect(logs).not.toHaveBeenCalled();
+    expect(upstream!.emitted).toEqual({});
+  });
+
+  it('cancels a run by id and skips plugins not yet started', async () => {
+    const later = vi.fn().mockResolvedValue({ success: true });
+    manager.register(createMockPlugin({ name: 'slow', runsOn: ['ready'], handler: hangingHandler() }));
+    manager.register(createMockPlugin({ name: 'later', runsOn: ['ready'], dependencies: ['slow'], handler: later }));
+
+    const run = manager.runEvent('ready', createMockRunContext(), { runId: 'run-x' });
+    expect(manager.cancel('run-x')).toBe(true);
+    const results = await run;
+
+    expect(results.get('slow')?.errorDetails).toBeInstanceOf(PluginCancelledError);
+    expect(results.get('later')?.errorDetails).toBeInstanceOf(PluginCancelledError);
+    expect(later).not.toHaveBeenCalled();
+    expect(manager.cancel('run-x')).toBe(false);
+  });
+
+  it('reports the generated run id in plugin:started', async () => {
+    manager.register(createMockPlugin({ runsOn: ['ready'] }));
+    const started = vi.fn();
+    manager.on('plugin:started', started);
+
+    await manager.runEvent('ready', createMockRunContext());
+
+    expect(started.mock.calls[0][0].runId).toEqual(expect.any(String));
+  });
+
+  it('aborts the run when the caller signal aborts', async () => {
+    manager.register(createMockPlugin({ runsOn: ['ready'], handler: hangingHandler() }));
+    const controller = new AbortController();
+
+    const run = manager.runEvent('ready', createMockRunContext(), { signal: controller.signal });
+    controller.abort();
+
+    expect((await run).get('test-plugin')?.errorDetails).toBeInstanceOf(PluginCancelledError);
+  });
+
+  it('cancels in-flight commands', async () => {
+    const handler = hangingHandler();
+    manager.register(createMockPlugin({ commands: [createMockCommand({ handler })] }));
+
+    const execution = manager.executeCommand('test-plugin', 'test-cmd', createCommandContext());
+    expect(manager.cancelCommand('test-plugin', 'test-cmd', 'node-1')).toBe(1);
+    const result = await execution;
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Command "test-cmd" of plugin "test-plugin" was cancelled');
+    expect(manager.cancelCommand('test-plugin')).toBe(0);
+  });
+
+  it('applies the plugin timeout to commands unless the command overrides it', async () => {
+    const handler = hangingHandler();
+    manager.register(createMockPlugin({
+      timeoutMs: 1000,
+      commands: [createMockCommand({ handler, timeoutMs: 10 })],
+    }));
+    const timeout = vi.fn();
+    manager.on('plugin:timeout', timeout);
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', createCommandContext());
+
+    expect(result.success).toBe(false);
+    expect(timeout).toHaveBeenCalledWith({ name: 'test-plugin', timeoutMs: 10, commandId: 'test-cmd' });
+  });
+
+  it('aborts in-flight runs on clear()', async () => {
+    manager.register(createMockPlugin({ runsOn: ['ready'], handler: hangingHandler() }));
+
+    const run = manager.runEvent('ready', createMockRunContext(), { runId: 'run-x' });
+    manager.clear();
+
+    expect((await run).get('test-plugin')?.errorDetails).toBeInstanceOf(PluginCancelledError);
+    expect(manager.cancel('run-x')).toBe(false);
+  });
+});
+
+describe('VdomPluginManager - Upstream results', () => {
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+  });
+
+  it('exposes dependency results, exports and emits to dependents', async () => {
+    const overlay = { id: 'o1', type: 'table', bbox: { x1: 0, y1: 0, x2: 1, y2: 1 }, page: 1 };
+    manager.register(createMockPlugin({
+      name: 'tables',
+      runsOn: ['interactive'],
+      handler: async (ctx) => {
+        ctx.emit('overlays', [overlay]);
+        return { success: true, exports: { tables: ['t1'] } };
+      },
+    }));
+
+    let seen: unknown;
+    manager.register(createMockPlugin({
+      name: 'consumer',
+      runsOn: ['interactive'],
+      dependencies: ['tables'],
+      handler: async (ctx) => {
+        seen = ctx.getResult<{ tables: string[] }>('tables');
+        return { success: true };
+      },
+    }));
+
+    await manager.runEvent('interactive', createMockRunContext());
+
+    expect(seen).toEqual({
+      name: 'tables',
+      result: { success: true, data: { overlays: [overlay] }, exports: { tables: ['t1'] } },
+      emitted: { overlays: [[overlay]] },
+    });
+  });
+
+  it('hides results of plugins that are not dependencies', async () => {
+    manager.register(createMockPlugin({ name: 'other', runsOn: ['interactive'] }));
+
+    let seen: unknown = 'unset';
+    manager.register(createMockPlugin({
+      name: 'consumer',
+      runsOn: ['interactive'],
+      handler: async (ctx) => {
+        seen = ctx.getResult('other');
+        return { success: true };
+      },
+    }));
+
+    await manager.runEvent('interactive', createMockRunContext(), { concurrency: 1 });
+
+    expect(seen).toBeUndefined();
+  });
+});
+
+describe('VdomPluginManager - Logging', () => {
+  function createMockLogger(): Logger {
+    return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  }
+
+  it('routes plugin logs to the injected logger and plugin:log', async () => {
+    const logger = createMockLogger();
+    const manager = new VdomPluginManager({ logger });
+    manager.register(createMockPlugin({
+      runsOn: ['ready'],
+      handler: async (ctx) => {
+        ctx.log('debug', 'looking around');
+        return { success: true };
+      },
+    }));
+    const logged = vi.fn();
+    manager.on('plugin:log', logged);
+
+    await manager.runEvent('ready', createMockRunContext());
+
+    const entry = {
+      pluginName: 'test-plugin',
+      level: 'debug',
+      message: 'looking around',
+      timestamp: expect.any(Number),
+    };
+    expect(logger.debug).toHaveBeenCalledWith('looking around', entry);
+    expect(logged).toHaveBeenCalledWith(entry);
+  });
+
+  it('attaches the log buffer to plugin results', async () => {
+    const manager = new VdomPluginManager({ logger: createMockLogger() });
+    manager.register(createMockPlugin({
+      runsOn: ['ready'],
+      handler: async (ctx) => {
+        ctx.log('info', 'one');
+        throw new Error('boom');
+      },
+    }));
+
+    const results = await manager.runEvent('ready', createMockRunContext());
+
+    expect(results.get('test-plugin')?.logs?.map((l) => l.message)).toEqual(['one']);
+  });
+
+  it('tags command logs with the command id', async () => {
+    const logger = createMockLogger();
+    const manager = new VdomPluginManager({ logger });
+    const handler = vi.fn(async (ctx: CommandContext): Promise<CommandResult> => {
+      ctx.log('warn', 'careful');
+      return { success: true };
+    });
+    manager.register(createMockPlugin({ commands: [createMockCommand({ handler })] }));
+
+    const node = createMockNode();
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', {
+      entity: node,
+      bbox: node.bbox,
+      pageNumber: 1,
+      documentId: 'doc-1',
+    });
+
+    expect(result.logs).toEqual([
+      expect.objectContaining({ pluginName: 'test-plugin', commandId: 'test-cmd', level: 'warn' }),
+    ]);
+    expect(logger.warn).toHaveBeenCalledOnce();
+  });
+
+  it('omits logs from results when nothing was logged', async () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({ runsOn: ['ready'] }));
+
+    const results = await manager.runEvent('ready', createMockRunContext());
+
+    expect(results.get('test-plugin')).toEqual({ success: true });
+  });
+});
+
+describe('VdomPluginManager - Config validation', () => {
+  let manager: VdomPluginManager;
+
+  const configSchema: PluginConfigSchema = {
+    minRows: { type: 'number', label: 'Min Rows', default: 2, min: 2, max: 10 },
+    debug: { type: 'boolean', label: 'Debug', default: false },
+  };
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+  });
+
+  it('registers every built-in plugin with valid schema defaults', () => {
+    for (const plugin of defaultPlugins) {
+      expect(() => manager.register(plugin)).not.toThrow();
+    }
+  });
+
+  it('rejects schemas whose defaults are invalid', () => {
+    const plugin = createMockPlugin({
+      configSchema: { minRows: { type: 'number', label: 'Min Rows', default: 1, min: 2 } },
+    });
+
+    expect(() => manager.register(plugin)).toThrow(PluginConfigError);
+    expect(manager.getPlugin('test-plugin')).toBeUndefined();
+  });
+
+  it('rejects invalid values with field errors and keeps the previous config', () => {
+    manager.register(createMockPlugin({ configSchema }));
+
+    let error: unknown;
+    try {
+      manager.setConfig('test-plugin', { minRows: -3, debug: 'yes' });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(PluginConfigError);
+    expect((error as PluginConfigError).fieldErrors.map((e) => e.field)).toEqual(['minRows', 'debug']);
+    expect(manager.getConfig('test-plugin')).toEqual({ minRows: 2, debug: false });
+  });
+
+  it('rejects keys the schema does not declare', () => {
+    manager.register(createMockPlugin({ configSchema }));
+
+    let error: unknown;
+    try {
+      manager.setConfig('test-plugin', { minRow: -3 });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(PluginConfigError);
+    expect((error as PluginConfigError).fieldErrors).toEqual([
+      { field: 'minRow', message: 'Unknown field: minRow', value: -3 },
+    ]);
+    expect(manager.getConfig('test-plugin')).toEqual({ minRows: 2, debug: false });
+  });
+
+    it('resets undefined keys to their defaults', () => {
+    manager.register(createMockPlugin({ configSchema }));
+    manager.setConfig('test-plugin', { minRows: 5 });
+    manager.setConfig('test-plugin', { minRows: undefined });
+
+    expect(manager.getConfig('test-plugin')).toEqual({ minRows: 2, debug: false });
+  });
+
+  it('resets null keys to their defaults', () => {
+    manager.register(createMockPlugin({ configSchema }));
+    manager.setConfig('test-plugin', { minRows: 5, debug: true });
+    manager.setConfig('test-plugin', { minRows: null, debug: null });
+
+    expect(manager.getConfig('test-plugin')).toEqual({ minRows: 2, debug: false });
+  });
+
+  it('passes handlers a config with defaults filled in', async () => {
+    const handler = vi.fn().mockResolvedValue({ success: true });
+    manager.register(createMockPlugin({ runsOn: ['ready'], configSchema, handler }));
+    manager.setConfig('test-plugin', { debug: true });
+
+    await manager.runEvent('ready', createMockRunContext());
+
+    expect(handler.mock.calls[0][0].config).toEqual({ minRows: 2, debug: true });
+  });
+});
+
+describe('VdomPluginManager - Persistent settings', () => {
+  const configSchema: PluginConfigSchema = {
+    threshold: { type: 'number', label: 'Threshold', default: 0.5, min: 0, max: 1 },
+  };
+
+  it('restores enabled flags and configs on register', () => {
+    const store = new MemorySettingsStore(
+      createSettingsSnapshot({ 'test-plugin': { enabled: false, config: { threshold: 0.9 } } })
+    );
+    const manager = new VdomPluginManager({ settingsStore: store });
+
+    manager.register(createMockPlugin({ configSchema, defaultEnabled: true }));
+
+    expect(manager.isEnabled('test-plugin')).toBe(false);
+    expect(manager.getConfig('test-plugin')).toEqual({ threshold: 0.9 });
+  });
+
+  it('falls back to defaults for persisted values that no longer validate', () => {
+    const store = new MemorySettingsStore(
+      createSettingsSnapshot({ 'test-plugin': { config: { threshold: 'high' } } })
+    );
+    const manager = new VdomPluginManager({ settingsStore: store });
+
+    manager.register(createMockPlugin({ configSchema }));
+
+    expect(manager.getConfig('test-plugin')).toEqual({ threshold: 0.5 });
+  });
+
+  it('logs unreadable settings and registers with defaults', () => {
+    const store = {
+      read: () => {
+        throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' });
+      },
+      write: vi.fn(),
+    };
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const manager = new VdomPluginManager({ settingsStore: store, logger });
+    const logged = vi.fn();
+    manager.on('plugin:log', logged);
+
+    expect(() => manager.register(createMockPlugin({ configSchema }))).not.toThrow();
+
+    expect(manager.getConfig('test-plugin')).toEqual({ threshold: 0.5 });
+    const message = 'Failed to read plugin settings, using defaults: EACCES: permission denied';
+    expect(logger.error).toHaveBeenCalledWith(message, expect.objectContaining({ pluginName: 'test-plugin' }));
+    expect(logged).toHaveBeenCalledWith(expect.objectContaining({ level: 'error', message }));
+  });
+
+  it('writes changes once per debounce window with only non-default config', async () => {
+    vi.useFakeTimers();
+    try {
+      const store = new MemorySettingsStore();
+      const write = vi.spyOn(store, 'write');
+      const manager = new VdomPluginManager({ settingsStore: store, settingsWriteDelayMs: 100 });
+      manager.register(createMockPlugin({ configSchema }));
+
+      manager.setConfig('test-plugin', { threshold: 0.7 });
+      manager.disable('test-plugin');
+      expect(write).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(write).toHaveBeenCalledOnce();
+      expect(store.read()).toEqual({
+        version: PLUGIN_SETTINGS_VERSION,
+        updatedAt: expect.any(Number),
+        plugins: { 'test-plugin': { enabled: false, config: { threshold: 0.7 } } },
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('flushSettings writes pending changes immediately', async () => {
+    const store = new MemorySettingsStore();
+    const manager = new VdomPluginManager({ settingsStore: store, settingsWriteDelayMs: 60_000 });
+    manager.register(createMockPlugin({ configSchema }));
+    manager.setConfig('test-plugin', { threshold: 0.5 });
+
+    await manager.flushSettings();
+
+    expect(store.read()?.plugins['test-plugin']).toEqual({ enabled: true, config: {} });
+  });
+
+  it('drops unwritten changes on clear()', async () => {
+    const store = new MemorySettingsStore();
+    const write = vi.spyOn(store, 'write');
+    const manager = new VdomPluginManager({ settingsStore: store, settingsWriteDelayMs: 60_000 });
+    manager.register(createMockPlugin({ configSchema }));
+    manager.setConfig('test-plugin', { threshold: 0.7 });
+
+    manager.clear();
+    await manager.flushSettings();
+
+    expect(write).not.toHaveBeenCalled();
+  });
+});
+
+describe('VdomPluginManager - Settings profiles', () => {
+  const configSchema: PluginConfigSchema = {
+    tolerance: { type: 'number', label: 'Tolerance', default: 15, min: 5, max: 50 },
+  };
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+    manager.register(createMockPlugin({ name: 'tables', configSchema }));
+    manager.register(createMockPlugin({ name: 'orphans', defaultEnabled: false }));
+  });
+
+  it('saves and applies a profile', () => {
+    manager.setConfig('tables', { tolerance: 5 });
+    manager.saveProfile('bank-statements');
+
+    manager.setConfig('tables', { tolerance: 40 });
+    manager.enable('orphans');
+    const applied = vi.fn();
+    manager.on('profile:applied', applied);
+    manager.applyProfile('bank-statements');
+
+    expect(manager.getConfig('tables')).toEqual({ tolerance: 5 });
+    expect(manager.isEnabled('orphans')).toBe(false);
+    expect(applied).toHaveBeenCalledWith({ name: 'bank-statements' });
+    expect(manager.getProfiles().map((p) => p.name)).toEqual(['bank-statements']);
+  });
+
+  it('applies nothing when any profile config is invalid', () => {
+    manager.setConfig('tables', { tolerance: 5 });
+    manager.saveProfile('tight');
+
+    // Stricter schema after an upgrade: the saved tolerance no longer validates
+    manager.unregister('tables');
+    manager.register(createMockPlugin({
+      name: 'tables',
+      configSchema: { tolerance: { type: 'number', label: 'Tolerance', default: 15, min: 10 } },
+    }));
+    manager.enable('orphans');
+
+    expect(() => manager.applyProfile('tight')).toThrow(PluginConfigError);
+    expect(manager.isEnabled('orphans')).toBe(true);
+    expect(manager.getConfig('tables')).toEqual({ tolerance: 15 });
+  });
+
+  it('enables dependencies and catches up plugins a profile enables', async () => {
+    const reports = createMockPlugin({
+      name: 'reports',
+      runsOn: ['interactive'],
+      dependencies: ['orphans'],
+      defaultEnabled: false,
+    });
+    manager.register(reports);
+    manager.importProfiles({
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      profiles: [{ name: 'with-reports', plugins: { reports: { enabled: true } } }],
+    });
+    manager.bindDocument(() => createMockRunContext());
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    await manager.whenIdle();
+    const enabled = vi.fn();
+    manager.on('plugin:enabled', enabled);
+
+    manager.applyProfile('with-reports');
+    await manager.whenIdle();
+
+    expect(enabled.mock.calls.map(([data]) => data.name)).toEqual(['orphans', 'reports']);
+    expect(manager.isEnabled('orphans')).toBe(true);
+    expect(reports.handler).toHaveBeenCalledOnce();
+  });
+
+  it('warns about dependents of plugins a profile disables', () => {
+    manager.register(createMockPlugin({ name: 'reports', dependencies: ['orphans'] }));
+    manager.enable('orphans');
+    manager.importProfiles({
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      profiles: [{ name: 'no-orphans', plugins: { orphans: { enabled: false } } }],
+    });
+    const warning = vi.fn();
+    manager.on('plugin:dependencyWarning', warning);
+
+    manager.applyProfile('no-orphans');
+
+    expect(warning).toHaveBeenCalledWith({ name: 'orphans', dependents: ['reports'] });
+  });
+
+  it('disables dependents before the dependencies a profile also disables', () => {
+    manager.register(createMockPlugin({ name: 'reports', dependencies: ['orphans'] }));
+    manager.enable('orphans');
+    manager.importProfiles({
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      profiles: [{ name: 'quiet', plugins: { orphans: { enabled: false }, reports: { enabled: false } } }],
+    });
+    const warning = vi.fn();
+    const disabled = vi.fn();
+    manager.on('plugin:dependencyWarning', warning);
+    manager.on('plugin:disabled', disabled);
+
+    manager.applyProfile('quiet');
+
+    expect(warning).not.toHaveBeenCalled();
+    expect(disabled.mock.calls.map(([data]) => data.name)).toEqual(['reports', 'orphans']);
+  });
+
+  it('rejects a profile that disables a dependency of a plugin it enables', () => {
+    manager.register(createMockPlugin({ name: 'reports', dependencies: ['orphans'], defaultEnabled: false }));
+    manager.importProfiles({
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      profiles: [{ name: 'broken', plugins: { reports: { enabled: true }, orphans: { enabled: false } } }],
+    });
+
+    expect(() => manager.applyProfile('broken')).toThrow(
+      'Profile "broken" enables plugin "reports" but disables its dependencies: orphans'
+    );
+    expect(manager.isEnabled('reports')).toBe(false);
+    expect(manager.isEnabled('orphans')).toBe(false);
+  });
+
+  it('round-trips profiles through export and import', () => {
+    manager.setConfig('tables', { tolerance: 25 });
+    manager.saveProfile('invoices');
+    const json = manager.exportProfiles();
+
+    const other = new VdomPluginManager();
+    other.register(createMockPlugin({ name: 'tables', configSchema }));
+    const report = other.importProfiles(json);
+
+    expect(report).toEqual({
+      imported: ['invoices'],
+      skipped: [],
+      unknownPlugins: [{ profile: 'invoices', plugin: 'orphans' }],
+      invalid: [],
+    });
+    other.applyProfile('invoices');
+    expect(other.getConfig('tables')).toEqual({ tolerance: 25 });
+  });
+
+  it('reports invalid entries and skips existing profiles', () => {
+    manager.saveProfile('existing');
+    const report = manager.importProfiles({
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      profiles: [
+        { name: 'existing', plugins: {} },
+        { name: 'bad', plugins: { tables: { config: { tolerance: 1 } } } },
+      ],
+    });
+
+    expect(report.skipped).toEqual(['existing']);
+    expect(report.imported).toEqual([]);
+    expect(report.invalid).toEqual([
+      {
+        profile: 'bad',
+        plugin: 'tables',
+        fieldErrors: [{ field: 'tolerance', message: 'Field tolerance must be >= 5', value: 1 }],
+      },
+    ]);
+  });
+
+  it('throws on unsupported export documents', () => {
+    expect(() => manager.importProfiles('{"format":"other"}')).toThrow('Invalid profile export');
+    expect(() =>
+      manager.importProfiles({ format: PROFILE_EXPORT_FORMAT, version: 99, profiles: [] })
+    ).toThrow('Unsupported profile export version: 99');
+  });
+
+  it('persists profiles in the settings store', async () => {
+    const store = new MemorySettingsStore();
+    const persisted = new VdomPluginManager({ settingsStore: store });
+    persisted.register(createMockPlugin({ name: 'tables', configSchema }));
+    persisted.saveProfile('p1');
+    await persisted.flushSettings();
+
+    const reloaded = new VdomPluginManager({ settingsStore: store });
+    reloaded.register(createMockPlugin({ name: 'tables', configSchema }));
+    expect(reloaded.getProfiles().map((p) => p.name)).toEqual(['p1']);
+  });
+});
+
+describe('VdomPluginManager - Result cache', () => {
+  let manager: VdomPluginManager;
+  let handler: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager({ cache: true });
+    handler = vi.fn(async (ctx: PluginContext) => {
+      ctx.emit('badges', [{ nodeId: 'node-1', text: 'orphan', color: 'red' }]);
+      return { success: true, data: { stats: { count: 1 } } };
+    });
+    manager.register(createMockPlugin({ name: 'orphans', version: '1.0.0', runsOn: ['interactive'], handler }));
+  });
+
+  it('replays cached results and emits for an unchanged document', async () => {
+    const context = createMockRunContext([createMockNode()]);
+    await manager.runEvent('interactive', context);
+
+    const emits = vi.fn();
+    const completed = vi.fn();
+    manager.on('lifecycle:emit', emits);
+    manager.on('plugin:completed', completed);
+    const results = await manager.runEvent('interactive', context);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(results.get('orphans')).toEqual({
+      success: true,
+      data: { badges: [{ nodeId: 'node-1', text: 'orphan', color: 'red' }], stats: { count: 1 } },
+    });
+    expect(emits).toHaveBeenCalledWith({
+      pluginName: 'orphans',
+      type: 'badges',
+      data: [{ nodeId: 'node-1', text: 'orphan', color: 'red' }],
+    });
+    expect(completed.mock.calls[0][0].cached).toBe(true);
+  });
+
+  it('keeps cached entries apart from results and emits handed to callers', async () => {
+    const context = createMockRunContext([createMockNode()]);
+    const first = await manager.runEvent('interactive', context);
+    first.get('orphans')!.data!.stats!.count = 99;
+
+    const off = manager.on('lifecycle:emit', ({ data }) => (data as unknown[]).push({ nodeId: 'x', text: 'listener' }));
+    const replayed = (await manager.runEvent('interactive', context)).get('orphans')!;
+    replayed.data!.stats!.count = 42;
+    off();
+    const emits = vi.fn();
+    manager.on('lifecycle:emit', emits);
+    const again = (await manager.runEvent('interactive', context)).get('orphans')!;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(again.data!.stats).toEqual({ count: 1 });
+    expect(emits.mock.calls[0][0].data).toEqual([{ nodeId: 'node-1', text: 'orphan', color: 'red' }]);
+  });
+
+  it('does not cache results that cannot be cloned', async () => {
+    manager.register(createMockPlugin({
+      name: 'callbacks',
+      runsOn: ['interactive'],
+      handler: vi.fn().mockResolvedValue({ success: true, exports: { onSelect: () => {} } }),
+    }));
+    const context = createMockRunContext();
+
+    await manager.runEvent('interactive', context);
+    await manager.runEvent('interactive', context);
+
+    expect(manager.getPlugin('callbacks')!.handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('misses when the document content, revision or config changes', async () => {
+    await manager.runEvent('interactive', createMockRunContext([createMockNode()]));
+    await manager.runEvent('interactive', createMockRunContext([createMockNode({ type: 'text' })]));
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    const revised = createMockRunContext([createMockNode()]);
+    await manager.runEvent('interactive', { ...revised, document: { ...revised.document, revision: 7 } });
+    await manager.runEvent('interactive', { ...revised, document: { ...revised.document, revision: 7 } });
+    await manager.runEvent('interactive', { ...revised, document: { ...revised.document, revision: 8 } });
+    expect(handler).toHaveBeenCalledTimes(4);
+
+    manager.setConfig('orphans', { threshold: 2 });
+    await manager.runEvent('interactive', { ...revised, document: { ...revised.document, revision: 8 } });
+    expect(handler).toHaveBeenCalledTimes(5);
+  });
+
+  it('misses when an upstream dependency changes config', async () => {
+    const schema: PluginConfigSchema = { level: { type: 'number', label: 'Level', default: 1 } };
+    manager.register(createMockPlugin({ name: 'tables', runsOn: ['interactive'], configSchema: schema }));
+    manager.register(createMockPlugin({ name: 'summary', runsOn: ['interactive'], dependencies: ['tables'] }));
+    const summary = manager.getPlugin('summary')!.handler;
+    const context = createMockRunContext();
+
+    await manager.runEvent('interactive', context);
+    await manager.runEvent('interactive', context);
+    expect(summary).toHaveBeenCalledTimes(1);
+
+    manager.setConfig('tables', { level: 2 });
+    await manager.runEvent('interactive', context);
+    expect(summary).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failures or plugins that opt out', async () => {
+    manager.register(createMockPlugin({ name: 'live', runsOn: ['interactive'], cacheable: false }));
+    manager.register(createMockPlugin({
+      name: 'flaky',
+      runsOn: ['interactive'],
+      handler: vi.fn().mockResolvedValue({ success: false, error: 'boom' }),
+    }));
+    const context = createMockRunContext();
+
+    await manager.runEvent('interactive', context);
+    await manager.runEvent('interactive', context);
+
+    expect(manager.getPlugin('live')!.handler).toHaveBeenCalledTimes(2);
+    expect(manager.getPlugin('flaky')!.handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates by document or plugin', async () => {
+    const context = createMockRunContext();
+    await manager.runEvent('interactive', context);
+
+    expect(manager.invalidateCache({ documentId: 'other-doc' })).toBe(0);
+    expect(manager.invalidateCache({ pluginName: 'orphans' })).toBe(1);
+    await manager.runEvent('interactive', context);
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    expect(manager.invalidateCache({ documentId: 'doc-1' })).toBe(1);
+    await manager.runEvent('interactive', context, { cache: false });
+    await manager.runEvent('interactive', context);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('is off by default', async () => {
+    const uncached = new VdomPluginManager();
+    const plugin = createMockPlugin({ runsOn: ['interactive'] });
+    uncached.register(plugin);
+    await uncached.runEvent('interactive', createMockRunContext());
+    await uncached.runEvent('interactive', createMockRunContext());
+
+    expect(plugin.handler).toHaveBeenCalledTimes(2);
+    expect(uncached.invalidateCache()).toBe(0);
+  });
+});
+
+describe('VdomPluginManager - Mutation batches', () => {
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    manager = new VdomPluginManager({ mutationDelayMs: 20 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('debounces rapid edits into one run with ctx.mutations', async () => {
+    const handler = vi.fn().mockResolvedValue({ success: true });
+    manager.register(createMockPlugin({ runsOn: ['nodeAdded', 'nodeUpdated'], handler }));
+    const context = createMockRunContext();
+
+    manager.queueMutation({ type: 'added', node: createMockNode({ id: 'a' }) }, context);
+    await vi.advanceTimersByTimeAsync(10);
+    manager.queueMutation(
+      { type: 'updated', node: createMockNode({ id: 'b', pageNumber: 2 }), before: { type: 'text', bbox: { x1: 0, y1: 0, x2: 1, y2: 1 }, pageNumber: 2 } },
+      context
+    );
+    await vi.advanceTimersByTimeAsync(10);
+    expect(handler).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(20);
+    expect(handler).toHaveBeenCalledTimes(1);
+    const ctx = handler.mock.calls[0][0] as PluginContext;
+    expect(ctx.event).toBe('nodeAdded');
+    expect(ctx.mutations!.added.map((n) => n.id)).toEqual(['a']);
+    expect(ctx.mutations!.updated[0].after.type).toBe('table');
+    expect(ctx.mutations!.pages).toEqual([1, 2]);
+  });
+
+  it('only runs plugins subscribed to the batch events', async () => {
+    manager.register(createMockPlugin({ name: 'removals', runsOn: ['nodeRemoved'] }));
+    manager.register(createMockPlugin({ name: 'interactive', runsOn: ['interactive'] }));
+
+    manager.queueMutation({ type: 'removed', node: createMockNode() }, createMockRunContext());
+    const results = await manager.flushMutations();
+
+    expect([...results.keys()]).toEqual(['removals']);
+    expect(await manager.flushMutations()).toEqual(new Map());
+  });
+
+  it('flushes a pending batch when edits switch documents', async () => {
+    const handler = vi.fn().mockResolvedValue({ success: true });
+    manager.register(createMockPlugin({ runsOn: ['nodeAdded'], handler }));
+    const other = createMockRunContext();
+
+    manager.queueMutation({ type: 'added', node: createMockNode() }, createMockRunContext());
+    manager.queueMutation({ type: 'added', node: createMockNode() }, { ...other, document: { ...other.document, id: 'doc-2' } });
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(handler.mock.calls.map(([ctx]) => ctx.document.id)).toEqual(['doc-1', 'doc-2']);
+  });
+
+  it('lets built-in detectors recompute only touched pages', async () => {
+    const messages: string[] = [];
+    const logged = new VdomPluginManager({ mutationDelayMs: 20 });
+    logged.on('plugin:log', (entry) => messages.push(entry.message));
+    const orphanDetector = defaultPlugins.find((p) => p.name === 'orphan-detector')!;
+    logged.register(orphanDetector);
+    const nodes = [createMockNode({ id: 'a', pageNumber: 1 }), createMockNode({ id: 'b', pageNumber: 2 })];
+    const context = createMockRunContext(nodes);
+
+    await logged.runEvent('interactive', context);
+    logged.queueMutation({ type: 'added', node: nodes[1] }, context);
+    await logged.flushMutations();
+    logged.unregister('orphan-detector');
+
+    const summaries = messages.filter((m) => m.startsWith('Detected'));
+    expect(summaries[0]).toContain('recomputed 2 of 2 pages');
+    expect(summaries[1]).toContain('recomputed 1 of 2 pages');
+  });
+
+  it('keeps page state per manager and starts over after a missed batch', async () => {
+    const orphanDetector = defaultPlugins.find((p) => p.name === 'orphan-detector')!;
+    const nodes = [createMockNode({ id: 'a', pageNumber: 1 }), createMockNode({ id: 'b', pageNumber: 2 })];
+    const context = createMockRunContext(nodes);
+    const managers = [new VdomPluginManager({ mutationDelayMs: 20 }), new VdomPluginManager({ mutationDelayMs: 20 })];
+    const summaries = managers.map((m) => {
+      const messages: string[] = [];
+      m.on('plugin:log', (entry) => entry.message.startsWith('Detected') && messages.push(entry.message));
+      m.register(orphanDetector);
+      return messages;
+    });
+    const [first, second] = managers;
+
+    await first.runEvent('interactive', context);
+    first.disable('orphan-detector');
+    const before = { type: 'table', bbox: nodes[0].bbox, pageNumber: 1 };
+    first.queueMutation({ type: 'updated', node: nodes[0], before }, context);
+    await first.flushMutations();
+    first.enable('orphan-detector');
+    first.queueMutation({ type: 'added', node: nodes[1] }, context);
+    await first.flushMutations();
+
+    // Nothing carried over from the first manager
+    second.queueMutation({ type: 'added', node: nodes[1] }, context);
+    await second.flushMutations();
+    managers.forEach((m) => m.unregister('orphan-detector'));
+
+    expect(summaries[0]).toHaveLength(2);
+    expect(summaries[0][1]).toContain('recomputed 2 of 2 pages');
+    expect(summaries[1]).toHaveLength(1);
+    expect(summaries[1][0]).toContain('recomputed 2 of 2 pages');
+  });
+
+  it('drops queued mutations on clear()', async () => {
+    manager.queueMutation({ type: 'added', node: createMockNode() }, createMockRunContext());
+    manager.clear();
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(await manager.flushMutations()).toEqual(new Map());
+  });
+});
+
+describe('VdomPluginManager - Lifecycle dispatch', () => {
+  let manager: VdomPluginManager;
+  let context: PluginRunContext;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+    context = createMockRunContext();
+  });
+
+  it('dispatches lifecycle events as readyState changes', async () => {
+    const loading = createMockPlugin({ name: 'loading', runsOn: ['loading'] });
+    const interactive = createMockPlugin({ name: 'interactive', runsOn: ['interactive'] });
+    const complete = createMockPlugin({ name: 'complete', runsOn: ['complete'] });
+    [loading, interactive, complete].forEach((p) => manager.register(p));
+
+    manager.bindDocument(() => context);
+    await manager.whenIdle();
+    expect(loading.handler).toHaveBeenCalledTimes(1);
+    expect(interactive.handler).not.toHaveBeenCalled();
+
+    // Skipping interactive still runs it, in order
+    manager.setReadyState(VdomReadyState.COMPLETE);
+    await manager.whenIdle();
+    expect(interactive.handler).toHaveBeenCalledTimes(1);
+    expect(complete.handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing without a bound document', async () => {
+    const plugin = createMockPlugin({ runsOn: ['interactive'] });
+    manager.register(plugin);
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    await manager.whenIdle();
+
+    expect(plugin.handler).not.toHaveBeenCalled();
+  });
+
+  it('gives late plugins a catch-up run for reached states', async () => {
+    const early = createMockPlugin({ name: 'early', runsOn: ['loading', 'interactive'] });
+    manager.register(early);
+    manager.bindDocument(() => context);
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    await manager.whenIdle();
+
+    const dispatched = vi.fn();
+    manager.on('lifecycle:dispatched', dispatched);
+    const late = createMockPlugin({ name: 'late', runsOn: ['loading', 'interactive', 'complete'] });
+    manager.register(late);
+    await manager.whenIdle();
+
+    expect(late.handler).toHaveBeenCalledTimes(2);
+    expect((late.handler as ReturnType<typeof vi.fn>).mock.calls.map(([ctx]) => ctx.event)).toEqual([
+      'loading',
+      'interactive',
+    ]);
+    expect(early.handler).toHaveBeenCalledTimes(2);
+    expect(dispatched.mock.calls.map(([d]) => [d.event, d.catchUp, [...d.results.keys()]])).toEqual([
+      ['loading', true, ['late']],
+      ['interactive', true, ['late']],
+    ]);
+  });
+
+  it('catches up newly enabled plugins with upstream results from the dispatch', async () => {
+    manager.register(createMockPlugin({
+      name: 'tables',
+      runsOn: ['interactive'],
+      handler: vi.fn().mockResolvedValue({ success: true, exports: { count: 3 } }),
+    }));
+    const summary = vi.fn(async (ctx: PluginContext): Promise<PluginResult> => ({
+      success: true,
+      data: { stats: { count: ctx.getResult<{ count: number }>('tables')?.result.exports?.count ?? 0 } },
+    }));
+    manager.register(createMockPlugin({
+      name: 'summary',
+      runsOn: ['interactive'],
+      dependencies: ['tables'],
+      defaultEnabled: false,
+      handler: summary,
+    }));
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    manager.bindDocument(() => context);
+    await manager.whenIdle();
+    expect(summary).not.toHaveBeenCalled();
+
+    manager.enable('summary');
+    await manager.whenIdle();
+
+    expect(summary).toHaveBeenCalledTimes(1);
+    expect(await summary.mock.results[0].value).toEqual({ success: true, data: { stats: { count: 3 } } });
+    expect(manager.getPlugin('tables')!.handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts over when readyState goes back to loading', async () => {
+    const plugin = createMockPlugin({ runsOn: ['interactive'] });
+    manager.register(plugin);
+    manager.bindDocument(() => context);
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    manager.setReadyState(VdomReadyState.LOADING);
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    await manager.whenIdle();
+
+    expect(plugin.handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops dispatching once unbound', async () => {
+    const plugin = createMockPlugin({ runsOn: ['interactive'] });
+    manager.register(plugin);
+    const unbind = manager.bindDocument(() => context);
+    unbind();
+    manager.setReadyState(VdomReadyState.INTERACTIVE);
+    await manager.whenIdle();
+
+    expect(plugin.handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('VdomPluginManager - Permissions', () => {
+  const fetchImpl = vi.fn();
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    fetchImpl.mockReset().mockResolvedValue(new Response('{}'));
+    manager = new VdomPluginManager({ fetch: fetchImpl });
+  });
+
+  it('lets ctx.fetch through to granted origins with the run signal', async () => {
+    manager.register(createMockPlugin({
+      runsOn: ['interactive'],
+      permissions: { network: ['https://*.example.com', 'self'] },
+      handler: async (ctx) => {
+        await ctx.fetch('https://api.example.com/v1');
+        await ctx.fetch('/api/local');
+        return { success: true };
+      },
+    }));
+
+    const results = await manager.runEvent('interactive', createMockRunContext());
+
+    expect(results.get('test-plugin')!.success).toBe(true);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(fetchImpl.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('rejects other origins and emits permission:denied', async () => {
+    const denied = vi.fn();
+    const errors = vi.fn();
+    manager.on('permission:denied', denied);
+    manager.on('plugin:error', errors);
+    manager.register(createMockPlugin({
+      runsOn: ['interactive'],
+      permissions: { network: ['https://*.example.com'] },
+      handler: async (ctx) => {
+        await ctx.fetch('https://example.com.evil.io/collect');
+        return { success: true };
+      },
+    }));
+
+    const results = await manager.runEvent('interactive', createMockRunContext());
+
+    expect(fetchImpl).not.toHaveBeenCalled();
+    expect(errors.mock.calls[0][0].error).toBeInstanceOf(PluginPermissionError);
+    expect(results.get('test-plugin')!.error).toBe(
+      'Plugin "test-plugin" was not granted network access to https://example.com.evil.io'
+    );
+    expect(denied).toHaveBeenCalledWith({
+      name: 'test-plugin',
+      capability: 'network',
+      detail: 'https://example.com.evil.io',
+    });
+  });
+
+  it('grants what the host policy returns', async () => {
+    const policy = vi.fn((_plugin: VdomPlugin, requested) => ({ ...requested, network: [] }));
+    manager = new VdomPluginManager({ fetch: fetchImpl, permissionPolicy: policy });
+    const plugin = createMockPlugin({ permissions: { network: ['*'], clipboard: true } });
+    manager.register(plugin);
+
+    expect(policy).toHaveBeenCalledWith(plugin, { network: ['*'], clipboard: true });
+    expect(manager.getGrantedPermissions('test-plugin')).toEqual({ network: [], clipboard: true });
+
+    manager.unregister('test-plugin');
+    expect(manager.getGrantedPermissions('test-plugin')).toBeUndefined();
+  });
+
+  it('emits permission:narrowed when the policy withholds requested permissions', () => {
+    const narrowed = vi.fn();
+    manager = new VdomPluginManager({
+      permissionPolicy: (_plugin, requested) => ({ network: ['self'], mutation: requested.mutation }),
+    });
+    manager.on('permission:narrowed', narrowed);
+    const permissions = { network: ['self', 'https://api.example.com'], clipboard: true };
+    manager.register(createMockPlugin({ permissions }));
+    manager.register(createMockPlugin({ name: 'modest', permissions: { network: ['self'] } }));
+
+    expect(narrowed).toHaveBeenCalledOnce();
+    expect(narrowed).toHaveBeenCalledWith({
+      name: 'test-plugin',
+      requested: { network: ['self', 'https://api.example.com'], clipboard: true },
+      granted: { network: ['self'], mutation: undefined },
+      withheld: { network: ['https://api.example.com'], clipboard: true },
+    });
+  });
+
+  it('writes to the clipboard only with the clipboard grant', async () => {
+    const clipboard = { writeText: vi.fn().mockResolvedValue(undefined) };
+    const denied = vi.fn();
+    manager = new VdomPluginManager({ clipboard });
+    manager.on('permission:denied', denied);
+    const copy = createMockCommand({
+      handler: async (ctx) => {
+        await ctx.writeClipboard('| a | b |');
+        return { success: true, content: 'copied' };
+      },
+    });
+    manager.register(createMockPlugin({ name: 'granted', permissions: { clipboard: true }, commands: [copy] }));
+    manager.register(createMockPlugin({ name: 'ungranted', commands: [copy] }));
+
+    expect((await manager.executeCommand('granted', 'test-cmd', createCommandContext())).success).toBe(true);
+    const result = await manager.executeCommand('ungranted', 'test-cmd', createCommandContext());
+
+    expect(clipboard.writeText).toHaveBeenCalledTimes(1);
+    expect(result.error).toBe('Plugin "ungranted" was not granted the clipboard permission');
+    expect(denied).toHaveBeenCalledWith({ name: 'ungranted', capability: 'clipboard', commandId: 'test-cmd' });
+  });
+
+  it('refuses mutating commands without the mutation grant', async () => {
+    const denied = vi.fn();
+    manager.on('permission:denied', denied);
+    const command = createMockCommand({ mutatesDocument: true });
+    manager.register(createMockPlugin({ commands: [command] }));
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', createCommandContext());
+
+    expect(result.success).toBe(false);
+    expect(command.handler).not.toHaveBeenCalled();
+    expect(denied).toHaveBeenCalledWith({ name: 'test-plugin', capability: 'mutation', commandId: 'test-cmd' });
+  });
+
+  it('grants the bundled plugins what they declare by default', () => {
+    for (const plugin of defaultPlugins) manager.register(plugin);
+
+    expect(manager.getGrantedPermissions('qwen-markdown')).toEqual({ network: ['self'] });
+    expect(manager.getGrantedPermissions('ocr-classifier')).toEqual({ mutation: true });
+  });
+});
+
+describe('VdomPluginManager - Versioning', () => {
+  let manager: VdomPluginManager;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+  });
+
+  it('accepts plugins targeting this or an older minor of the plugin API', () => {
+    expect(PLUGIN_API_VERSION).toBe('1.0.0');
+    manager.register(createMockPlugin({ name: 'a', apiVersion: '1' }));
+    manager.register(createMockPlugin({ name: 'b', apiVersion: '1.0' }));
+
+    expect(() => manager.register(createMockPlugin({ name: 'c', apiVersion: '2.0' }))).toThrow(
+      'Plugin "c" targets plugin API 2.0, but this library implements 1.0.0'
+    );
+    expect(() => manager.register(createMockPlugin({ name: 'd', apiVersion: '1.1' }))).toThrow(
+      PluginApiVersionError
+    );
+    expect(manager.getPlugin('c')).toBeUndefined();
+  });
+
+  it('rejects invalid ranges', () => {
+    expect(() => manager.register(createMockPlugin({ dependencies: ['tables@^one'] }))).toThrow(
+      'Plugin "test-plugin" has invalid version range in dependency "tables@^one"'
+    );
+  });
+
+  it('only parses versions that a dependency range is checked against', () => {
+    manager.register(createMockPlugin({ name: 'tables', version: '1.0' }));
+    manager.register(createMockPlugin({ name: 'summary', dependencies: ['tables'] }));
+
+    expect(() => manager.register(createMockPlugin({ name: 'strict', dependencies: ['tables@^1.0'] }))).toThrow(
+      'Plugin "strict" requires tables@^1.0, but tables has invalid version "1.0"'
+    );
+  });
+
+  it('checks dependency ranges against registered plugins', () => {
+    manager.register(createMockPlugin({ name: 'tables', version: '1.1.0' }));
+
+    let error: unknown;
+    try {
+      manager.register(createMockPlugin({ name: 'summary', dependencies: ['tables@^1.2'] }));
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(PluginDependencyError);
+    expect(error).toMatchObject({
+      pluginName: 'summary',
+      reason: 'incompatible',
+      dependencies: ['tables'],
+      message: 'Plugin "summary" requires tables@^1.2, but tables is 1.1.0',
+    });
+    expect(manager.getPlugin('summary')).toBeUndefined();
+  });
+
+  it('checks dependencies that register after their dependents', () => {
+    manager.register(createMockPlugin({ name: 'summary', dependencies: ['tables@^1.2'] }));
+
+    expect(() => manager.register(createMockPlugin({ name: 'tables' }))).toThrow(
+      'Plugin "summary" requires tables@^1.2, but tables has no version'
+    );
+    manager.register(createMockPlugin({ name: 'tables', version: '1.4.0' }));
+
+    expect(manager.getDependencyGraph().find((node) => node.name === 'summary')!.dependencies).toEqual(['tables']);
+  });
+
+  it('resolves ranged dependencies by name at run time', async () => {
+    const summary = vi.fn((ctx: PluginContext) => ({
+      success: true,
+      data: { stats: { tables: String(ctx.getResult<{ n: number }>('tables')?.result.exports?.n) } },
+    }));
+    manager.register(createMockPlugin({
+      name: 'tables',
+      version: '1.2.0',
+      runsOn: ['interactive'],
+      handler: vi.fn().mockResolvedValue({ success: true, exports: { n: 4 } }),
+    }));
+    manager.register(createMockPlugin({
+      name: 'summary',
+      runsOn: ['interactive'],
+      dependencies: ['tables@>=1.2.0 <2'],
+      handler: summary,
+    }));
+
+    const results = await manager.runEvent('interactive', createMockRunContext());
+
+    expect(Array.from(results.keys())).toEqual(['tables', 'summary']);
+    expect(results.get('summary')!.data).toEqual({ stats: { tables: '4' } });
+  });
+});
+
+describe('VdomPluginManager - Result assembly', () => {
+  let manager: VdomPluginManager;
+  const overlay = (id: string) => ({ id, type: 'table', bbox: { x1: 0, y1: 0, x2: 1, y2: 1 }, page: 1 });
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+  });
+
+  it('collects emits into result.data, appending per type', async () => {
+    manager.register(createMockPlugin({
+      runsOn: ['interactive'],
+      handler: (ctx) => {
+        ctx.emit('overlays', [overlay('a')]);
+        ctx.emit('stats', { tables: 1, pages: 1 });
+        ctx.emit('overlays', [overlay('b'), overlay('c')]);
+        ctx.emit('stats', { tables: 3 });
+        ctx.emit('error', { message: 'not part of data' });
+        return { success: true };
+      },
+    }));
+
+    const results = await manager.runEvent('interactive', createMockRunContext());
+
+    expect(results.get('test-plugin')).toEqual({
+      success: true,
+      data: {
+        overlays: [overlay('a'), overlay('b'), overlay('c')],
+        stats: { tables: 3, pages: 1 },
+      },
+    });
+  });
+
+  it('keeps fields the handler returned and results without emits as they are', async () => {
+    manager.register(createMockPlugin({
+      name: 'both',
+      runsOn: ['interactive'],
+      handler: (ctx) => {
+        ctx.emit('overlays', [overlay('emitted')]);
+        ctx.emit('badges', [{ nodeId: 'n1', text: 'B', color: 'gray' }]);
+        return { success: true, data: { overlays: [overlay('returned')] } };
+      },
+    }));
+    manager.register(createMockPlugin({
+      name: 'return-only',
+      runsOn: ['interactive'],
+      handler: vi.fn().mockResolvedValue({ success: true, data: { stats: { n: 1 } } }),
+    }));
+
+    const results = await manager.runEvent('interactive', createMockRunContext());
+
+    expect(results.get('both')!.data).toEqual({
+      overlays: [overlay('returned')],
+      badges: [{ nodeId: 'n1', text: 'B', color: 'gray' }],
+    });
+    expect(results.get('return-only')).toEqual({ success: true, data: { stats: { n: 1 } } });
+  });
+
+  it('returns the emitted overlays of built-in detectors, labels included', async () => {
+    const orphanDetector = defaultPlugins.find((p) => p.name === 'orphan-detector')!;
+    manager.register(orphanDetector);
+    const block = createMockNode({ id: 'block', classNames: ['ocr-block'] });
+    const context: PluginRunContext = {
+      ...createMockRunContext([block]),
+      $: (selector) => {
+        const matches = selector === 'span.ocr-block' ? [block] : [];
+        return {
+          toArray: () => matches,
+          length: matches.length,
+          first: () => matches[0],
+          filter: (predicate) => ({ toArray: () => matches.filter(predicate) }),
+        };
+      },
+    };
+
+    const results = await manager.runEvent('interactive', context);
+    manager.unregister('orphan-detector');
+
+    const data = results.get('orphan-detector')!.data!;
+    expect(data.overlays).toEqual([expect.objectContaining({ id: 'orphan-overlay-block', label: 'ORPHAN' })]);
+    expect(data.badges).toEqual([expect.objectContaining({ nodeId: 'block', tooltip: expect.any(String) })]);
+    expect(data.stats).toMatchObject({ orphanBlocks: 1 });
+  });
+});
+
+describe('VdomPluginManager - Decorations', () => {
+  let manager: VdomPluginManager;
+  let badgeCount: number;
+  let changes: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    manager = new VdomPluginManager();
+    badgeCount = 2;
+    changes = vi.fn();
+    manager.on('decorations:changed', changes);
+    manager.register(createMockPlugin({
+      name: 'badges',
+      runsOn: ['interactive'],
+      handler: (ctx) => {
+        ctx.emit('badges', Array.from({ length: badgeCount }, (_, i) => ({
+          nodeId: `node-${i + 1}`,
+          text: 'B',
+          color: 'blue' as const,
+        })));
+        return { success: true };
+      },
+    }));
+  });
+
+  it('replaces a plugin\'s decorations when it reruns', async () => {
+    const context = createMockRunContext([createMockNode({ id: 'node-1', pageNumber: 3 })]);
+    await manager.runEvent('interactive', context);
+    expect(manager.decorations.getByPage(3)).toEqual([
+      expect.objectContaining({ kind: 'badge', pluginName: 'badges', nodeId: 'node-1' }),
+    ]);
+
+    badgeCount = 1;
+    await manager.runEvent('interactive', context);
+
+    expect(manager.decorations.getAll().map((d) => d.nodeId)).toEqual(['node-1']);
+    expect(changes).toHaveBeenCalledTimes(2);
+    expect(changes.mock.calls[1][0]).toEqual({
+      added: [],
+      removed: [expect.objectContaining({ nodeId: 'node-2' })],
+      changed: [],
+    });
+  });
+
+  it('keeps decorations when a rerun fails', async () => {
+    await manager.runEvent('interactive', createMockRunContext());
+    manager.getPlugin('badges')!.handler = () => {
+      throw new Error('boom');
+    };
+
+    await manager.runEvent('interactive', createMockRunContext());
+
+    expect(manager.decorations.getAll({ pluginName: 'badges' })).toHaveLength(2);
+  });
+
+  it('clears decorations on disable and unregister', async () => {
+    await manager.runEvent('interactive', createMockRunContext());
+
+    manager.disable('badges');
+    expect(manager.decorations.getAll()).toEqual([]);
+    expect(changes.mock.calls[1][0].removed).toHaveLength(2);
+
+    manager.enable('badges');
+    await manager.runEvent('interactive', createMockRunContext());
+    manager.unregister('badges');
+    expect(manager.decorations.getAll()).toEqual([]);
+    expect(changes).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('VdomPluginManager - Tracing', () => {
+  it('records run, plugin, emit and ctx.trace spans for a traced run', async () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({
+      name: 'tables',
+      runsOn: ['interactive'],
+      handler: (ctx) =>
+        ctx.trace('scan', () => {
+          ctx.emit('stats', { tables: 1 });
+          return { success: true };
+        }),
+    }));
+    manager.register(createMockPlugin({
+      name: 'broken',
+      runsOn: ['interactive'],
+      handler: () => { throw new Error('boom'); },
+    }));
+    const tracer = new Tracer();
+
+    await manager.runEvent('interactive', createMockRunContext(), { tracer, runId: 'traced' });
+
+    const spans = tracer.getSpans();
+    const span = (name: string) => spans.find((s) => s.name === name)!;
+    expect(span('runEvent interactive').attributes).toEqual({
+      runId: 'traced',
+      documentId: 'doc-1',
+      cancelled: false,
+    });
+    expect(span('tables')).toMatchObject({
+      parentId: span('runEvent interactive').id,
+      category: 'plugin',
+      attributes: { event: 'interactive', success: true },
+    });
+    expect(span('scan').parentId).toBe(span('tables').id);
+    expect(span('emit stats')).toMatchObject({ parentId: span('scan').parentId, category: 'emit' });
+    expect(span('broken').attributes).toEqual({ event: 'interactive', success: false, error: 'boom' });
+    expect(spans.every((s) => s.end !== undefined)).toBe(true);
+
+    // Untraced runs record nothing and ctx.trace still runs the function
+    const results = await manager.runEvent('interactive', createMockRunContext());
+    expect(results.get('tables')!.success).toBe(true);
+    expect(tracer.getSpans()).toHaveLength(spans.length);
+  });
+
+  it('traces every run and command with the manager tracer', async () => {
+    const tracer = new Tracer();
+    const manager = new VdomPluginManager({ tracer, cache: true });
+    manager.register(createMockPlugin({
+      runsOn: ['interactive'],
+      handler: (ctx) => {
+        ctx.emit('stats', { n: 1 });
+        return { success: true };
+      },
+      commands: [createMockCommand({
+        handler: async (ctx) => ctx.trace('render', async () => ({ success: true, content: 'x' })),
+      })],
+    }));
+    const node = createMockNode();
+
+    await manager.runEvent('interactive', createMockRunContext([node]));
+    await manager.runEvent('interactive', createMockRunContext([node]));
+    await manager.executeCommand('test-plugin', 'test-cmd', {
+      entity: node,
+      bbox: node.bbox,
+      pageNumber: node.pageNumber,
+      documentId: 'doc-1',
+    });
+
+    const spans = tracer.getSpans();
+    const pluginSpans = spans.filter((s) => s.category === 'plugin');
+    expect(pluginSpans.map((s) => s.attributes.cached ?? false)).toEqual([false, true]);
+    expect(spans.filter((s) => s.name === 'emit stats')).toHaveLength(2);
+
+    const command = spans.find((s) => s.category === 'command')!;
+    expect(command).toMatchObject({ name: 'test-plugin:test-cmd', attributes: { entityId: 'node-1', success: true } });
+    expect(spans.find((s) => s.name === 'render')!.parentId).toBe(command.id);
+  });
+});
+
+describe('VdomPluginManager - Metrics', () => {
+  it('records plugin runs, cache hits, latency and emitted items', async () => {
+    const manager = new VdomPluginManager({ cache: true });
+    manager.register(createMockPlugin({
+      name: 'badges',
+      runsOn: ['interactive'],
+      handler: (ctx) => {
+        ctx.emit('badges', [
+          { nodeId: 'a', text: 'A', color: 'blue' as const },
+          { nodeId: 'b', text: 'B', color: 'blue' as const },
+        ]);
+        ctx.emit('stats', { n: 2 });
+        return { success: true };
+      },
+    }));
+    manager.register(createMockPlugin({
+      name: 'slow',
+      runsOn: ['interactive'],
+      timeoutMs: 10,
+      cacheable: false,
+      handler: () => new Promise(() => {}),
+    }));
+    const context = createMockRunContext([createMockNode()]);
+
+    await manager.runEvent('interactive', context);
+    await manager.runEvent('interactive', context);
+
+    // counter()/histogram() return the manager's already-registered metrics
+    const pluginRuns = manager.metrics.counter('vdom_plugin_runs_total', '');
+    const cacheHits = manager.metrics.counter('vdom_plugin_cache_hits_total', '');
+    const emitted = manager.metrics.counter('vdom_plugin_emitted_items_total', '');
+    const duration = manager.metrics.histogram('vdom_plugin_run_duration_seconds', '');
+    expect(pluginRuns.get({ plugin: 'badges', outcome: 'success' })).toBe(1);
+    expect(pluginRuns.get({ plugin: 'slow', outcome: 'timeout' })).toBe(2);
+    expect(cacheHits.get({ plugin: 'badges' })).toBe(1);
+    expect(emitted.get({ plugin: 'badges', type: 'badges' })).toBe(4);
+    expect(emitted.get({ plugin: 'badges', type: 'stats' })).toBe(2);
+    expect(duration.get({ plugin: 'slow' })!.count).toBe(2);
+    expect(duration.get({ plugin: 'slow' })!.percentiles.p50).toBeGreaterThanOrEqual(0.009);
+  });
+
+  it('records command outcomes into a shared registry', async () => {
+    const metrics = new MetricsRegistry();
+    const manager = new VdomPluginManager({ metrics });
+    manager.register(createMockPlugin({
+      commands: [
+        createMockCommand(),
+        createMockCommand({ id: 'broken', handler: vi.fn().mockRejectedValue(new Error('boom')) }),
+      ],
+    }));
+    const node = createMockNode();
+    const ctx: CommandRunContext = { entity: node, bbox: node.bbox, pageNumber: node.pageNumber, documentId: 'doc-1' };
+
+    await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+    await manager.executeCommand('test-plugin', 'broken', ctx);
+    const controller = new AbortController();
+    controller.abort();
+    await manager.executeCommand('test-plugin', 'test-cmd', ctx, { signal: controller.signal });
+
+    const executions = metrics.counter('vdom_command_executions_total', '');
+    expect(manager.metrics).toBe(metrics);
+    expect(executions.get({ plugin: 'test-plugin', command: 'test-cmd', outcome: 'success' })).toBe(1);
+    expect(executions.get({ plugin: 'test-plugin', command: 'test-cmd', outcome: 'cancelled' })).toBe(1);
+    expect(executions.get({ plugin: 'test-plugin', command: 'broken', outcome: 'error' })).toBe(1);
+    expect(metrics.toPrometheus()).toContain(
+      'vdom_command_duration_seconds_count{plugin="test-plugin",command="broken"} 1'
+    );
+  });
+});
+
+describe('VdomPluginManager - Failure policy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('quarantines a failing plugin and retries it after the cool-off', async () => {
+    const manager = new VdomPluginManager({ failurePolicy: { maxFailures: 2, windowMs: 1000, cooldownMs: 5000 } });
+    const handler = vi.fn().mockRejectedValue(new Error('boom'));
+    manager.register(createMockPlugin({ runsOn: ['interactive'], handler }));
+    const quarantined = vi.fn();
+    const restored = vi.fn();
+    manager.on('plugin:quarantined', quarantined);
+    manager.on('plugin:restored', restored);
+    const context = createMockRunContext();
+
+    await manager.runEvent('interactive', context);
+    await manager.runEvent('interactive', context);
+    expect(quarantined).toHaveBeenCalledWith({
+      name: 'test-plugin',
+      failures: 2,
+      error: 'boom',
+      since: 0,
+      retryAt: 5000,
+    });
+
+    const skipped = await manager.runEvent('interactive', context);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(skipped.get('test-plugin')!.errorDetails).toBeInstanceOf(PluginQuarantinedError);
+
+    vi.setSystemTime(5000);
+    handler.mockResolvedValue({ success: true });
+    const retried = await manager.runEvent('interactive', context);
+    expect(retried.get('test-plugin')!.success).toBe(true);
+    expect(restored).toHaveBeenCalledWith({ name: 'test-plugin' });
+    expect(manager.getQuarantine('test-plugin')).toBeUndefined();
+  });
+
+  it('quarantines commands separately and supports manual reset', async () => {
+    const manager = new VdomPluginManager({ failurePolicy: { maxFailures: 1 } });
+    const handler = vi.fn().mockRejectedValue(new Error('503'));
+    manager.register(createMockPlugin({ commands: [createMockCommand({ handler })] }));
+    const node = createMockNode();
+    const ctx: CommandRunContext = { entity: node, bbox: node.bbox, pageNumber: node.pageNumber, documentId: 'doc-1' };
+    const restored = vi.fn();
+    manager.on('plugin:restored', restored);
+
+    await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+    const blocked = await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(blocked.error).toBe(
+      'Command "test-cmd" of plugin "test-plugin" is quarantined after 1 consecutive failures ' +
+        '(last: 503); retrying after 1970-01-01T00:00:30.000Z'
+    );
+    expect(manager.getQuarantine('test-plugin')).toBeUndefined();
+    expect(manager.getQuarantine('test-plugin', 'test-cmd')).toMatchObject({ commandId: 'test-cmd' });
+
+    expect(manager.resetQuarantine('test-plugin')).toBe(true);
+    expect(restored).toHaveBeenCalledWith({ name: 'test-plugin', commandId: 'test-cmd' });
+    handler.mockResolvedValue({ success: true, content: 'ok' });
+    expect((await manager.executeCommand('test-plugin', 'test-cmd', ctx)).success).toBe(true);
+  });
+
+  it('does nothing without a failure policy', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn().mockRejectedValue(new Error('boom'));
+    manager.register(createMockPlugin({ runsOn: ['interactive'], handler }));
+
+    for (let i = 0; i < 10; i++) await manager.runEvent('interactive', createMockRunContext());
+
+    expect(handler).toHaveBeenCalledTimes(10);
+    expect(manager.resetQuarantine('test-plugin')).toBe(false);
+  });
+});
+
+describe('VdomPluginManager - Command retry', () => {
+  const node = createMockNode();
+  const ctx: CommandRunContext = { entity: node, bbox: node.bbox, pageNumber: node.pageNumber, documentId: 'doc-1' };
+
+  it('retries retryable failures with backoff and emits command:retry', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn()
+      .mockResolvedValueOnce({ success: false, error: 'API error: 429', retryable: true })
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValueOnce({ success: true, content: 'ok' });
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({
+        handler,
+        retry: {
+          initialDelayMs: 5,
+          jitter: false,
+          retryOn: ({ result, error }) => result?.retryable === true || (error as { code?: string })?.code === 'ECONNRESET',
+        },
+      })],
+    }));
+    const retries = vi.fn();
+    const completed = vi.fn();
+    manager.on('command:retry', retries);
+    manager.on('command:completed', completed);
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+
+    expect(result).toEqual({ success: true, content: 'ok' });
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(retries.mock.calls.map(([data]) => data)).toEqual([
+      { pluginName: 'test-plugin', commandId: 'test-cmd', attempt: 1, delayMs: 5, error: 'API error: 429' },
+      { pluginName: 'test-plugin', commandId: 'test-cmd', attempt: 2, delayMs: 10, error: 'socket hang up' },
+    ]);
+    expect(completed).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the last failure once attempts run out', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn().mockResolvedValue({ success: false, error: '503', retryable: true });
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({ handler, retry: { maxAttempts: 2, initialDelayMs: 1 } })],
+    }));
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ success: false, error: '503', retryable: true });
+  });
+
+  it('gives each attempt its own timeout and stops retrying on cancel', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn().mockImplementation(() => new Promise(() => {}));
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({
+        handler,
+        timeoutMs: 10,
+        retry: { maxAttempts: 5, initialDelayMs: 1000, jitter: false, retryOn: ({ error }) => error instanceof PluginTimeoutError },
+      })],
+    }));
+    const retries = vi.fn();
+    manager.on('command:retry', retries);
+
+    const pending = manager.executeCommand('test-plugin', 'test-cmd', ctx);
+    await vi.waitFor(() => expect(retries).toHaveBeenCalledTimes(1));
+    manager.cancelCommand('test-plugin');
+    const result = await pending;
+
+    expect(retries.mock.calls[0][0].error).toBe('Command "test-cmd" of plugin "test-plugin" timed out after 10ms');
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(result.error).toBe('Command "test-cmd" of plugin "test-plugin" was cancelled');
+  });
+});
+
+describe('VdomPluginManager - Command batches', () => {
+  const contextFor = (id: string): CommandRunContext => {
+    const node = createMockNode({ id });
+    return { entity: node, bbox: node.bbox, pageNumber: node.pageNumber, documentId: 'doc-1' };
+  };
+
+  it('runs with bounded concurrency and reports progress', async () => {
+    const manager = new VdomPluginManager();
+    let running = 0;
+    let maxRunning = 0;
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({
+        handler: async (ctx) => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+          return ctx.entity.id === 't3' ? { success: false, error: 'no table' } : { success: true, content: ctx.entity.id };
+        },
+      })],
+    }));
+    const progress = vi.fn();
+    manager.on('command:progress', progress);
+
+    const results = await manager.executeCommandBatch(
+      'test-plugin',
+      'test-cmd',
+      ['t1', 't2', 't3', 't4', 't5', 't1'].map(contextFor),
+      { concurrency: 2, batchId: 'tables' }
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(Array.from(results.keys())).toEqual(['t1', 't2', 't3', 't4', 't5']);
+    expect(results.get('t3')).toEqual({ success: false, error: 'no table' });
+    expect(progress).toHaveBeenCalledTimes(5);
+    expect(progress.mock.calls[4][0]).toMatchObject({
+      batchId: 'tables',
+      pluginName: 'test-plugin',
+      commandId: 'test-cmd',
+      done: 5,
+      total: 5,
+      failures: 1,
+    });
+  });
+
+  it('cancels part-way through without starting the remaining entities', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn().mockImplementation(() => new Promise(() => {}));
+    manager.register(createMockPlugin({ commands: [createMockCommand({ handler })] }));
+
+    const pending = manager.executeCommandBatch('test-plugin', 'test-cmd', ['a', 'b', 'c'].map(contextFor), {
+      concurrency: 1,
+      batchId: 'b1',
+    });
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+    expect(manager.cancelBatch('b1')).toBe(true);
+    const results = await pending;
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(Array.from(results.values()).map((r) => r.error)).toEqual(
+      Array(3).fill('Command "test-cmd" of plugin "test-plugin" was cancelled')
+    );
+    expect(manager.cancelBatch('b1')).toBe(false);
+  });
+
+  it('cancels in-flight batches on clear()', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn().mockImplementation(() => new Promise(() => {}));
+    manager.register(createMockPlugin({ commands: [createMockCommand({ handler })] }));
+
+    const pending = manager.executeCommandBatch('test-plugin', 'test-cmd', ['a', 'b'].map(contextFor), {
+      batchId: 'b1',
+    });
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    manager.clear();
+    const results = await pending;
+
+    expect(Array.from(results.values()).every((r) => !r.success)).toBe(true);
+    expect(manager.cancelBatch('b1')).toBe(false);
+  });
+
+  it('refuses commands that opt out of batch execution', async () => {
+    const manager = new VdomPluginManager();
+    const handler = vi.fn();
+    manager.register(createMockPlugin({ commands: [createMockCommand({ handler, batch: false })] }));
+
+    const results = await manager.executeCommandBatch('test-plugin', 'test-cmd', [contextFor('a')]);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(results.get('a')!.error).toBe('Command "test-cmd" of plugin "test-plugin" does not support batch execution');
+  });
+});
+
+describe('VdomPluginManager - Streaming commands', () => {
+  const node = createMockNode();
+  const ctx: CommandRunContext = { entity: node, bbox: node.bbox, pageNumber: node.pageNumber, documentId: 'doc-1' };
+
+  it('still accepts results returned synchronously', async () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({ handler: () => ({ success: true, content: 'sync' }) })],
+    }));
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+
+    expect(result).toEqual({ success: true, content: 'sync' });
+  });
+
+  it('relays chunks as command:chunk events and assembles the result', async () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({
+        async *handler() {
+          yield '# Title';
+          yield '\n\nBody';
+          return { success: true, format: 'markdown' as const, metadata: { tokens: 2 } };
+        },
+      })],
+    }));
+    const chunks = vi.fn();
+    const completed = vi.fn();
+    manager.on('command:chunk', chunks);
+    manager.on('command:completed', completed);
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+
+    expect(result).toEqual({ success: true, content: '# Title\n\nBody', format: 'markdown', metadata: { tokens: 2 } });
+    expect(chunks.mock.calls.map(([data]) => data)).toEqual([
+      { pluginName: 'test-plugin', commandId: 'test-cmd', entityId: 'node-1', attempt: 1, index: 0, chunk: '# Title' },
+      { pluginName: 'test-plugin', commandId: 'test-cmd', entityId: 'node-1', attempt: 1, index: 1, chunk: '\n\nBody' },
+    ]);
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ result }));
+  });
+
+  it('closes the stream when the command is cancelled mid-stream', async () => {
+    const manager = new VdomPluginManager();
+    let closed = false;
+    manager.register(createMockPlugin({
+      commands: [createMockCommand({
+        async *handler(commandCtx) {
+          try {
+            yield 'partial';
+            if (!commandCtx.signal.aborted) {
+              await new Promise((resolve) => commandCtx.signal.addEventListener('abort', resolve));
+            }
+            yield 'never delivered';
+          } finally {
+            closed = true;
+          }
+        },
+      })],
+    }));
+    const chunks = vi.fn();
+    manager.on('command:chunk', chunks);
+    manager.on('command:chunk', () => manager.cancelCommand('test-plugin'));
+
+    const result = await manager.executeCommand('test-plugin', 'test-cmd', ctx);
+
+    expect(result.error).toBe('Command "test-cmd" of plugin "test-plugin" was cancelled');
+    expect(chunks).toHaveBeenCalledTimes(1);
+    await vi.waitFor(() => expect(closed).toBe(true));
+  });
+});
+
+describe('VdomPluginManager - Shortcuts', () => {
+  const extract = (overrides: Partial<PluginCommand> = {}) =>
+    createMockCommand({ id: 'extract', contexts: ['table'], shortcut: 'Mod+M', ...overrides });
+
+  it('resolves a key event for the focused entity to its command', () => {
+    const manager = new VdomPluginManager({ shortcutPlatform: 'mac' });
+    manager.register(createMockPlugin({ commands: [extract(), createMockCommand({ id: 'other' })] }));
+
+    const command = manager.resolveShortcut({ key: 'm', code: 'KeyM', metaKey: true }, createMockNode());
+
+    expect(command).toMatchObject({ pluginName: 'test-plugin', id: 'extract', shortcut: 'Cmd+M' });
+    expect(manager.resolveShortcut({ key: 'm', code: 'KeyM', ctrlKey: true }, createMockNode())).toBeUndefined();
+    expect(manager.resolveShortcut({ key: 'm', code: 'KeyM', metaKey: true }, createMockNode({ type: 'figure' })))
+      .toBeUndefined();
+  });
+
+  it('reports conflicts between plugins when they register', () => {
+    const manager = new VdomPluginManager({ shortcutPlatform: 'other' });
+    const conflicts = vi.fn();
+    manager.on('shortcut:conflict', conflicts);
+    manager.register(createMockPlugin({ name: 'a', commands: [extract()] }));
+    manager.register(createMockPlugin({ name: 'b', commands: [extract({ id: 'figures', contexts: ['figure'] })] }));
+    expect(conflicts).not.toHaveBeenCalled();
+
+    manager.register(createMockPlugin({ name: 'c', commands: [extract({ id: 'copy', contexts: ['all'], shortcut: 'ctrl+m' })] }));
+
+    const conflict = {
+      accelerator: 'Ctrl+M',
+      commands: [
+        { pluginName: 'a', commandId: 'extract' },
+        { pluginName: 'b', commandId: 'figures' },
+        { pluginName: 'c', commandId: 'copy' },
+      ],
+    };
+    expect(conflicts).toHaveBeenCalledOnce();
+    expect(conflicts).toHaveBeenCalledWith(conflict);
+    expect(manager.getShortcutConflicts()).toEqual([conflict]);
+  });
+
+  it('rejects plugins declaring shortcuts that do not parse', () => {
+    const manager = new VdomPluginManager();
+    expect(() => manager.register(createMockPlugin({ commands: [extract({ shortcut: 'Ctrl+' })] }))).toThrow(
+      'Plugin "test-plugin" command "extract": Invalid shortcut "Ctrl+": missing key'
+    );
+  });
+
+  it('applies user overrides to resolution, command lists and conflicts', () => {
+    const manager = new VdomPluginManager({ shortcutPlatform: 'other' });
+    manager.register(createMockPlugin({
+      commands: [extract(), createMockCommand({ id: 'copy', contexts: ['table'], shortcut: 'Ctrl+C' })],
+    }));
+    const changed = vi.fn();
+    manager.on('shortcut:changed', changed);
+
+    const conflicts = manager.setShortcut('test-plugin', 'extract', 'ctrl+c');
+
+    expect(conflicts).toEqual([{
+      accelerator: 'Ctrl+C',
+      commands: [{ pluginName: 'test-plugin', commandId: 'extract' }, { pluginName: 'test-plugin', commandId: 'copy' }],
+    }]);
+    expect(changed).toHaveBeenCalledWith({ pluginName: 'test-plugin', commandId: 'extract', accelerator: 'Ctrl+C' });
+
+    manager.setShortcut('test-plugin', 'copy', null);
+    expect(manager.getCommandsForEntity(createMockNode()).map((c) => [c.id, c.shortcut])).toEqual([
+      ['extract', 'Ctrl+C'],
+      ['copy', undefined],
+    ]);
+    expect(manager.resolveShortcut({ key: 'c', code: 'KeyC', ctrlKey: true }, createMockNode())?.id).toBe('extract');
+    expect(manager.getShortcuts()).toEqual([
+      { pluginName: 'test-plugin', commandId: 'extract', accelerator: 'Ctrl+C', defaultAccelerator: 'Ctrl+M', overridden: true },
+      { pluginName: 'test-plugin', commandId: 'copy', accelerator: null, defaultAccelerator: 'Ctrl+C', overridden: true },
+    ]);
+
+    manager.resetShortcut('test-plugin');
+    expect(changed).toHaveBeenLastCalledWith({ pluginName: 'test-plugin', commandId: 'copy', accelerator: 'Ctrl+C' });
+    expect(manager.getShortcuts().every((binding) => !binding.overridden)).toBe(true);
+  });
+
+  it('persists overrides and restores them on register', async () => {
+    const store = new MemorySettingsStore();
+    const manager = new VdomPluginManager({ settingsStore: store, shortcutPlatform: 'other' });
+    const commands = () => [extract(), createMockCommand({ id: 'copy', shortcut: 'Ctrl+K' })];
+    manager.register(createMockPlugin({ commands: commands() }));
+
+    manager.setShortcut('test-plugin', 'extract', 'Alt+Shift+E');
+    manager.setShortcut('test-plugin', 'copy', null);
+    await manager.flushSettings();
+
+    expect(store.read()?.plugins['test-plugin'].shortcuts).toEqual({ extract: 'Alt+Shift+E', copy: null });
+
+    const restored = new VdomPluginManager({ settingsStore: store, shortcutPlatform: 'other' });
+    restored.register(createMockPlugin({ commands: commands() }));
+    expect(restored.getShortcuts().map((binding) => binding.accelerator)).toEqual(['Alt+Shift+E', null]);
+  });
+
+  it('drops the override when a command is bound back to its default', async () => {
+    const store = new MemorySettingsStore();
+    const manager = new VdomPluginManager({ settingsStore: store, shortcutPlatform: 'other' });
+    manager.register(createMockPlugin({ commands: [extract()] }));
+
+    manager.setShortcut('test-plugin', 'extract', 'Alt+E');
+    manager.setShortcut('test-plugin', 'extract', 'Ctrl+M');
+    await manager.flushSettings();
+
+    expect(store.read()?.plugins['test-plugin']).toEqual({ enabled: true, config: {} });
+    expect(() => manager.setShortcut('test-plugin', 'missing', 'Alt+E')).toThrow(
+      'Command "missing" not found in plugin "test-plugin"'
+    );
+  });
+});
+
+describe('VdomPluginManager - Command search', () => {
+  const commands = () => [
+    createMockCommand({ id: 'markdown', title: 'Extract %s as Markdown' }),
+    createMockCommand({ id: 'json', title: 'Extract %s as JSON' }),
+    createMockCommand({ id: 'copy', title: 'Copy text' }),
+    createMockCommand({ id: 'figure', title: 'Describe figure', contexts: ['figure'] }),
+  ];
+  const entity = createMockNode({ attributes: { title: 'Revenue' } });
+  const ctx: CommandRunContext = { entity, bbox: entity.bbox, pageNumber: entity.pageNumber, documentId: 'doc-1' };
+
+  it('returns matching commands for the entity with interpolated titles and highlights', () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({ commands: commands() }));
+
+    const results = manager.searchCommands('ext json', entity);
+
+    expect(results).toEqual([
+      {
+        command: expect.objectContaining({ pluginName: 'test-plugin', id: 'json' }),
+        title: 'Extract Revenue as JSON',
+        highlights: [{ start: 0, end: 3 }, { start: 19, end: 23 }],
+        score: expect.any(Number),
+      },
+    ]);
+    expect(manager.searchCommands('describe', entity)).toEqual([]);
+  });
+
+  it('uses the entityTitle option for %s', () => {
+    const manager = new VdomPluginManager({ entityTitle: (node) => `${node.type} ${node.id}` });
+    manager.register(createMockPlugin({ commands: commands() }));
+
+    expect(manager.searchCommands('markdown', entity)[0].title).toBe('Extract table node-1 as Markdown');
+  });
+
+  it('ranks recently and frequently used commands first', async () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({ commands: commands() }));
+    expect(manager.searchCommands('', entity).map((r) => r.command.id)).toEqual(['markdown', 'json', 'copy']);
+
+    await manager.executeCommand('test-plugin', 'copy', ctx);
+    await manager.executeCommand('test-plugin', 'copy', ctx);
+    await manager.executeCommand('test-plugin', 'json', ctx);
+
+    expect(manager.searchCommands('', entity).map((r) => r.command.id)).toEqual(['copy', 'json', 'markdown']);
+    expect(manager.searchCommands('extract', entity, { limit: 1 }).map((r) => r.command.id)).toEqual(['json']);
+
+    manager.clearCommandUsage();
+    expect(manager.searchCommands('', entity).map((r) => r.command.id)).toEqual(['markdown', 'json', 'copy']);
+  });
+
+  it('counts a batch as one use', async () => {
+    const manager = new VdomPluginManager();
+    manager.register(createMockPlugin({ commands: commands() }));
+    const other = createMockNode({ id: 'node-2' });
+
+    await manager.executeCommand('test-plugin', 'json', ctx);
+    await manager.executeCommandBatch('test-plugin', 'markdown', [ctx, { ...ctx, entity: other }]);
+    await manager.executeCommand('test-plugin', 'json', ctx);
+
+    expect(manager.searchCommands('', entity).map((r) => r.command.id)).toEqual(['json', 'markdown', 'copy']);
+  });
+});
@@ -13,176 +13,1446 @@ import type {
   CommandContext,
   CommandResult,
   EntityContextType,
+  EnablePluginOptions,
+  DisablePluginOptions,
+  PluginDependencyNode,
+  RunEventOptions,
+  ExecuteCommandOptions,
+  ExecuteCommandBatchOptions,
+  VdomPluginManagerOptions,
+  PluginRunContext,
+  CommandRunContext,
+  EmittedData,
+  UpstreamResult,
+  Logger,
+  LogEntry,
+  LogFunction,
+  PluginConfigSchema,
+  ConfigFieldError,
+  PluginSettings,
+  PluginSettingsSnapshot,
+  PluginSettingsStore,
+  SettingsProfile,
+  ProfileImportReport,
+  CacheInvalidationFilter,
+  NodeMutation,
+  DocumentProvider,
+  RegisterPluginOptions,
+  PluginWorkerFactory,
+  PluginPermissions,
+  PermissionPolicy,
+  PluginFetch,
+  TraceSpan,
+  TraceAttributes,
+  InvocationOutcome,
+  PluginQuarantine,
+  CommandFailure,
+  PluginCommand,
+  ShortcutBinding,
+  ShortcutConflict,
+  ShortcutKeyEvent,
+  ShortcutPlatform,
+  CommandSearchOptions,
+  CommandSearchResult,
 } from './types';
-import { VdomReadyState, type VdomReadyStateValue } from './types';
+import {
+  VdomReadyState,
+  PLUGIN_API_VERSION,
+  type VdomReadyStateValue,
+  validatePluginConfig,
+  applyConfigDefaults,
+} from './types';
+import {
+  PluginDependencyError,
+  PluginTimeoutError,
+  PluginCancelledError,
+  PluginConfigError,
+  PluginApiVersionError,
+  PluginQuarantinedError,
+} from './errors';
+import { createLinkedController, abortAfter, raceAbort, delay } from './abort';
+import { shouldRetry, getRetryDelay } from './retry';
+import { collectCommandResult } from './command-stream';
+import { createConsoleLogger } from './logger';
+import { createSettingsSnapshot, serializeProfiles, parseProfileExport } from './settings';
+import { ResultCache, hashDocument, hashValue, type CachedEmit } from './cache';
+import { MutationQueue, getMutationEvents } from './mutations';
+import { PluginWorker, defaultWorkerFactory } from './worker';
+import { DecorationStore, isEmptyDiff } from './decorations';
+import { Tracer, noopTrace } from './tracing';
+import { MetricsRegistry, registerPluginMetrics, type PluginMetrics } from './metrics';
+import { CircuitBreaker } from './circuit-breaker';
+import {
+  acceleratorFromEvent,
+  detectShortcutPlatform,
+  findShortcutConflicts,
+  formatAccelerator,
+  normalizeAccelerator,
+  type ShortcutClaim,
+} from './shortcuts';
+import { CommandUsage, fuzzyMatch, getEntityTitle, interpolateTitle } from './command-palette';
+import {
+  type PermissionGate,
+  createGatedFetch,
+  createClipboardWriter,
+  denyPermission,
+  getWithheldPermissions,
+} from './permissions';
+import {
+  findDependencyCycle,
+  collectDependencies,
+  sortByDependencies,
+  runInDependencyOrder,
+  parseDependency,
+  getDependencyNames,
+} from './dependencies';
+import { parseVersion, isValidRange, satisfies } from './semver';
 
 type HandlerFn<E extends PluginManagerEvent> = (data: PluginManagerEventData[E]) => void;
 
+/**
+ * State shared by the plugins of one runEvent call.
+ */
+interface RunState {
+  runId: string;
+  /** A plugin runs once, on the first of these it subscribes to */
+  events: VdomLifecycleEvent[];
+  context: PluginRunContext;
+  signal: AbortSignal;
+  results: Map<string, PluginResult>;
+  emitted: Map<string, EmittedData>;
+  /** False when the caller bypassed the cache for this run */
+  useCache: boolean;
+  /** document.revision, or a content hash computed on first cache lookup */
+  revision?: string;
+  /** Plugins that already ran for this lifecycle dispatch (catch-up runs) */
+  skip?: ReadonlySet<string>;
+  tracer?: Tracer;
+  /** The run's span; plugin spans are its children */
+  span?: TraceSpan;
+}
+
+/**
+ * Results of every plugin that has run for one automatically dispatched
+ * lifecycle event. Catch-up runs extend it and read upstream results from it.
+ */
+interface LifecycleDispatch {
+  results: Map<string, PluginResult>;
+  emitted: Map<string, EmittedData>;
+}
+
+const READY_STATE_ORDER: VdomReadyStateValue[] = [
+  VdomReadyState.LOADING,
+  VdomReadyState.INTERACTIVE,
+  VdomReadyState.COMPLETE,
+];
+
+interface ActiveCommand {
+  pluginName: string;
+  commandId: string;
+  entityId: string;
+  controller: AbortController;
+}
+
 export class VdomPluginManager implements IPluginManager {
   private plugins = new Map<string, VdomPlugin>();
   private enabledPlugins = new Set<string>();
   private pluginConfigs = new Map<string, Record<string, unknown>>();
   private listeners = new Map<PluginManagerEvent, Set<HandlerFn<PluginManagerEvent>>>();
   private _readyState: VdomReadyStateValue = VdomReadyState.LOADING;
+  private readonly getDependencies = (name: string) => getDependencyNames(this.plugins.get(name)?.dependencies);
+  private readonly concurrency: number;
+  private readonly logger: Logger;
+  private activeRuns = new Map<string, AbortController>();
+  private activeCommands = new Set<ActiveCommand>();
+  private activeBatches = new Map<string, AbortController>();
+  private runCounter = 0;
+  private batchCounter = 0;
+  private readonly settingsStore?: PluginSettingsStore;
+  private readonly settingsWriteDelayMs: number;
+  private savedSettings: Record<string, PluginSettings> | null = null;
+  private profiles = new Map<string, SettingsProfile>();
+  private settingsTimer: ReturnType<typeof setTimeout> | null = null;
+  private settingsWrite: Promise<void> = Promise.resolve();
+  private readonly resultCache?: ResultCache;
+  private readonly mutationDelayMs: number;
+  private mutationQueue = new MutationQueue();
+  private mutationContext: PluginRunContext | null = null;
+  private mutationTimer: ReturnType<typeof setTimeout> | null = null;
+  private documentProvider: DocumentProvider | null = null;
+  private dispatched = new Map<VdomLifecycleEvent, LifecycleDispatch>();
+  private dispatchQueue: Promise<void> = Promise.resolve();
+  private readonly workerFactory: PluginWorkerFactory;
+  private workers = new Map<string, PluginWorker>();
+  /** Current decorations of every plugin; updated after each successful run */
+  readonly decorations = new DecorationStore();
+  private readonly permissionPolicy: PermissionPolicy;
+  private grants = new Map<string, PluginPermissions>();
+  private readonly fetchImpl: PluginFetch;
+  private readonly clipboard?: { writeText(text: string): Promise<void> };
+  private readonly tracer?: Tracer;
+  /** Invocation counts, latencies and emitted items; see registerPluginMetrics */
+  readonly metrics: MetricsRegistry;
+  private readonly pluginMetrics: PluginMetrics;
+  private readonly breaker?: CircuitBreaker;
+  private readonly shortcutPlatform: ShortcutPlatform;
+  /** User shortcut overrides by plugin, then command ID; null = unbound */
+  private shortcutOverrides = new Map<string, Record<string, string | null>>();
+  private readonly entityTitle: (entity: VdomNode) => string;
+  private commandUsage = new CommandUsage();
+  /** ctx.state of each plugin */
+  private pluginStates = new Map<string, Record<string, unknown>>();
+
+  constructor(options: VdomPluginManagerOptions = {}) {
+    this.concurrency = options.concurrency ?? Infinity;
+    this.logger = options.logger ?? createConsoleLogger('error');
+    this.settingsStore = options.settingsStore;
+    this.settingsWriteDelayMs = options.settingsWriteDelayMs ?? 250;
+    if (options.cache) {
+      this.resultCache = new ResultCache(options.cache === true ? undefined : options.cache.maxEntries);
+    }
+    this.mutationDelayMs = options.mutationDelayMs ?? 50;
+    this.workerFactory = options.workerFactory ?? defaultWorkerFactory;
+    this.permissionPolicy = options.permissionPolicy ?? ((_plugin, requested) => requested);
+    this.fetchImpl = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this.clipboard = options.clipboard ?? globalThis.navigator?.clipboard;
+    this.tracer = options.tracer;
+    this.metrics = options.metrics ?? new MetricsRegistry();
+    this.pluginMetrics = registerPluginMetrics(this.metrics);
+    if (options.failurePolicy) this.breaker = new CircuitBreaker(options.failurePolicy);
+    this.shortcutPlatform = options.shortcutPlatform ?? detectShortcutPlatform();
+    this.entityTitle = options.entityTitle ?? getEntityTitle;
+  }
+
+  get readyState(): VdomReadyStateValue {
+    return this._readyState;
+  }
+
+  /**
+   * Update readyState. With a bound document this dispatches the matching
+   * lifecycle event, plus any states skipped on the way (loading ->
+   * complete also runs interactive). Moving back to an earlier state
+   * starts a new document.
+   */
+  setReadyState(state: VdomReadyStateValue): void {
+    const previous = this._readyState;
+    this._readyState = state;
+    if (!this.documentProvider || state === previous) return;
+
+    const from = READY_STATE_ORDER.indexOf(previous);
+    const to = READY_STATE_ORDER.indexOf(state);
+    const reset = to < from;
+    const states = READY_STATE_ORDER.slice(reset ? 0 : from + 1, to + 1);
+
+    this.enqueueDispatch(async () => {
+      if (reset) this.dispatched.clear();
+      for (const event of states) await this.dispatchLifecycle(event);
+    });
+  }
+
+  /**
+   * Bind the document lifecycle events run against. Every state up to the
+   * current readyState is dispatched now and later setReadyState calls
+   * dispatch automatically. Plugins registered or enabled after a state was
+   * dispatched get a catch-up run for it, like DOMContentLoaded listeners
+   * added late. Returns a function that unbinds.
+   */
+  bindDocument(provider: DocumentProvider): () => void {
+    this.documentProvider = provider;
+    const states = READY_STATE_ORDER.slice(0, READY_STATE_ORDER.indexOf(this._readyState) + 1);
+
+    this.enqueueDispatch(async () => {
+      this.dispatched.clear();
+      for (const event of states) await this.dispatchLifecycle(event);
+    });
+
+    return () => {
+      if (this.documentProvider !== provider) return;
+      this.documentProvider = null;
+      this.dispatched.clear();
+    };
+  }
+
+  /**
+   * Resolves once queued lifecycle dispatches and catch-up runs finish.
+   */
+  whenIdle(): Promise<void> {
+    return this.dispatchQueue;
+  }
+
+  private enqueueDispatch(task: () => Promise<void>): void {
+    this.dispatchQueue = this.dispatchQueue.then(task).catch((e) => {
+      console.error('Error in lifecycle dispatch:', e);
+    });
+  }
+
+  /**
+   * Run `event` against the bound document for every subscribed plugin that
+   * has not run for it yet. The first call is the full dispatch; later
+   * calls are catch-up runs.
+   */
+  private async dispatchLifecycle(event: VdomLifecycleEvent): Promise<void> {
+    const provider = this.documentProvider;
+    if (!provider) return;
+
+    const previous = this.dispatched.get(event);
+    const dispatch = previous ?? { results: new Map(), emitted: new Map() };
+    this.dispatched.set(event, dispatch);
+
+    // Plugins that failed on unmet dependencies get another chance
+    const skip = new Set(
+      Array.from(dispatch.results)
+        .filter(([, result]) => !(result.errorDetails instanceof PluginDependencyError))
+        .map(([name]) => name)
+    );
+
+    const results = await this.startRun([event], provider(), {}, { ...dispatch, skip });
+    if (!previous || results.size > 0) {
+      this.emit('lifecycle:dispatched', { event, results, catchUp: previous !== undefined });
+    }
+  }
+
+  private scheduleCatchUp(): void {
+    if (!this.documentProvider) return;
+    this.enqueueDispatch(async () => {
+      for (const event of Array.from(this.dispatched.keys())) {
+        await this.dispatchLifecycle(event);
+      }
+    });
+  }
+
+  /**
+   * Register a plugin. With `options.worker` its handler runs in a worker
+   * that imports the plugin from `options.worker.module`; commands and
+   * cleanup still run on this thread. An enabled plugin enables its
+   * registered dependencies as enable() would.
+   */
+  register(plugin: VdomPlugin, options: RegisterPluginOptions = {}): void {
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`);
+    }
+
+    this.checkCompatibility(plugin);
+    this.checkShortcuts(plugin);
+
+    const cycle = findDependencyCycle(plugin.name, (name) =>
+      name === plugin.name ? getDependencyNames(plugin.dependencies) : this.getDependencies(name)
+    );
+    if (cycle) {
+      throw new PluginDependencyError(
+        plugin.name,
+        'cycle',
+        cycle,
+        `Plugin "${plugin.name}" creates a dependency cycle: ${cycle.join(' -> ')}`
+      );
+    }
+
+    if (plugin.configSchema) {
+      const { fieldErrors } = validatePluginConfig({}, plugin.configSchema);
+      if (fieldErrors.length > 0) {
+        throw new PluginConfigError(
+          plugin.name,
+          fieldErrors,
+          `Invalid configSchema defaults for plugin "${plugin.name}": ${fieldErrors.map((e) => e.message).join('; ')}`
+        );
+      }
+    }
+
+    const saved = this.getSavedSettings(plugin.name)[plugin.name];
+    const config = this.restoreConfig(saved?.config ?? {}, plugin.configSchema);
+    if (plugin.configSchema || saved?.config) {
+      this.pluginConfigs.set(plugin.name, config);
+    }
+
+    this.plugins.set(plugin.name, plugin);
+    this.restoreShortcuts(plugin, saved?.shortcuts ?? {});
+    const requested = plugin.permissions ?? {};
+    const granted = this.permissionPolicy(plugin, requested);
+    this.grants.set(plugin.name, granted);
+    if (options.worker) {
+      this.workers.set(
+        plugin.name,
+        new PluginWorker(
+          plugin.name,
+          options.worker,
+          this.workerFactory,
+          this.grants.get(plugin.name)!,
+          (capability, detail) => this.createPermissionGate(plugin.name).onDenied(capability, detail)
+        )
+      );
+    }
+
+    this.emit('plugin:registered', { name: plugin.name });
+    const withheld = getWithheldPermissions(requested, granted);
+    if (Object.keys(withheld).length > 0) {
+      this.emit('permission:narrowed', { name: plugin.name, requested, granted, withheld });
+    }
+
+    if (saved?.enabled ?? plugin.defaultEnabled) {
+      // Dependencies registered later are checked when the event runs
+      const enabled = this.enableWithDependencies(plugin.name, {}, true);
+      if (enabled.length > 1) this.saveSettings(enabled);
+    }
+    this.reportShortcutConflicts((pluginName) => pluginName === plugin.name);
+    if (this.enabledPlugins.has(plugin.name)) this.scheduleCatchUp();
+  }
+
+  /**
+   * Reject manifests this library or the registered plugins cannot work
+   * with: an unsupported apiVersion, malformed versions or ranges, and
+   * dependency ranges not satisfied in either direction. Dependencies
+   * registered later are checked when they register.
+   */
+  private checkCompatibility(plugin: VdomPlugin): void {
+    if (plugin.apiVersion !== undefined) {
+      const valid = /^\d+(\.\d+){0,2}$/.test(plugin.apiVersion);
+      if (!valid || !satisfies(PLUGIN_API_VERSION, `^${plugin.apiVersion}`)) {
+        throw new PluginApiVersionError(plugin.name, plugin.apiVersion, PLUGIN_API_VERSION);
+      }
+    }
+
+    for (const entry of plugin.dependencies ?? []) {
+      const { name, range } = parseDependency(entry);
+      if (range !== undefined && !isValidRange(range)) {
+        throw new Error(`Plugin "${plugin.name}" has invalid version range in dependency "${entry}"`);
+      }
+      const dependency = this.plugins.get(name);
+      if (range !== undefined && dependency) {
+        const problem = this.checkRange(dependency, range);
+        if (problem) {
+          throw new PluginDependencyError(
+            plugin.name,
+            'incompatible',
+            [name],
+            `Plugin "${plugin.name}" requires ${name}@${range}, but ${problem}`
+          );
+        }
+      }
+    }
+
+    for (const dependent of Array.from(this.plugins.values())) {
+      for (const entry of dependent.dependencies ?? []) {
+        const { name, range } = parseDependency(entry);
+        if (name !== plugin.name || range === undefined) continue;
+        const problem = this.checkRange(plugin, range);
+        if (problem) {
+          throw new PluginDependencyError(
+            plugin.name,
+            'incompatible',
+            [dependent.name],
+            `Plugin "${dependent.name}" requires ${name}@${range}, but ${problem}`
+          );
+        }
+      }
+    }
+  }
+
+  /** Why `plugin` does not satisfy `range`, or null if it does */
+  private checkRange(plugin: VdomPlugin, range: string): string | null {
+    if (plugin.version === undefined) return `${plugin.name} has no version`;
+    if (!parseVersion(plugin.version)) return `${plugin.name} has invalid version "${plugin.version}"`;
+    if (!satisfies(plugin.version, range)) return `${plugin.name} is ${plugin.version}`;
+    return null;
+  }
+
+  unregister(name: string): void {
+    this.teardownPlugin(name);
+    this.emit('plugin:unregistered', { name });
+  }
+
+  /** Run the plugin's cleanup and drop everything the manager holds for it */
+  private teardownPlugin(name: string): void {
+    const plugin = this.plugins.get(name);
+    if (plugin?.cleanup) {
+      plugin.cleanup();
+    }
+
+    this.plugins.delete(name);
+    this.enabledPlugins.delete(name);
+    this.pluginConfigs.delete(name);
+    this.grants.delete(name);
+    this.shortcutOverrides.delete(name);
+    this.commandUsage.clear(name);
+    this.pluginStates.delete(name);
+    this.breaker?.reset(name);
+    this.clearDecorations(name);
+    this.resultCache?.invalidate({ pluginName: name });
+    this.workers.get(name)?.terminate();
+    this.workers.delete(name);
+  }
+
+  /**
+   * Enable a plugin. Disabled dependencies are enabled first unless
+   * `options.dependencies` is 'require'. Throws PluginDependencyError if a
+   * dependency is not registered.
+   */
+  enable(name: string, options: EnablePluginOptions = {}): void {
+    if (!this.plugins.has(name)) {
+      throw new Error(`Plugin "${name}" is not registered`);
+    }
+
+    this.saveSettings(this.enableWithDependencies(name, options));
+    this.scheduleCatchUp();
+  }
+
+  /**
+   * Disable a plugin. Enabled dependents are reported via
+   * 'plugin:dependencyWarning', or disabled too with `options.cascade`.
+   */
+  disable(name: string, options: DisablePluginOptions = {}): void {
+    if (!this.plugins.has(name)) {
+      throw new Error(`Plugin "${name}" is not registered`);
+    }
+
+    this.saveSettings(this.disableWithDependents(name, options));
+  }
+
+  /**
+   * The state change behind enable(): returns the plugins it enabled, for
+   * the caller to save and catch up. With `allowMissing`, unregistered
+   * dependencies are skipped instead of rejected.
+   */
+  private enableWithDependencies(
+    name: string,
+    options: EnablePluginOptions = {},
+    allowMissing = false
+  ): string[] {
+    const error = this.getUnmetDependencyError(name);
+    if (error && ((error.reason === 'missing' && !allowMissing) || options.dependencies === 'require')) {
+      throw error;
+    }
+
+    const disabled = this.getDependencyChain(name).filter(
+      (dep) => this.plugins.has(dep) && !this.enabledPlugins.has(dep)
+    );
+    const enabled = [...disabled, name];
+    for (const dep of enabled) {
+      this.enabledPlugins.add(dep);
+      this.emit('plugin:enabled', { name: dep });
+    }
+    return enabled;
+  }
+
+  /** The state change behind disable(): returns the plugins it disabled, for the caller to save */
+  private disableWithDependents(name: string, options: DisablePluginOptions = {}): string[] {
+    const dependents = this.getEnabledDependents(name);
+    const disabled = [name];
+
+    if (dependents.length > 0) {
+      if (options.cascade) {
+        disabled.unshift(...dependents);
+      } else {
+        this.emit('plugin:dependencyWarning', { name, dependents });
+      }
+    }
+
+    for (const plugin of disabled) {
+      this.enabledPlugins.delete(plugin);
+      this.clearDecorations(plugin);
+      this.emit('plugin:disabled', { name: plugin });
+    }
+    return disabled;
+  }
+
+  isEnabled(name: string): boolean {
+    return this.enabledPlugins.has(name);
+  }
+
+  /**
+   * Merge `config` into the plugin's config. Keys set to undefined reset to
+   * their schema default. Throws PluginConfigError if the result does not
+   * satisfy the plugin's configSchema or `config` has keys the schema does
+   * not declare; the stored config is left unchanged.
+   */
+  setConfig(name: string, config: Record<string, unknown>): void {
+    const plugin = this.plugins.get(name);
+    if (!plugin) {
+      throw new Error(`Plugin "${name}" is not registered`);
+    }
+    const existing = this.pluginConfigs.get(name) || {};
+    let merged = { ...existing, ...config };
+
+    if (plugin.configSchema) {
+      merged = applyConfigDefaults(merged, plugin.configSchema);
+      const { fieldErrors } = validatePluginConfig(merged, plugin.configSchema);
+      for (const key of Object.keys(config)) {
+        if (!Object.hasOwn(plugin.configSchema, key)) {
+          fieldErrors.push({ field: key, message: `Unknown field: ${key}`, value: config[key] });
+        }
+      }
+      if (fieldErrors.length > 0) {
+        throw new PluginConfigError(name, fieldErrors);
+      }
+    }
+
+    this.pluginConfigs.set(name, merged);
+    this.emit('plugin:configChanged', { name, config: merged });
+    this.saveSettings([name]);
+  }
+
+  getConfig(name: string): Record<string, unknown> {
+    return this.pluginConfigs.get(name) || {};
+  }
+
+  /**
+   * Write pending settings changes now instead of waiting for the debounce.
+   * Resolves once every write issued so far has finished.
+   */
+  async flushSettings(): Promise<void> {
+    if (this.settingsTimer) {
+      clearTimeout(this.settingsTimer);
+      this.settingsTimer = null;
+      this.writeSettings();
+    }
+    await this.settingsWrite;
+  }
+
+  // ===========================================================================
+  // Settings Profiles
+  // ===========================================================================
+
+  /**
+   * Snapshot every registered plugin's enabled flag and config under `name`,
+   * replacing any existing profile with that name.
+   */
+  saveProfile(name: string): SettingsProfile {
+    this.getSavedSettings();
+    const plugins: Record<string, PluginSettings> = {};
+    for (const pluginName of this.plugins.keys()) {
+      plugins[pluginName] = {
+        enabled: this.enabledPlugins.has(pluginName),
+        config: { ...this.getConfig(pluginName) },
+      };
+    }
+
+    const profile: SettingsProfile = { name, createdAt: Date.now(), plugins };
+    this.profiles.set(name, profile);
+    this.scheduleSettingsWrite();
+    return structuredClone(profile);
+  }
+
+  getProfiles(): SettingsProfile[] {
+    this.getSavedSettings();
+    return structuredClone(Array.from(this.profiles.values()));
+  }
+
+  /**
+   * Apply a profile atomically: every config is validated before anything
+   * changes, and a PluginConfigError leaves all plugins untouched. Entries
+   * for unregistered plugins are ignored; a profile config replaces the
+   * plugin's config rather than merging into it. Plugins are enabled and
+   * disabled as by enable()/disable(), in dependency order; a dependency
+   * that is not registered, or that the profile disables while enabling a
+   * dependent, throws PluginDependencyError, also before anything changes.
+   */
+  applyProfile(name: string): void {
+    this.getSavedSettings();
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Profile "${name}" does not exist`);
+    }
+
+    const configs = new Map<string, Record<string, unknown>>();
+    for (const [pluginName, settings] of Object.entries(profile.plugins)) {
+      const plugin = this.plugins.get(pluginName);
+      if (!plugin || !settings.config) continue;
+
+      const { config, fieldErrors } = this.resolveProfileConfig(settings.config, plugin.configSchema);
+      if (fieldErrors.length > 0) {
+        throw new PluginConfigError(
+          pluginName,
+          fieldErrors,
+          `Profile "${name}" has invalid config for plugin "${pluginName}": ${fieldErrors.map((e) => e.message).join('; ')}`
+        );
+      }
+      configs.set(pluginName, config);
+    }
+    for (const [pluginName, settings] of Object.entries(profile.plugins)) {
+      if (!settings.enabled || !this.plugins.has(pluginName)) continue;
+      const error = this.getUnmetDependencyError(pluginName);
+      if (error && error.reason === 'missing') throw error;
+
+      const disabled = this.getDependencyChain(pluginName).filter((dep) => profile.plugins[dep]?.enabled === false);
+      if (disabled.length > 0) {
+        throw new PluginDependencyError(
+          pluginName,
+          'disabled',
+          disabled,
+          `Profile "${name}" enables plugin "${pluginName}" but disables its dependencies: ${disabled.join(', ')}`
+        );
+      }
+    }
+
+    // Toggles go through enable()/disable()'s logic: dependencies are
+    // enabled along, dependents are warned about. Disables run dependents
+    // first and enables dependencies first, so the profile's own toggles
+    // never trip over each other.
+    const names = sortByDependencies(
+      Object.keys(profile.plugins).filter((pluginName) => this.plugins.has(pluginName)),
+      this.getDependencies
+    );
+    const touched = new Set(names);
+    let enabledAny = false;
+    for (const pluginName of [...names].reverse()) {
+      if (profile.plugins[pluginName].enabled === false && this.enabledPlugins.has(pluginName)) {
+        this.disableWithDependents(pluginName).forEach((changed) => touched.add(changed));
+      }
+    }
+    for (const pluginName of names) {
+      if (profile.plugins[pluginName].enabled && !this.enabledPlugins.has(pluginName)) {
+        this.enableWithDependencies(pluginName).forEach((changed) => touched.add(changed));
+        enabledAny = true;
+      }
+    }
+
+    for (const [pluginName, config] of configs) {
+      this.pluginConfigs.set(pluginName, config);
+      this.emit('plugin:configChanged', { name: pluginName, config });
+    }
+
+    this.saveSettings([...touched]);
+    if (enabledAny) this.scheduleCatchUp();
+    this.emit('profile:applied', { name });
+  }
+
+  deleteProfile(name: string): boolean {
+    this.getSavedSettings();
+    const deleted = this.profiles.delete(name);
+    if (deleted) this.scheduleSettingsWrite();
+    return deleted;
+  }
+
+  /**
+   * Serialize profiles (all, or the named ones) as versioned JSON.
+   */
+  exportProfiles(names?: string[]): string {
+    this.getSavedSettings();
+    const selected = (names ?? Array.from(this.profiles.keys())).map((name) => {
+      const profile = this.profiles.get(name);
+      if (!profile) throw new Error(`Profile "${name}" does not exist`);
+      return profile;
+    });
+    return serializeProfiles(selected);
+  }
+
+  /**
+   * Import exportProfiles() output. Each profile's configs are validated
+   * against the registered plugins' schemas; profiles with invalid entries
+   * are rejected, entries for unregistered plugins are kept and reported.
+   * Throws if `data` is not a supported profile export.
+   */
+  importProfiles(data: string | unknown, options: { overwrite?: boolean } = {}): ProfileImportReport {
+    this.getSavedSettings();
+    const report: ProfileImportReport = { imported: [], skipped: [], unknownPlugins: [], invalid: [] };
+
+    for (const profile of parseProfileExport(data)) {
+      if (this.profiles.has(profile.name) && !options.overwrite) {
+        report.skipped.push(profile.name);
+        continue;
+      }
+
+      let valid = true;
+      for (const [pluginName, settings] of Object.entries(profile.plugins)) {
+        const plugin = this.plugins.get(pluginName);
+        if (!plugin) {
+          report.unknownPlugins.push({ profile: profile.name, plugin: pluginName });
+          continue;
+        }
+        if (!settings.config) continue;
+
+        const { fieldErrors } = this.resolveProfileConfig(settings.config, plugin.configSchema);
+        if (fieldErrors.length > 0) {
+          report.invalid.push({ profile: profile.name, plugin: pluginName, fieldErrors });
+          valid = false;
+        }
+      }
+
+      if (valid) {
+        this.profiles.set(profile.name, profile);
+        report.imported.push(profile.name);
+      }
+    }
+
+    if (report.imported.length > 0) this.scheduleSettingsWrite();
+    return report;
+  }
+
+  private resolveProfileConfig(
+    config: Record<string, unknown>,
+    schema: PluginConfigSchema | undefined
+  ): { config: Record<string, unknown>; fieldErrors: ConfigFieldError[] } {
+    if (!schema) return { config: { ...config }, fieldErrors: [] };
+    const resolved = applyConfigDefaults(config, schema);
+    return { config: resolved, fieldErrors: validatePluginConfig(resolved, schema).fieldErrors };
+  }
+
+  /**
+   * Per-plugin settings from the store, read once on first use. Profiles are
+   * loaded alongside them. If the store cannot be read, the error is logged
+   * (under `pluginName`, the plugin whose registration triggered the read)
+   * and plugins start from their defaults.
+   */
+  private getSavedSettings(pluginName = ''): Record<string, PluginSettings> {
+    if (!this.savedSettings) {
+      let snapshot: PluginSettingsSnapshot | null | undefined;
+      try {
+        snapshot = this.settingsStore?.read();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.createLogFunction([], pluginName)('error', `Failed to read plugin settings, using defaults: ${message}`);
+      }
+      this.savedSettings = snapshot?.plugins ?? {};
+      for (const profile of Object.values(snapshot?.profiles ?? {})) {
+        this.profiles.set(profile.name, profile);
+      }
+    }
+    return this.savedSettings;
+  }
+
+  /**
+   * Merge persisted config over schema defaults. Persisted values that no
+   * longer validate (e.g. after a schema change) fall back to the default.
+   */
+  private restoreConfig(
+    saved: Record<string, unknown>,
+    schema: PluginConfigSchema | undefined
+  ): Record<string, unknown> {
+    if (!schema) return { ...saved };
+
+    const config = applyConfigDefaults(saved, schema);
+    for (const { field } of validatePluginConfig(config, schema).fieldErrors) {
+      config[field] = schema[field].default;
+    }
+    return config;
+  }
+
+  /**
+   * Record the current enabled flag and non-default config of `names` and
+   * schedule a debounced write to the settings store.
+   */
+  private saveSettings(names: string[]): void {
+    if (!this.settingsStore) return;
+    const saved = this.getSavedSettings();
+
+    for (const name of names) {
+      const schema = this.plugins.get(name)?.configSchema;
+      const config: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(this.getConfig(name))) {
+        if (!schema?.[key] || schema[key].default !== value) config[key] = value;
+      }
+      const shortcuts = this.shortcutOverrides.get(name);
+      saved[name] = {
+        enabled: this.enabledPlugins.has(name),
+        config,
+        ...(shortcuts && { shortcuts: { ...shortcuts } }),
+      };
+    }
+
+    this.scheduleSettingsWrite();
+  }
+
+  private scheduleSettingsWrite(): void {
+    if (!this.settingsStore) return;
+    if (this.settingsTimer) clearTimeout(this.settingsTimer);
+    this.settingsTimer = setTimeout(() => {
+      this.settingsTimer = null;
+      this.writeSettings();
+    }, this.settingsWriteDelayMs);
+  }
+
+  private writeSettings(): void {
+    const store = this.settingsStore!;
+    const snapshot = createSettingsSnapshot(
+      structuredClone(this.getSavedSettings()),
+      this.profiles.size > 0 ? structuredClone(Object.fromEntries(this.profiles)) : undefined
+    );
+    this.settingsWrite = this.settingsWrite
+      .then(() => store.write(snapshot))
+      .catch((error) => {
+        console.error('Failed to write plugin settings:', error);
+      });
+  }
+
+  getPlugins(): VdomPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  getPlugin(name: string): VdomPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  getEnabledPlugins(): string[] {
+    return Array.from(this.enabledPlugins);
+  }
+
+  /**
+   * Snapshot of the dependency graph in dependency order, for settings UIs
+   * that need to explain why a plugin cannot be turned off.
+   */
+  getDependencyGraph(): PluginDependencyNode[] {
+    const order = sortByDependencies(Array.from(this.plugins.keys()), this.getDependencies);
+
+    return order.map((name) => {
+      const dependencies = this.getDependencies(name) ?? [];
+      return {
+        name,
+        enabled: this.enabledPlugins.has(name),
+        dependencies: [...dependencies],
+        missing: dependencies.filter((dep) => !this.plugins.has(dep)),
+        dependents: order.filter((other) =>
+          this.getDependencies(other)?.includes(name)
+        ),
+        enabledDependents: this.getEnabledDependents(name),
+      };
+    });
+  }
+
+  private getDependencyChain(name: string): string[] {
+    return collectDependencies(name, this.getDependencies);
+  }
+
+  /**
+   * Error describing why `name` cannot run yet: unregistered dependencies
+   * take precedence over disabled ones. Null when all are enabled.
+   */
+  private getUnmetDependencyError(name: string): PluginDependencyError | null {
+    const chain = this.getDependencyChain(name);
+
+    const missing = chain.filter((dep) => !this.plugins.has(dep));
+    if (missing.length > 0) {
+      return new PluginDependencyError(
+        name,
+        'missing',
+        missing,
+        `Plugin "${name}" depends on unregistered plugin(s): ${missing.join(', ')}`
+      );
+    }
+
+    const disabled = chain.filter((dep) => !this.enabledPlugins.has(dep));
+    if (disabled.length > 0) {
+      return new PluginDependencyError(
+        name,
+        'disabled',
+        disabled,
+        `Plugin "${name}" requires disabled plugin(s): ${disabled.join(', ')}`
+      );
+    }
+
+    return null;
+  }
+
+  private getEnabledDependents(name: string): string[] {
+    return Array.from(this.enabledPlugins).filter(
+      (other) => other !== name && this.getDependencyChain(other).includes(name)
+    );
+  }
+
+  /**
+   * Run every enabled plugin subscribed to `event`. Independent plugins run
+   * concurrently (up to `options.concurrency`); a plugin starts only after
+   * the plugins it depends on have settled. Results are ordered by dependency
+   * order, not completion order.
+   */
+  async runEvent(
+    event: VdomLifecycleEvent,
+    context: PluginRunContext,
+    options: RunEventOptions = {}
+  ): Promise<Map<string, PluginResult>> {
+    return this.startRun([event], context, options);
+  }
+
+  private async startRun(
+    events: VdomLifecycleEvent[],
+    context: PluginRunContext,
+    options: RunEventOptions,
+    dispatch?: LifecycleDispatch & { skip: ReadonlySet<string> }
+  ): Promise<Map<string, PluginResult>> {
+    const runId = options.runId ?? `run-${++this.runCounter}`;
+    const controller = createLinkedController(options.signal);
+    this.activeRuns.set(runId, controller);
+    const tracer = options.tracer ?? this.tracer;
+    const span = tracer?.start(`runEvent ${events.join(',')}`, 'run', { runId, documentId: context.document.id });
+
+    const run: RunState = {
+      runId,
+      events,
+      context,
+      signal: controller.signal,
+      results: dispatch?.results ?? new Map(),
+      emitted: dispatch?.emitted ?? new Map(),
+      useCache: options.cache ?? true,
+      skip: dispatch?.skip,
+      tracer,
+      span,
+    };
+
+    try {
+      return await this.runEventPlugins(run, options);
+    } finally {
+      if (span) tracer!.end(span, { cancelled: controller.signal.aborted });
+      this.activeRuns.delete(runId);
+    }
+  }
+
+  /**
+   * Cancel an in-flight runEvent. Running handlers see their signal abort;
+   * plugins not yet started are skipped. Returns false if no such run.
+   */
+  cancel(runId: string): boolean {
+    const controller = this.activeRuns.get(runId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  /**
+   * Queue a node edit. Edits arriving within `mutationDelayMs` of each other
+   * are coalesced into one MutationBatch and delivered as ctx.mutations to
+   * plugins subscribed to nodeAdded/nodeRemoved/nodeUpdated. Each plugin runs
+   * once per batch. `context` is the document the edit applies to; a queued
+   * batch for another document is flushed first.
+   */
+  queueMutation(mutation: NodeMutation, context: PluginRunContext): void {
+    if (this.mutationContext && this.mutationContext.document.id !== context.document.id) {
+      void this.flushMutations();
+    }
+
+    this.mutationQueue.add(mutation);
+    this.mutationContext = context;
+
+    if (this.mutationTimer) clearTimeout(this.mutationTimer);
+    this.mutationTimer = setTimeout(() => void this.flushMutations(), this.mutationDelayMs);
+  }
+
+  /**
+   * Deliver queued mutations now instead of waiting for the debounce.
+   * Resolves with the run's results (empty if nothing was queued).
+   */
+  async flushMutations(): Promise<Map<string, PluginResult>> {
+    if (this.mutationTimer) {
+      clearTimeout(this.mutationTimer);
+      this.mutationTimer = null;
+    }
+
+    const context = this.mutationContext;
+    this.mutationContext = null;
+    const batch = context && this.mutationQueue.drain(context.document.id);
+    if (!batch || !context) return new Map();
+
+    return this.startRun(getMutationEvents(batch), { ...context, mutations: batch }, {});
+  }
+
+  /**
+   * Drop cached runEvent results for a document, a plugin, or both.
+   * Returns the number of entries removed; 0 when caching is off.
+   */
+  invalidateCache(filter: CacheInvalidationFilter = {}): number {
+    return this.resultCache?.invalidate(filter) ?? 0;
+  }
+
+  /**
+   * Cache key for one plugin in one run, or null if the result must not be
+   * cached. Dependencies' versions and configs are part of the key since
+   * their output feeds ctx.getResult().
+   */
+  private getCacheKey(plugin: VdomPlugin, run: RunState): string | null {
+    // Mutation runs depend on the batch, not just the document
+    if (!this.resultCache || plugin.cacheable === false || run.context.mutations) return null;
+
+    const { document } = run.context;
+    run.revision ??=
+      document.revision !== undefined ? String(document.revision) : hashDocument(document.getAllNodes());
+
+    const fingerprint = (name: string) => ({
+      name,
+      version: this.plugins.get(name)?.version,
+      config: this.pluginConfigs.get(name) ?? {},
+    });
+
+    return hashValue({
+      documentId: document.id,
+      revision: run.revision,
+      event: this.getPluginEvent(plugin, run),
+      pageNumber: run.context.pageNumber,
+      nodeId: run.context.node?.id,
+      plugin: fingerprint(plugin.name),
+      dependencies: this.getDependencyChain(plugin.name).map(fingerprint),
+    });
+  }
+
+  private async runEventPlugins(
+    run: RunState,
+    options: RunEventOptions
+  ): Promise<Map<string, PluginResult>> {
+    const settled = run.results;
+    const runnable: string[] = [];
+    const pluginsToRun = this.getPluginsForEvents(run.events).filter(
+      (plugin) => !run.skip?.has(plugin.name)
+    );
+
+    for (const plugin of pluginsToRun) {
+      if (!this.enabledPlugins.has(plugin.name)) continue;
+
+      const dependencyError = this.getUnmetDependencyError(plugin.name);
+      if (dependencyError) {
+        settled.set(plugin.name, {
+          success: false,
+          error: dependencyError.message,
+          errorDetails: dependencyError,
+        });
+        this.emit('plugin:error', { name: plugin.name, error: dependencyError });
+        continue;
+      }
+
+      runnable.push(plugin.name);
+    }
+
+    await runInDependencyOrder(
+      runnable,
+      this.getDependencies,
+      options.concurrency ?? this.concurrency,
+      async (name) => {
+        settled.set(name, await this.runPlugin(this.plugins.get(name)!, run));
+      }
+    );
+
+    const results = new Map<string, PluginResult>();
+    for (const plugin of pluginsToRun) {
+      const result = settled.get(plugin.name);
+      if (result) results.set(plugin.name, result);
+    }
+    return results;
+  }
+
+  /**
+   * Run a single plugin handler. Never throws: handler errors become a
+   * failed PluginResult plus a 'plugin:error' event, timeouts a
+   * 'plugin:timeout' event.
+   */
+  private async runPlugin(plugin: VdomPlugin, run: RunState): Promise<PluginResult> {
+    if (run.signal.aborted) {
+      const error = new PluginCancelledError(plugin.name);
+      return { success: false, error: error.message, errorDetails: error };
+    }
+
+    const quarantine = this.breaker?.acquire(plugin.name);
+    if (quarantine) {
+      const error = new PluginQuarantinedError(quarantine);
+      return { success: false, error: error.message, errorDetails: error };
+    }
+
+    const event = this.getPluginEvent(plugin, run);
+    this.emit('plugin:started', { name: plugin.name, event, runId: run.runId });
+    const startTime = performance.now();
+    const span = run.tracer?.start(plugin.name, 'plugin', { event }, run.span);
+    const finish = (result: PluginResult, cached = false): PluginResult => {
+      if (span) run.tracer!.end(span, traceOutcome(result, cached));
+      const outcome = getOutcome(result, result.errorDetails);
+      if (cached) {
+        this.pluginMetrics.pluginCacheHits.inc({ plugin: plugin.name });
+      } else {
+        const labels = { plugin: plugin.name };
+        this.pluginMetrics.pluginRuns.inc({ ...labels, outcome });
+        this.pluginMetrics.pluginDuration.observe(labels, (performance.now() - startTime) / 1000);
+      }
+      this.recordOutcome(plugin.name, undefined, outcome, result.error);
+      return result;
+    };
+
+    const cacheKey = this.getCacheKey(plugin, run);
+    const cached = cacheKey && run.useCache ? this.resultCache!.get(cacheKey) : undefined;
+    if (cached) {
+      return finish(this.replayCachedResult(plugin.name, cached.result, cached.emits, run, startTime, span), true);
+    }
 
-  get readyState(): VdomReadyStateValue {
-    return this._readyState;
-  }
+    const controller = createLinkedController(run.signal);
+    const clearTimeout = abortAfter(
+      controller,
+      plugin.timeoutMs,
+      () => new PluginTimeoutError(plugin.name, plugin.timeoutMs!)
+    );
 
-  setReadyState(state: VdomReadyStateValue): void {
-    this._readyState = state;
-  }
+    const logs: LogEntry[] = [];
+    const emitted: EmittedData = {};
+    const emits: CachedEmit[] = [];
+    run.emitted.set(plugin.name, emitted);
+    const upstream = new Set(this.getDependencyChain(plugin.name));
+    const log = this.createLogFunction(logs, plugin.name);
 
-  register(plugin: VdomPlugin): void {
-    if (this.plugins.has(plugin.name)) {
-      throw new Error(`Plugin "${plugin.name}" is already registered`);
-    }
+    // A handler that outlives its timeout or cancellation can still call
+    // ctx.emit/ctx.log; those calls are dropped so they reach no listener,
+    // metric or stored result.
+    const ctx: PluginContext = {
+      ...run.context,
+      event,
+      mutationSequence: this.mutationQueue.getSequence(run.context.document.id),
+      state: this.getPluginState(plugin.name),
+      config: this.pluginConfigs.get(plugin.name) || {},
+      emit: <T extends PluginEmitType>(type: T, data: PluginEmitData[T]) => {
+        if (controller.signal.aborted) return;
+        const entries = (emitted[type] ??= []) as PluginEmitData[T][];
+        entries.push(data);
+        emits.push({ type, data });
+        this.countEmittedItems(plugin.name, type, data);
+        if (span) run.tracer!.instant(`emit ${type}`, 'emit', {}, span);
+        this.emit('lifecycle:emit', { pluginName: plugin.name, type, data });
+      },
+      log: (level, message) => {
+        if (!controller.signal.aborted) log(level, message);
+      },
+      signal: controller.signal,
+      ...this.createCapabilities(plugin.name, controller.signal),
+      trace: span ? run.tracer!.createTraceFunction(span) : noopTrace,
+      getResult: <TExports>(name: string): UpstreamResult<TExports> | undefined => {
+        const result = upstream.has(name) ? run.results.get(name) : undefined;
+        if (!result) return undefined;
+        return {
+          name,
+          result: result as PluginResult<TExports>,
+          emitted: run.emitted.get(name) ?? {},
+        };
+      },
+    };
 
-    this.plugins.set(plugin.name, plugin);
+    try {
+      const result = withLogs(
+        assembleResult(await raceAbort(this.invokeHandler(plugin, ctx, upstream), controller.signal), emitted),
+        logs
+      );
 
-    if (plugin.configSchema) {
-      const defaultConfig: Record<string, unknown> = {};
-      for (const [key, field] of Object.entries(plugin.configSchema)) {
-        defaultConfig[key] = field.default;
+      if (cacheKey && result.success) {
+        const { logs: _logs, ...cachedResult } = result;
+        this.resultCache!.set(cacheKey, {
+          documentId: run.context.document.id,
+          pluginName: plugin.name,
+          result: cachedResult,
+          emits,
+        });
+      }
+
+      if (result.success) this.updateDecorations(plugin.name, run, result);
+      const duration = performance.now() - startTime;
+      this.emit('plugin:completed', { name: plugin.name, result, duration });
+      return finish(result);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        const abortError = this.getAbortError(controller.signal, plugin.name);
+        return finish(withLogs({ success: false, error: abortError.message, errorDetails: abortError }, logs));
       }
-      this.pluginConfigs.set(plugin.name, defaultConfig);
-    }
 
-    if (plugin.defaultEnabled) {
-      this.enabledPlugins.add(plugin.name);
+      this.emit('plugin:error', { name: plugin.name, error: error as Error });
+      return finish(withLogs({
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }, logs));
+    } finally {
+      clearTimeout();
     }
+  }
 
-    this.emit('plugin:registered', { name: plugin.name });
+  private invokeHandler(
+    plugin: VdomPlugin,
+    ctx: PluginContext,
+    upstream: Set<string>
+  ): Promise<PluginResult> {
+    const worker = this.workers.get(plugin.name);
+    if (worker) return worker.run(ctx, Array.from(upstream));
+    return Promise.resolve(plugin.handler(ctx));
   }
 
-  unregister(name: string): void {
-    const plugin = this.plugins.get(name);
-    if (plugin?.cleanup) {
-      plugin.cleanup();
+  /**
+   * Re-emit a cached plugin's emits in their original order and record them
+   * for downstream ctx.getResult(), without calling the handler.
+   */
+  private replayCachedResult(
+    pluginName: string,
+    result: PluginResult,
+    emits: CachedEmit[],
+    run: RunState,
+    startTime: number,
+    span?: TraceSpan
+  ): PluginResult {
+    const emitted: EmittedData = {};
+    run.emitted.set(pluginName, emitted);
+    for (const { type, data } of emits) {
+      ((emitted[type] ??= []) as unknown[]).push(data);
+      this.countEmittedItems(pluginName, type, data);
+      if (span) run.tracer!.instant(`emit ${type}`, 'emit', { cached: true }, span);
+      this.emit('lifecycle:emit', { pluginName, type, data });
     }
 
-    this.plugins.delete(name);
-    this.enabledPlugins.delete(name);
-    this.pluginConfigs.delete(name);
-
-    this.emit('plugin:unregistered', { name });
+    this.updateDecorations(pluginName, run, result);
+    const duration = performance.now() - startTime;
+    this.emit('plugin:completed', { name: pluginName, result, duration, cached: true });
+    return result;
   }
 
-  enable(name: string): void {
-    if (!this.plugins.has(name)) {
-      throw new Error(`Plugin "${name}" is not registered`);
+  /**
+   * Feed a handler or command outcome to the failure policy, firing
+   * 'plugin:quarantined' / 'plugin:restored' on state changes.
+   */
+  private recordOutcome(
+    name: string,
+    commandId: string | undefined,
+    outcome: InvocationOutcome,
+    error?: string
+  ): void {
+    const transition = this.breaker?.record(name, commandId, outcome, error);
+    if (transition === 'quarantined') {
+      this.emit('plugin:quarantined', this.breaker!.getQuarantine(name, commandId)!);
+    } else if (transition === 'restored') {
+      this.emit('plugin:restored', { name, ...(commandId !== undefined && { commandId }) });
     }
-    this.enabledPlugins.add(name);
-    this.emit('plugin:enabled', { name });
   }
 
-  disable(name: string): void {
-    this.enabledPlugins.delete(name);
-    this.emit('plugin:disabled', { name });
+  /**
+   * The active quarantine of a plugin's handler, or of one of its commands.
+   * Always undefined without a failurePolicy.
+   */
+  getQuarantine(name: string, commandId?: string): PluginQuarantine | undefined {
+    return this.breaker?.getQuarantine(name, commandId);
   }
 
-  isEnabled(name: string): boolean {
-    return this.enabledPlugins.has(name);
+  /**
+   * Lift a quarantine now instead of waiting for the cool-off, and forget
+   * recorded failures. Without `commandId` this covers the plugin's handler
+   * and all of its commands. Returns false if nothing was quarantined.
+   */
+  resetQuarantine(name: string, commandId?: string): boolean {
+    const lifted = this.breaker?.reset(name, commandId) ?? [];
+    for (const quarantine of lifted) {
+      this.emit('plugin:restored', {
+        name,
+        ...(quarantine.commandId !== undefined && { commandId: quarantine.commandId }),
+      });
+    }
+    return lifted.length > 0;
   }
 
-  setConfig(name: string, config: Record<string, unknown>): void {
-    if (!this.plugins.has(name)) {
-      throw new Error(`Plugin "${name}" is not registered`);
-    }
-    const existing = this.pluginConfigs.get(name) || {};
-    this.pluginConfigs.set(name, { ...existing, ...config });
-    this.emit('plugin:configChanged', { name, config: this.pluginConfigs.get(name)! });
+  private countEmittedItems(pluginName: string, type: PluginEmitType, data: unknown): void {
+    const items = Array.isArray(data) ? data.length : 1;
+    this.pluginMetrics.pluginEmittedItems.inc({ plugin: pluginName, type }, items);
   }
 
-  getConfig(name: string): Record<string, unknown> {
-    return this.pluginConfigs.get(name) || {};
+  /**
+   * Replace the plugin's stored decorations with the result's data. Failed,
+   * cancelled and timed-out runs leave the previous decorations in place.
+   */
+  private updateDecorations(pluginName: string, run: RunState, result: PluginResult): void {
+    const { document } = run.context;
+    const diff = this.decorations.replace(
+      pluginName,
+      document.id,
+      result.data,
+      (nodeId) => document.getNode(nodeId)?.pageNumber
+    );
+    if (!isEmptyDiff(diff)) this.emit('decorations:changed', diff);
   }
 
-  getPlugins(): VdomPlugin[] {
-    return Array.from(this.plugins.values());
+  private clearDecorations(pluginName: string): void {
+    const diff = this.decorations.clear(pluginName);
+    if (!isEmptyDiff(diff)) this.emit('decorations:changed', diff);
   }
 
-  getPlugin(name: string): VdomPlugin | undefined {
-    return this.plugins.get(name);
+  getGrantedPermissions(name: string): PluginPermissions | undefined {
+    return this.grants.get(name);
   }
 
-  getEnabledPlugins(): string[] {
-    return Array.from(this.enabledPlugins);
+  private createPermissionGate(pluginName: string, commandId?: string): PermissionGate {
+    return {
+      pluginName,
+      ...(commandId !== undefined && { commandId }),
+      granted: this.grants.get(pluginName) ?? {},
+      onDenied: (capability, detail) => {
+        this.emit('permission:denied', {
+          name: pluginName,
+          capability,
+          ...(detail !== undefined && { detail }),
+          ...(commandId !== undefined && { commandId }),
+        });
+      },
+    };
   }
 
-  async runEvent(
-    event: VdomLifecycleEvent,
-    context: Omit<PluginContext, 'event' | 'config' | 'emit' | 'log'>
-  ): Promise<Map<string, PluginResult>> {
-    const results = new Map<string, PluginResult>();
-    const pluginsToRun = this.getPluginsForEvent(event);
+  private getPluginState(pluginName: string): Record<string, unknown> {
+    let state = this.pluginStates.get(pluginName);
+    if (!state) {
+      state = {};
+      this.pluginStates.set(pluginName, state);
+    }
+    return state;
+  }
 
-    for (const plugin of pluginsToRun) {
-      if (!this.enabledPlugins.has(plugin.name)) continue;
+  /**
+   * ctx.fetch and ctx.writeClipboard for one handler invocation. fetch
+   * defaults to the invocation's signal.
+   */
+  private createCapabilities(
+    pluginName: string,
+    signal: AbortSignal,
+    commandId?: string
+  ): Pick<PluginContext, 'fetch' | 'writeClipboard'> {
+    const gate = this.createPermissionGate(pluginName, commandId);
+    return {
+      fetch: createGatedFetch(gate, (input, init) => this.fetchImpl(input, { signal, ...init })),
+      writeClipboard: createClipboardWriter(gate, this.clipboard),
+    };
+  }
 
-      this.emit('plugin:started', { name: plugin.name, event });
-      const startTime = performance.now();
-
-      const ctx: PluginContext = {
-        ...context,
-        event,
-        config: this.pluginConfigs.get(plugin.name) || {},
-        emit: <T extends PluginEmitType>(type: T, data: PluginEmitData[T]) => {
-          this.emit('lifecycle:emit', { pluginName: plugin.name, type, data });
-        },
-        log: (level, message) => {
-          if (level === 'error') {
-            console.error(`[${plugin.name}] ${message}`);
-          }
-        },
+  /**
+   * Build ctx.log for one handler invocation: each entry goes to the
+   * injected Logger, the 'plugin:log' event and the invocation's buffer.
+   */
+  private createLogFunction(buffer: LogEntry[], pluginName: string, commandId?: string): LogFunction {
+    return (level, message) => {
+      const entry: LogEntry = {
+        pluginName,
+        ...(commandId !== undefined && { commandId }),
+        level,
+        message,
+        timestamp: Date.now(),
       };
+      buffer.push(entry);
 
       try {
-        const result = await plugin.handler(ctx);
-        results.set(plugin.name, result);
-
-        const duration = performance.now() - startTime;
-        this.emit('plugin:completed', { name: plugin.name, result, duration });
-      } catch (error) {
-        const result: PluginResult = {
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        };
-        results.set(plugin.name, result);
-        this.emit('plugin:error', { name: plugin.name, error: error as Error });
+        this.logger[level](message, entry);
+      } catch (e) {
+        console.error(`Error in logger for ${pluginName}:`, e);
       }
-    }
-
-    return results;
+      this.emit('plugin:log', entry);
+    };
   }
 
-  private getPluginsForEvent(event: VdomLifecycleEvent): VdomPlugin[] {
-    const plugins: VdomPlugin[] = [];
-    const resolved = new Set<string>();
-
-    const resolve = (name: string) => {
-      if (resolved.has(name)) return;
-
-      const plugin = this.plugins.get(name);
-      if (!plugin) return;
-
-      if (plugin.dependencies) {
-        for (const dep of plugin.dependencies) {
-          resolve(dep);
-        }
-      }
+  /**
+   * Translate an aborted signal into the error reported to the host,
+   * emitting 'plugin:timeout' when the abort came from a timeout.
+   */
+  private getAbortError(
+    signal: AbortSignal,
+    pluginName: string,
+    commandId?: string
+  ): PluginTimeoutError | PluginCancelledError {
+    if (signal.reason instanceof PluginTimeoutError) {
+      this.emit('plugin:timeout', {
+        name: pluginName,
+        timeoutMs: signal.reason.timeoutMs,
+        ...(commandId !== undefined && { commandId }),
+      });
+      return signal.reason;
+    }
+    return new PluginCancelledError(pluginName, commandId);
+  }
 
-      if (plugin.runsOn.includes(event)) {
-        plugins.push(plugin);
-      }
-      resolved.add(name);
-    };
+  private getPluginEvent(plugin: VdomPlugin, run: RunState): VdomLifecycleEvent {
+    return run.events.find((event) => plugin.runsOn.includes(event)) ?? run.events[0];
+  }
 
-    for (const name of this.plugins.keys()) {
-      resolve(name);
-    }
+  private getPluginsForEvents(events: VdomLifecycleEvent[]): VdomPlugin[] {
+    const names = Array.from(this.plugins.values())
+      .filter((plugin) => events.some((event) => plugin.runsOn.includes(event)))
+      .map((plugin) => plugin.name);
 
-    return plugins;
+    return sortByDependencies(names, this.getDependencies).map((name) => this.plugins.get(name)!);
   }
 
   on<E extends PluginManagerEvent>(
@@ -212,15 +1482,25 @@ export class VdomPluginManager implements IPluginManager {
     }
   }
 
+  /**
+   * Abort in-flight runs and command batches, tear down every plugin as
+   * unregister() would and drop queued mutations, unwritten settings
+   * changes and all listeners.
+   */
   clear(): void {
-    for (const plugin of this.plugins.values()) {
-      if (plugin.cleanup) {
-        plugin.cleanup();
-      }
+    for (const controller of [...this.activeRuns.values(), ...this.activeBatches.values()]) {
+      controller.abort();
     }
-    this.plugins.clear();
-    this.enabledPlugins.clear();
-    this.pluginConfigs.clear();
+    for (const name of [...this.plugins.keys()]) {
+      this.teardownPlugin(name);
+    }
+
+    if (this.mutationTimer) clearTimeout(this.mutationTimer);
+    this.mutationTimer = null;
+    this.mutationQueue = new MutationQueue();
+    this.mutationContext = null;
+    if (this.settingsTimer) clearTimeout(this.settingsTimer);
+    this.settingsTimer = null;
     this.listeners.clear();
   }
 
@@ -259,7 +1539,12 @@ export class VdomPluginManager implements IPluginManager {
 
         if (!isVisible) continue;
 
-        commands.push({ ...cmd, pluginName });
+        // Menus show the user's binding, not the declared default
+        const resolved: ResolvedCommand = { ...cmd, pluginName };
+        const shortcut = this.getEffectiveShortcut(pluginName, cmd);
+        if (shortcut) resolved.shortcut = shortcut;
+        else delete resolved.shortcut;
+        commands.push(resolved);
       }
     }
 
@@ -267,12 +1552,26 @@ export class VdomPluginManager implements IPluginManager {
   }
 
   /**
-   * Execute a specific command from a plugin.
+   * Execute a specific command from a plugin. Each call counts as a use
+   * when searchCommands() ranks recent and frequent commands.
    */
   async executeCommand(
     pluginName: string,
     commandId: string,
-    context: Omit<CommandContext, 'config' | 'log'>
+    context: CommandRunContext,
+    options: ExecuteCommandOptions = {}
+  ): Promise<CommandResult> {
+    if (this.plugins.get(pluginName)?.commands?.some((c) => c.id === commandId)) {
+      this.commandUsage.record(pluginName, commandId);
+    }
+    return this.invokeCommand(pluginName, commandId, context, options);
+  }
+
+  private async invokeCommand(
+    pluginName: string,
+    commandId: string,
+    context: CommandRunContext,
+    options: ExecuteCommandOptions
   ): Promise<CommandResult> {
     const plugin = this.plugins.get(pluginName);
     if (!plugin) {
@@ -288,6 +1587,16 @@ export class VdomPluginManager implements IPluginManager {
       return { success: false, error: `Plugin "${pluginName}" is not enabled` };
     }
 
+    if (command.mutatesDocument && !this.grants.get(pluginName)?.mutation) {
+      const error = denyPermission(this.createPermissionGate(pluginName, commandId), 'mutation');
+      return { success: false, error: error.message };
+    }
+
+    const quarantine = this.breaker?.acquire(pluginName, commandId);
+    if (quarantine) {
+      return { success: false, error: new PluginQuarantinedError(quarantine).message };
+    }
+
     this.emit('command:started', {
       pluginName,
       commandId,
@@ -295,44 +1604,463 @@ export class VdomPluginManager implements IPluginManager {
     });
 
     const startTime = performance.now();
+    const tracer = options.tracer ?? this.tracer;
+    const span = tracer?.start(`${pluginName}:${commandId}`, 'command', { entityId: context.entity.id });
+    const finish = (result: CommandResult, abortError?: Error): CommandResult => {
+      if (span) tracer!.end(span, traceOutcome(result));
+      const labels = { plugin: pluginName, command: commandId };
+      const outcome = getOutcome(result, abortError);
+      this.pluginMetrics.commandExecutions.inc({ ...labels, outcome });
+      this.pluginMetrics.commandDuration.observe(labels, (performance.now() - startTime) / 1000);
+      this.recordOutcome(pluginName, commandId, outcome, result.error);
+      return result;
+    };
 
-    const fullContext: CommandContext = {
-      ...context,
-      config: this.pluginConfigs.get(pluginName) || {},
-      log: (level, message) => {
-        if (level === 'error') {
-          console.error(`[${pluginName}:${commandId}] ${message}`);
+    const controller = createLinkedController(options.signal);
+    const timeoutMs = command.timeoutMs ?? plugin.timeoutMs;
+    const retry = command.retry;
+    const logs: LogEntry[] = [];
+    const log = this.createLogFunction(logs, pluginName, commandId);
+    const trace = span ? tracer!.createTraceFunction(span) : noopTrace;
+    const active: ActiveCommand = { pluginName, commandId, entityId: context.entity.id, controller };
+    this.activeCommands.add(active);
+
+    const cancelled = () => {
+      const abortError = this.getAbortError(controller.signal, pluginName, commandId);
+      return finish(withLogs({ success: false, error: abortError.message }, logs), abortError);
+    };
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        // Each attempt gets its own timeout; cancelling the command aborts all of them
+        const attemptController = createLinkedController(controller.signal);
+        const clearTimeout = abortAfter(
+          attemptController,
+          timeoutMs,
+          () => new PluginTimeoutError(pluginName, timeoutMs!, commandId)
+        );
+        const fullContext: CommandContext = {
+          ...context,
+          config: this.pluginConfigs.get(pluginName) || {},
+          log,
+          signal: attemptController.signal,
+          ...this.createCapabilities(pluginName, attemptController.signal, commandId),
+          trace,
+        };
+
+        let failure: CommandFailure;
+        try {
+          const output = command.handler(fullContext);
+          const result = withLogs(
+            await collectCommandResult(output, {
+              signal: attemptController.signal,
+              onChunk: (chunk, index) => {
+                this.emit('command:chunk', { pluginName, commandId, entityId: context.entity.id, attempt, index, chunk });
+              },
+            }),
+            logs
+          );
+          failure = { attempt, result };
+
+          if (result.success || !retry || !shouldRetry(retry, failure)) {
+            const duration = performance.now() - startTime;
+
+            this.emit('command:completed', {
+              pluginName,
+              commandId,
+              result,
+              duration,
+            });
+
+            return finish(result);
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return cancelled();
+
+          const errorObj = attemptController.signal.aborted
+            ? this.getAbortError(attemptController.signal, pluginName, commandId)
+            : error instanceof Error ? error : new Error(String(error));
+          failure = { attempt, error: errorObj };
+
+          if (!retry || !shouldRetry(retry, failure)) {
+            if (errorObj instanceof PluginTimeoutError) {
+              return finish(withLogs({ success: false, error: errorObj.message }, logs), errorObj);
+            }
+
+            this.emit('command:error', {
+              pluginName,
+              commandId,
+              error: errorObj,
+            });
+
+            return finish(withLogs({
+              success: false,
+              error: errorObj.message,
+            }, logs));
+          }
+        } finally {
+          clearTimeout();
         }
-      },
+
+        const delayMs = getRetryDelay(retry, attempt);
+        this.emit('command:retry', {
+          pluginName,
+          commandId,
+          attempt,
+          delayMs,
+          error: failure.error?.message ?? failure.result?.error ?? 'Command failed',
+        });
+        try {
+          await delay(delayMs, controller.signal);
+        } catch {
+          return cancelled();
+        }
+      }
+    } finally {
+      this.activeCommands.delete(active);
+    }
+  }
+
+  /**
+   * Cancel in-flight executions of a plugin's commands, optionally narrowed
+   * to one command and/or entity. Returns the number cancelled.
+   */
+  cancelCommand(pluginName: string, commandId?: string, entityId?: string): number {
+    let cancelled = 0;
+    for (const active of this.activeCommands) {
+      if (active.pluginName !== pluginName) continue;
+      if (commandId !== undefined && active.commandId !== commandId) continue;
+      if (entityId !== undefined && active.entityId !== entityId) continue;
+      active.controller.abort();
+      cancelled++;
+    }
+    return cancelled;
+  }
+
+  /**
+   * Run a command for many entities, up to `options.concurrency` at once,
+   * firing 'command:progress' as each finishes. Resolves with one result per
+   * entity ID, in input order. Cancelling (cancelBatch, or the caller's
+   * signal) aborts running entities; ones not yet started resolve as
+   * cancelled without calling the handler. The batch counts as one use of
+   * the command.
+   */
+  async executeCommandBatch(
+    pluginName: string,
+    commandId: string,
+    contexts: CommandRunContext[],
+    options: ExecuteCommandBatchOptions = {}
+  ): Promise<Map<string, CommandResult>> {
+    const results = new Map<string, CommandResult>();
+    const command = this.plugins.get(pluginName)?.commands?.find((c) => c.id === commandId);
+    if (command?.batch === false) {
+      const error = `Command "${commandId}" of plugin "${pluginName}" does not support batch execution`;
+      for (const context of contexts) results.set(context.entity.id, { success: false, error });
+      return results;
+    }
+
+    if (command) this.commandUsage.record(pluginName, commandId);
+
+    // Each entity runs once, even if listed twice
+    const unique = Array.from(new Map(contexts.map((context) => [context.entity.id, context])).values());
+    const batchId = options.batchId ?? `batch-${++this.batchCounter}`;
+    const controller = createLinkedController(options.signal);
+    this.activeBatches.set(batchId, controller);
+    const { concurrency = 4, tracer } = options;
+    let next = 0;
+    let done = 0;
+    let failures = 0;
+
+    const worker = async () => {
+      while (next < unique.length && !controller.signal.aborted) {
+        const context = unique[next++];
+        const result = await this.invokeCommand(pluginName, commandId, context, {
+          signal: controller.signal,
+          ...(tracer && { tracer }),
+        });
+        results.set(context.entity.id, result);
+        done++;
+        if (!result.success) failures++;
+        this.emit('command:progress', {
+          batchId,
+          pluginName,
+          commandId,
+          entityId: context.entity.id,
+          result,
+          done,
+          total: unique.length,
+          failures,
+        });
+      }
     };
 
     try {
-      const result = await command.handler(fullContext);
-      const duration = performance.now() - startTime;
+      await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), unique.length) }, worker));
+    } finally {
+      this.activeBatches.delete(batchId);
+    }
 
-      this.emit('command:completed', {
-        pluginName,
-        commandId,
-        result,
-        duration,
-      });
+    const ordered = new Map<string, CommandResult>();
+    for (const { entity } of unique) {
+      const cancelled = { success: false, error: new PluginCancelledError(pluginName, commandId).message };
+      ordered.set(entity.id, results.get(entity.id) ?? cancelled);
+    }
+    return ordered;
+  }
 
-      return result;
-    } catch (error) {
-      const errorObj = error instanceof Error ? error : new Error(String(error));
+  /**
+   * Cancel an in-flight executeCommandBatch. Returns false if no such batch.
+   */
+  cancelBatch(batchId: string): boolean {
+    const controller = this.activeBatches.get(batchId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
 
-      this.emit('command:error', {
-        pluginName,
-        commandId,
-        error: errorObj,
+  // ===========================================================================
+  // Command Palette
+  // ===========================================================================
+
+  /**
+   * Commands offered for `entity` whose interpolated title fuzzy-matches
+   * `query`, best first. Match quality is boosted for commands executed
+   * often and recently; ties keep getCommandsForEntity() order. An empty
+   * query returns every command, most used first.
+   */
+  searchCommands(query: string, entity: VdomNode, options: CommandSearchOptions = {}): CommandSearchResult[] {
+    const entityTitle = this.entityTitle(entity);
+    const now = Date.now();
+    const results: CommandSearchResult[] = [];
+
+    for (const command of this.getCommandsForEntity(entity)) {
+      const title = interpolateTitle(command.title, entityTitle);
+      const match = fuzzyMatch(query, title);
+      if (!match) continue;
+      results.push({
+        command,
+        title,
+        highlights: match.highlights,
+        score: match.score + this.commandUsage.getBoost(command.pluginName, command.id, now),
       });
+    }
 
-      return {
-        success: false,
-        error: errorObj.message,
-      };
+    // Array.prototype.sort is stable, so equal scores keep menu order
+    results.sort((a, b) => b.score - a.score);
+    return options.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /** Forget which commands were used, for one plugin or all of them */
+  clearCommandUsage(pluginName?: string): void {
+    this.commandUsage.clear(pluginName);
+  }
+
+  // ===========================================================================
+  // Keyboard Shortcuts
+  // ===========================================================================
+
+  /**
+   * Every command that has a shortcut by default or by override, in
+   * registration order.
+   */
+  getShortcuts(): ShortcutBinding[] {
+    const bindings: ShortcutBinding[] = [];
+    for (const plugin of this.plugins.values()) {
+      const overrides = this.shortcutOverrides.get(plugin.name) ?? {};
+      for (const command of plugin.commands ?? []) {
+        const overridden = command.id in overrides;
+        if (!command.shortcut && !overridden) continue;
+        bindings.push({
+          pluginName: plugin.name,
+          commandId: command.id,
+          accelerator: this.getEffectiveShortcut(plugin.name, command),
+          ...(command.shortcut && { defaultAccelerator: normalizeAccelerator(command.shortcut, this.shortcutPlatform) }),
+          overridden,
+        });
+      }
+    }
+    return bindings;
+  }
+
+  /** Accelerators claimed by several commands of registered plugins */
+  getShortcutConflicts(): ShortcutConflict[] {
+    return findShortcutConflicts(this.getShortcutClaims());
+  }
+
+  /**
+   * Rebind a command, or unbind it with null. The override is persisted
+   * with the plugin's settings; binding a command back to its default
+   * drops the override. Throws if the accelerator does not parse. Returns
+   * the conflicts the new binding is part of, which are also emitted as
+   * 'shortcut:conflict'.
+   */
+  setShortcut(pluginName: string, commandId: string, accelerator: string | null): ShortcutConflict[] {
+    const command = this.getShortcutCommand(pluginName, commandId);
+    const normalized = accelerator === null ? null : normalizeAccelerator(accelerator, this.shortcutPlatform);
+    const declared = command.shortcut ? normalizeAccelerator(command.shortcut, this.shortcutPlatform) : null;
+
+    const overrides = { ...this.shortcutOverrides.get(pluginName) };
+    if (normalized === declared) delete overrides[commandId];
+    else overrides[commandId] = normalized;
+    if (Object.keys(overrides).length > 0) this.shortcutOverrides.set(pluginName, overrides);
+    else this.shortcutOverrides.delete(pluginName);
+
+    this.saveSettings([pluginName]);
+    this.emit('shortcut:changed', { pluginName, commandId, accelerator: normalized });
+    return this.reportShortcutConflicts((name, id) => name === pluginName && id === commandId);
+  }
+
+  /**
+   * Drop the user's override of one command, or of every command of the
+   * plugin without `commandId`, restoring the declared shortcuts.
+   */
+  resetShortcut(pluginName: string, commandId?: string): void {
+    const overrides = this.shortcutOverrides.get(pluginName);
+    if (!overrides) return;
+    const plugin = this.plugins.get(pluginName)!;
+
+    const reset = commandId === undefined ? Object.keys(overrides) : [commandId].filter((id) => id in overrides);
+    if (reset.length === 0) return;
+
+    const remaining = { ...overrides };
+    for (const id of reset) delete remaining[id];
+    if (Object.keys(remaining).length > 0) this.shortcutOverrides.set(pluginName, remaining);
+    else this.shortcutOverrides.delete(pluginName);
+
+    this.saveSettings([pluginName]);
+    for (const id of reset) {
+      const command = plugin.commands?.find((cmd) => cmd.id === id);
+      const accelerator = command ? this.getEffectiveShortcut(pluginName, command) : null;
+      this.emit('shortcut:changed', { pluginName, commandId: id, accelerator });
+    }
+    this.reportShortcutConflicts((name, id) => name === pluginName && reset.includes(id));
+  }
+
+  /**
+   * The command a key press triggers for the focused entity: the first
+   * command offered by getCommandsForEntity() whose shortcut matches.
+   */
+  resolveShortcut(event: ShortcutKeyEvent, entity: VdomNode): ResolvedCommand | undefined {
+    const accelerator = acceleratorFromEvent(event);
+    if (!accelerator) return undefined;
+    const pressed = formatAccelerator(accelerator, this.shortcutPlatform);
+    return this.getCommandsForEntity(entity).find((command) => command.shortcut === pressed);
+  }
+
+  /** Reject plugins whose commands declare shortcuts that do not parse */
+  private checkShortcuts(plugin: VdomPlugin): void {
+    for (const command of plugin.commands ?? []) {
+      if (command.shortcut === undefined) continue;
+      try {
+        normalizeAccelerator(command.shortcut, this.shortcutPlatform);
+      } catch (error) {
+        throw new Error(`Plugin "${plugin.name}" command "${command.id}": ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Load persisted overrides for `plugin`. Overrides for commands it no
+   * longer has, or that no longer parse, are dropped.
+   */
+  private restoreShortcuts(plugin: VdomPlugin, saved: Record<string, string | null>): void {
+    const overrides: Record<string, string | null> = {};
+    for (const [commandId, accelerator] of Object.entries(saved)) {
+      if (!plugin.commands?.some((command) => command.id === commandId)) continue;
+      if (accelerator === null) {
+        overrides[commandId] = null;
+        continue;
+      }
+      try {
+        overrides[commandId] = normalizeAccelerator(accelerator, this.shortcutPlatform);
+      } catch {
+        // Fall back to the declared shortcut
+      }
+    }
+    if (Object.keys(overrides).length > 0) this.shortcutOverrides.set(plugin.name, overrides);
+  }
+
+  private getShortcutCommand(pluginName: string, commandId: string): PluginCommand {
+    const plugin = this.plugins.get(pluginName);
+    if (!plugin) {
+      throw new Error(`Plugin "${pluginName}" is not registered`);
+    }
+    const command = plugin.commands?.find((cmd) => cmd.id === commandId);
+    if (!command) {
+      throw new Error(`Command "${commandId}" not found in plugin "${pluginName}"`);
+    }
+    return command;
+  }
+
+  /** Normalized shortcut of `command` after user overrides; null if it has none */
+  private getEffectiveShortcut(pluginName: string, command: PluginCommand): string | null {
+    const overrides = this.shortcutOverrides.get(pluginName);
+    if (overrides && command.id in overrides) return overrides[command.id];
+    return command.shortcut ? normalizeAccelerator(command.shortcut, this.shortcutPlatform) : null;
+  }
+
+  private getShortcutClaims(): ShortcutClaim[] {
+    const claims: ShortcutClaim[] = [];
+    for (const plugin of this.plugins.values()) {
+      for (const command of plugin.commands ?? []) {
+        const accelerator = this.getEffectiveShortcut(plugin.name, command);
+        if (accelerator) {
+          claims.push({ pluginName: plugin.name, commandId: command.id, accelerator, contexts: command.contexts });
+        }
+      }
     }
+    return claims;
+  }
+
+  /** Emit 'shortcut:conflict' for each conflict involving a command that matches `involves` */
+  private reportShortcutConflicts(involves: (pluginName: string, commandId: string) => boolean): ShortcutConflict[] {
+    const conflicts = this.getShortcutConflicts().filter((conflict) =>
+      conflict.commands.some((command) => involves(command.pluginName, command.commandId))
+    );
+    for (const conflict of conflicts) this.emit('shortcut:conflict', conflict);
+    return conflicts;
   }
 }
 
+/**
+ * Fill `result.data` from the run's emits: overlays, badges and annotations
+ * are concatenated in emit order and stats objects merged. Fields the
+ * handler returned itself are kept as returned.
+ */
+function assembleResult(result: PluginResult, emitted: EmittedData): PluginResult {
+  const assembled: NonNullable<PluginResult['data']> = {};
+  if (emitted.overlays) assembled.overlays = emitted.overlays.flat();
+  if (emitted.badges) assembled.badges = emitted.badges.flat();
+  if (emitted.annotations) assembled.annotations = emitted.annotations.flat();
+  if (emitted.stats) assembled.stats = Object.assign({}, ...emitted.stats);
+
+  if (Object.keys(assembled).length === 0) return result;
+  return { ...result, data: { ...assembled, ...result.data } };
+}
+
+/**
+ * Attributes recorded on a plugin or command span when it ends.
+ */
+function traceOutcome(result: PluginResult | CommandResult, cached = false): TraceAttributes {
+  return {
+    success: result.success,
+    ...(result.error !== undefined && { error: result.error }),
+    ...(cached && { cached }),
+  };
+}
+
+function getOutcome(result: PluginResult | CommandResult, error?: unknown): InvocationOutcome {
+  if (result.success) return 'success';
+  if (error instanceof PluginTimeoutError) return 'timeout';
+  if (error instanceof PluginCancelledError) return 'cancelled';
+  return 'error';
+}
+
+/**
+ * Attach the invocation's log buffer to a result, if anything was logged.
+ */
+function withLogs<T extends PluginResult | CommandResult>(result: T, logs: LogEntry[]): T {
+  return logs.length > 0 ? { ...result, logs } : result;
+}
+
 export const pluginManager = new VdomPluginManager();
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersion, compareVersions, satisfies, isValidRange } from './semver';
+import { parseDependency } from './dependencies';
+
+describe('semver', () => {
+  it('parses full versions only', () => {
+    expect(parseVersion('1.2.3-beta.1+build.5')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', '1'],
+    });
+    expect(parseVersion('1.2')).toBeNull();
+    expect(parseVersion('latest')).toBeNull();
+  });
+
+  it('orders prereleases below their release', () => {
+    const order = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta', '1.0.0', '1.0.1', '1.1.0'];
+    const sorted = [...order].reverse().sort((a, b) => compareVersions(parseVersion(a)!, parseVersion(b)!));
+    expect(sorted).toEqual(order);
+  });
+
+  it.each([
+    ['1.2.0', '^1.2', true],
+    ['1.9.4', '^1.2', true],
+    ['2.0.0', '^1.2', false],
+    ['1.1.9', '^1.2', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.4.2', '1.x', true],
+    ['3.0.0', '*', true],
+    ['1.5.0', '>=1.2.0 <2', true],
+    ['2.0.0', '>=1.2.0 <2', false],
+    ['1.2.9', '<=1.2', true],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '>1.2', false],
+    ['1.4.7', '1.0 - 1.4', true],
+    ['1.5.0', '1.0 - 1.4', false],
+    ['3.1.0', '^1.0 || ^3.0', true],
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '1.2.3', false],
+  ])('%s satisfies %s: %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  it('rejects malformed ranges', () => {
+    expect(isValidRange('^1.2')).toBe(true);
+    expect(isValidRange('^one')).toBe(false);
+    expect(isValidRange('>*')).toBe(false);
+    expect(satisfies('1.0.0', 'latest')).toBe(false);
+  });
+});
+
+describe('parseDependency', () => {
+  it('splits names and ranges, including scoped names', () => {
+    expect(parseDependency('coord-table-detector@^1.2')).toEqual({ name: 'coord-table-detector', range: '^1.2' });
+    expect(parseDependency('orphan-detector')).toEqual({ name: 'orphan-detector' });
+    expect(parseDependency('@acme/tables@~2.0')).toEqual({ name: '@acme/tables', range: '~2.0' });
+    expect(parseDependency('@acme/tables')).toEqual({ name: '@acme/tables' });
+  });
+});
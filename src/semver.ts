@@ -0,0 +1,209 @@
+/**
+ * Minimal semver support for plugin manifests: versions and npm-style
+ * ranges.
+ *
+ * Ranges support exact versions, comparators (`>=1.2.0 <2`), caret (`^1.2`),
+ * tilde (`~1.2.3`), x-ranges (`1.x`, `1`, `*`), hyphen ranges
+ * (`1.0 - 1.4`) and `||`. Prerelease versions compare below their release
+ * but are otherwise matched like any other version.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+/** Like VERSION_PATTERN, but minor and patch may be missing or x/X/* */
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*])(?:\.(\d+|[xX*])(?:-([0-9A-Za-z.-]+))?)?)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a full `major.minor.patch[-prerelease]` version. Returns null if
+ * `version` is not valid semver.
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release ranks above any of its prereleases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) return Number(a[i]) - Number(b[i]);
+    if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Negative if `a` < `b`, positive if `a` > `b`, 0 if equal.
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+interface PartialVersion {
+  major: number;
+  minor?: number;
+  patch?: number;
+  prerelease: string[];
+}
+
+function parsePartial(text: string): PartialVersion | 'any' | null {
+  const match = text.match(PARTIAL_PATTERN);
+  if (!match) return null;
+  const part = (value: string | undefined) =>
+    value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value);
+
+  const major = part(match[1]);
+  if (major === undefined) return 'any';
+  const minor = part(match[2]);
+  return {
+    major,
+    minor,
+    patch: minor === undefined ? undefined : part(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function makeVersion(major: number, minor = 0, patch = 0, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+/** Lowest version above every version matching `partial` */
+function upperBound(partial: PartialVersion): SemVer {
+  if (partial.minor === undefined) return makeVersion(partial.major + 1);
+  if (partial.patch === undefined) return makeVersion(partial.major, partial.minor + 1);
+  return makeVersion(partial.major, partial.minor, partial.patch + 1);
+}
+
+function lowerBound(partial: PartialVersion): SemVer {
+  return makeVersion(partial.major, partial.minor, partial.patch, partial.prerelease);
+}
+
+function parseComparator(token: string): Comparator[] | null {
+  const match = token.match(/^(\^|~|<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+  const [, prefix = '', rest] = match;
+  const partial = parsePartial(rest);
+  if (partial === null) return null;
+  if (partial === 'any') return prefix === '<' || prefix === '>' ? null : [];
+
+  const low = lowerBound(partial);
+  switch (prefix) {
+    case '^': {
+      // Changes to the leftmost non-zero part are breaking
+      const high =
+        partial.major > 0 || partial.minor === undefined
+          ? makeVersion(partial.major + 1)
+          : partial.minor > 0 || partial.patch === undefined
+            ? makeVersion(0, partial.minor + 1)
+            : makeVersion(0, 0, partial.patch! + 1);
+      return [{ operator: '>=', version: low }, { operator: '<', version: high }];
+    }
+    case '~': {
+      const high =
+        partial.minor === undefined ? makeVersion(partial.major + 1) : makeVersion(partial.major, partial.minor + 1);
+      return [{ operator: '>=', version: low }, { operator: '<', version: high }];
+    }
+    case '>':
+      return partial.patch === undefined
+        ? [{ operator: '>=', version: upperBound(partial) }]
+        : [{ operator: '>', version: low }];
+    case '>=':
+      return [{ operator: '>=', version: low }];
+    case '<':
+      return [{ operator: '<', version: low }];
+    case '<=':
+      return partial.patch === undefined
+        ? [{ operator: '<', version: upperBound(partial) }]
+        : [{ operator: '<=', version: low }];
+    default:
+      return partial.patch === undefined
+        ? [{ operator: '>=', version: low }, { operator: '<', version: upperBound(partial) }]
+        : [{ operator: '=', version: low }];
+  }
+}
+
+/**
+ * Parse a range into alternatives (joined by `||`) of comparators that must
+ * all match. Returns null if `range` is not a valid range.
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const alternatives: Comparator[][] = [];
+
+  for (const alternative of range.split('||')) {
+    const hyphen = alternative.trim().match(/^(\S+)\s+-\s+(\S+)$/);
+    const tokens = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : alternative.trim().replace(/(\^|~|<=|>=|<|>|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+
+    const comparators: Comparator[] = [];
+    for (const token of tokens.length > 0 ? tokens : ['*']) {
+      const parsed = parseComparator(token);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    alternatives.push(comparators);
+  }
+
+  return alternatives;
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+function matches(comparator: Comparator, target: SemVer): boolean {
+  const order = compareVersions(target, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    case '=':
+      return order === 0;
+  }
+}
+
+/**
+ * Whether `version` is in `range`. False for invalid versions or ranges.
+ */
+export function satisfies(version: string, range: string): boolean {
+  const target = parseVersion(version);
+  const alternatives = parseRange(range);
+  if (!target || !alternatives) return false;
+  return alternatives.some((comparators) => comparators.every((c) => matches(c, target)));
+}
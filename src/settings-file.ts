@@ -0,0 +1,54 @@
+/**
+ * Node-only settings store. Kept out of the main entry point so browser
+ * bundles never pull in `node:fs`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { PluginSettingsSnapshot, PluginSettingsStore } from './types';
+import { parseSettingsSnapshot, PLUGIN_SETTINGS_VERSION } from './settings';
+
+/**
+ * Persists settings to a JSON file. Reads synchronously (the manager reads
+ * during register); writes go to a temp file that is renamed into place so a
+ * crash mid-write never leaves a truncated file. A missing file reads as
+ * null; an unreadable or corrupt one, or one from another settings version,
+ * throws, and the manager logs it.
+ */
+export class JsonFileSettingsStore implements PluginSettingsStore {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  read(): PluginSettingsSnapshot | null {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${this.path}: ${(error as Error).message}`);
+    }
+    const snapshot = parseSettingsSnapshot(parsed);
+    if (!snapshot) {
+      throw new Error(`${this.path} does not hold version ${PLUGIN_SETTINGS_VERSION} settings`);
+    }
+    return snapshot;
+  }
+
+  async write(snapshot: PluginSettingsSnapshot): Promise<void> {
+    const tempPath = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(snapshot, null, 2), 'utf8');
+    await rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  PLUGIN_SETTINGS_VERSION,
+  createSettingsSnapshot,
+  parseSettingsSnapshot,
+  MemorySettingsStore,
+  LocalStorageSettingsStore,
+} from './settings';
+import { JsonFileSettingsStore } from './settings-file';
+
+function createMockStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+describe('parseSettingsSnapshot', () => {
+  it('accepts the current format', () => {
+    const snapshot = createSettingsSnapshot({ a: { enabled: true, config: { x: 1 } } });
+    expect(parseSettingsSnapshot(JSON.parse(JSON.stringify(snapshot)))).toEqual(snapshot);
+  });
+
+  it('rejects other versions and malformed data', () => {
+    expect(parseSettingsSnapshot({ version: PLUGIN_SETTINGS_VERSION + 1, plugins: {} })).toBeNull();
+    expect(parseSettingsSnapshot({ version: PLUGIN_SETTINGS_VERSION })).toBeNull();
+    expect(parseSettingsSnapshot('nope')).toBeNull();
+  });
+
+  it('drops malformed plugin fields', () => {
+    const parsed = parseSettingsSnapshot({
+      version: PLUGIN_SETTINGS_VERSION,
+      plugins: { a: { enabled: 'yes', config: { x: 1 } }, b: 3 },
+    });
+    expect(parsed?.plugins).toEqual({ a: { config: { x: 1 } } });
+  });
+});
+
+describe('MemorySettingsStore', () => {
+  it('round-trips a copy of the snapshot', () => {
+    const store = new MemorySettingsStore();
+    const snapshot = createSettingsSnapshot({ a: { enabled: false } });
+    store.write(snapshot);
+    snapshot.plugins.a.enabled = true;
+
+    expect(store.read()?.plugins.a.enabled).toBe(false);
+  });
+});
+
+describe('LocalStorageSettingsStore', () => {
+  it('round-trips through the storage key', () => {
+    const storage = createMockStorage();
+    const store = new LocalStorageSettingsStore('settings', storage);
+    const snapshot = createSettingsSnapshot({ a: { enabled: true } });
+
+    expect(store.read()).toBeNull();
+    store.write(snapshot);
+    expect(store.read()).toEqual(snapshot);
+  });
+
+  it('throws on corrupt JSON and other versions so the manager can report them', () => {
+    const storage = createMockStorage();
+    const store = new LocalStorageSettingsStore('settings', storage);
+
+    storage.setItem('settings', '{not json');
+    expect(() => store.read()).toThrow('Invalid JSON in storage key "settings"');
+
+    storage.setItem('settings', JSON.stringify({ version: PLUGIN_SETTINGS_VERSION + 1, plugins: {} }));
+    expect(() => store.read()).toThrow(`Storage key "settings" does not hold version ${PLUGIN_SETTINGS_VERSION} settings`);
+  });
+});
+
+describe('JsonFileSettingsStore', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('returns null when the file does not exist', () => {
+    dir = mkdtempSync(join(tmpdir(), 'vdom-settings-'));
+    expect(new JsonFileSettingsStore(join(dir, 'missing.json')).read()).toBeNull();
+  });
+
+  it('writes into nested directories and reads back', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'vdom-settings-'));
+    const path = join(dir, 'nested', 'settings.json');
+    const store = new JsonFileSettingsStore(path);
+    const snapshot = createSettingsSnapshot({ a: { enabled: true, config: { x: 2 } } });
+
+    await store.write(snapshot);
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(snapshot);
+    expect(store.read()).toEqual(snapshot);
+  });
+
+  it('throws on corrupt files so the manager can report them', () => {
+    dir = mkdtempSync(join(tmpdir(), 'vdom-settings-'));
+    const path = join(dir, 'settings.json');
+    writeFileSync(path, '{not json');
+    expect(() => new JsonFileSettingsStore(path).read()).toThrow(`Invalid JSON in ${path}`);
+  });
+
+  it('throws on files from another settings version', () => {
+    dir = mkdtempSync(join(tmpdir(), 'vdom-settings-'));
+    const path = join(dir, 'settings.json');
+    writeFileSync(path, JSON.stringify({ version: PLUGIN_SETTINGS_VERSION + 1, plugins: {} }));
+    expect(() => new JsonFileSettingsStore(path).read()).toThrow(
+      `${path} does not hold version ${PLUGIN_SETTINGS_VERSION} settings`
+    );
+  });
+
+  it('throws when the file exists but cannot be read', () => {
+    dir = mkdtempSync(join(tmpdir(), 'vdom-settings-'));
+    // A directory where the file should be: EISDIR rather than ENOENT
+    expect(() => new JsonFileSettingsStore(dir!).read()).toThrow();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Persistent plugin settings.
+ *
+ * The manager reads a PluginSettingsStore when plugins register and writes
+ * (debounced) whenever enable/disable/setConfig change something.
+ */
+
+import type {
+  PluginSettingsSnapshot,
+  PluginSettingsStore,
+  PluginSettings,
+  SettingsProfile,
+} from './types';
+
+/** Current on-disk format of PluginSettingsSnapshot */
+export const PLUGIN_SETTINGS_VERSION = 1;
+
+/** `format` marker and version of exportProfiles() output */
+export const PROFILE_EXPORT_FORMAT = 'vdom-plugin-profiles';
+export const PROFILE_EXPORT_VERSION = 1;
+
+export function createSettingsSnapshot(
+  plugins: Record<string, PluginSettings> = {},
+  profiles?: Record<string, SettingsProfile>
+): PluginSettingsSnapshot {
+  return {
+    version: PLUGIN_SETTINGS_VERSION,
+    updatedAt: Date.now(),
+    plugins,
+    ...(profiles && { profiles }),
+  };
+}
+
+function parseShortcutOverrides(value: object): Record<string, string | null> {
+  const shortcuts: Record<string, string | null> = {};
+  for (const [commandId, accelerator] of Object.entries(value)) {
+    if (typeof accelerator === 'string' || accelerator === null) shortcuts[commandId] = accelerator;
+  }
+  return shortcuts;
+}
+
+function parsePluginSettingsMap(value: unknown): Record<string, PluginSettings> {
+  const plugins: Record<string, PluginSettings> = {};
+  if (typeof value !== 'object' || value === null) return plugins;
+
+  for (const [name, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { enabled, config, shortcuts } = entry as Record<string, unknown>;
+    plugins[name] = {
+      ...(typeof enabled === 'boolean' && { enabled }),
+      ...(typeof config === 'object' && config !== null && { config: config as Record<string, unknown> }),
+      ...(typeof shortcuts === 'object' && shortcuts !== null && { shortcuts: parseShortcutOverrides(shortcuts) }),
+    };
+  }
+  return plugins;
+}
+
+/**
+ * Validate one untrusted profile. Returns null if it has no usable name or
+ * plugin map.
+ */
+export function parseSettingsProfile(value: unknown): SettingsProfile | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.name !== 'string' || obj.name === '') return null;
+  if (typeof obj.plugins !== 'object' || obj.plugins === null) return null;
+
+  return {
+    name: obj.name,
+    createdAt: typeof obj.createdAt === 'number' ? obj.createdAt : 0,
+    plugins: parsePluginSettingsMap(obj.plugins),
+  };
+}
+
+/**
+ * Validate untrusted persisted data. Returns null for anything that is not a
+ * snapshot in the current format, so stale or corrupt settings fall back to
+ * plugin defaults instead of failing registration.
+ */
+export function parseSettingsSnapshot(value: unknown): PluginSettingsSnapshot | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const obj = value as Record<string, unknown>;
+  if (obj.version !== PLUGIN_SETTINGS_VERSION) return null;
+  if (typeof obj.plugins !== 'object' || obj.plugins === null) return null;
+
+  let profiles: Record<string, SettingsProfile> | undefined;
+  if (typeof obj.profiles === 'object' && obj.profiles !== null) {
+    profiles = {};
+    for (const entry of Object.values(obj.profiles as Record<string, unknown>)) {
+      const profile = parseSettingsProfile(entry);
+      if (profile) profiles[profile.name] = profile;
+    }
+  }
+
+  return {
+    version: PLUGIN_SETTINGS_VERSION,
+    updatedAt: typeof obj.updatedAt === 'number' ? obj.updatedAt : 0,
+    plugins: parsePluginSettingsMap(obj.plugins),
+    ...(profiles && { profiles }),
+  };
+}
+
+// =============================================================================
+// Profile Export / Import
+// =============================================================================
+
+export function serializeProfiles(profiles: SettingsProfile[]): string {
+  return JSON.stringify(
+    {
+      format: PROFILE_EXPORT_FORMAT,
+      version: PROFILE_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      profiles,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse exportProfiles() output. Throws if the document is not a profile
+ * export in a supported version; individual malformed profiles are dropped.
+ */
+export function parseProfileExport(data: string | unknown): SettingsProfile[] {
+  const value = typeof data === 'string' ? JSON.parse(data) : data;
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Invalid profile export: expected an object');
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (obj.format !== PROFILE_EXPORT_FORMAT) {
+    throw new Error(`Invalid profile export: format must be "${PROFILE_EXPORT_FORMAT}"`);
+  }
+  if (obj.version !== PROFILE_EXPORT_VERSION) {
+    throw new Error(`Unsupported profile export version: ${String(obj.version)}`);
+  }
+  if (!Array.isArray(obj.profiles)) {
+    throw new Error('Invalid profile export: profiles must be an array');
+  }
+
+  return obj.profiles
+    .map(parseSettingsProfile)
+    .filter((profile): profile is SettingsProfile => profile !== null);
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * Keeps settings in memory. Useful for tests and as a per-session default.
+ */
+export class MemorySettingsStore implements PluginSettingsStore {
+  private snapshot: PluginSettingsSnapshot | null;
+
+  constructor(initial?: PluginSettingsSnapshot) {
+    this.snapshot = initial ?? null;
+  }
+
+  read(): PluginSettingsSnapshot | null {
+    return this.snapshot && structuredClone(this.snapshot);
+  }
+
+  write(snapshot: PluginSettingsSnapshot): void {
+    this.snapshot = structuredClone(snapshot);
+  }
+}
+
+/**
+ * Persists settings as JSON under one key of a Web Storage area. A missing
+ * key reads as null; corrupt JSON or another settings version throws, and the
+ * manager logs it.
+ */
+export class LocalStorageSettingsStore implements PluginSettingsStore {
+  private readonly key: string;
+  private readonly storage: Storage;
+
+  constructor(key = 'vdom-plugins:settings', storage: Storage = globalThis.localStorage) {
+    this.key = key;
+    this.storage = storage;
+  }
+
+  read(): PluginSettingsSnapshot | null {
+    const raw = this.storage.getItem(this.key);
+    if (raw === null) return null;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid JSON in storage key "${this.key}": ${(error as Error).message}`);
+    }
+    const snapshot = parseSettingsSnapshot(parsed);
+    if (!snapshot) {
+      throw new Error(`Storage key "${this.key}" does not hold version ${PLUGIN_SETTINGS_VERSION} settings`);
+    }
+    return snapshot;
+  }
+
+  write(snapshot: PluginSettingsSnapshot): void {
+    this.storage.setItem(this.key, JSON.stringify(snapshot));
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acceleratorFromEvent,
+  findShortcutConflicts,
+  formatAccelerator,
+  normalizeAccelerator,
+  parseAccelerator,
+} from './shortcuts';
+
+describe('parseAccelerator', () => {
+  it('normalizes modifier order, aliases and key names', () => {
+    expect(normalizeAccelerator('shift+ctrl+m')).toBe('Ctrl+Shift+M');
+    expect(normalizeAccelerator('Control+Option+Esc')).toBe('Ctrl+Alt+Escape');
+    expect(normalizeAccelerator('Cmd+up')).toBe('Meta+ArrowUp');
+    expect(normalizeAccelerator('f12')).toBe('F12');
+    expect(normalizeAccelerator('Ctrl++')).toBe('Ctrl+Plus');
+  });
+
+  it('maps Mod to Cmd on macOS and Ctrl elsewhere', () => {
+    expect(normalizeAccelerator('Mod+Shift+K', 'mac')).toBe('Shift+Cmd+K');
+    expect(normalizeAccelerator('CmdOrCtrl+Shift+K', 'other')).toBe('Ctrl+Shift+K');
+    expect(parseAccelerator('Mod+K', 'mac')).toEqual({ key: 'K', ctrl: false, alt: false, shift: false, meta: true });
+  });
+
+  it('rejects malformed accelerators', () => {
+    expect(() => parseAccelerator('Ctrl+')).toThrow('Invalid shortcut "Ctrl+": missing key');
+    expect(() => parseAccelerator('Ctrl+Shift')).toThrow('missing key after modifiers');
+    expect(() => parseAccelerator('Ctrl+Hyper+K')).toThrow('unknown modifier "Hyper"');
+    expect(() => parseAccelerator('Ctrl+Banana')).toThrow('unknown key "Banana"');
+    expect(() => parseAccelerator('Mod+Ctrl+K')).toThrow('"Ctrl" repeats a modifier');
+  });
+});
+
+describe('acceleratorFromEvent', () => {
+  it('matches the accelerator the event was declared as', () => {
+    const event = { key: 'm', code: 'KeyM', ctrlKey: true, shiftKey: true };
+    expect(formatAccelerator(acceleratorFromEvent(event)!)).toBe('Ctrl+Shift+M');
+  });
+
+  it('reads characters from the layout rather than the physical key', () => {
+    // AZERTY: the key labelled A sits where QWERTY has Q
+    expect(formatAccelerator(acceleratorFromEvent({ key: 'a', code: 'KeyQ', ctrlKey: true })!)).toBe('Ctrl+A');
+    expect(formatAccelerator(acceleratorFromEvent({ key: '@', code: 'Digit2', shiftKey: true })!)).toBe('Shift+@');
+    expect(formatAccelerator(acceleratorFromEvent({ key: ' ', code: 'Space', metaKey: true })!, 'mac')).toBe('Cmd+Space');
+  });
+
+  it('falls back to the physical key when the event names no character', () => {
+    expect(formatAccelerator(acceleratorFromEvent({ key: 'Dead', code: 'KeyN', altKey: true })!)).toBe('Alt+N');
+  });
+
+  it('ignores a lone modifier press', () => {
+    expect(acceleratorFromEvent({ key: 'Control', ctrlKey: true })).toBeNull();
+  });
+});
+
+describe('findShortcutConflicts', () => {
+  it('reports shared accelerators only when the contexts overlap', () => {
+    const conflicts = findShortcutConflicts([
+      { pluginName: 'a', commandId: 'tables', accelerator: 'Ctrl+M', contexts: ['table'] },
+      { pluginName: 'b', commandId: 'figures', accelerator: 'Ctrl+M', contexts: ['figure'] },
+      { pluginName: 'c', commandId: 'any', accelerator: 'Ctrl+K', contexts: ['all'] },
+      { pluginName: 'd', commandId: 'text', accelerator: 'Ctrl+K', contexts: ['text'] },
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        accelerator: 'Ctrl+K',
+        commands: [
+          { pluginName: 'c', commandId: 'any' },
+          { pluginName: 'd', commandId: 'text' },
+        ],
+      },
+    ]);
+  });
+});
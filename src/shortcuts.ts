@@ -0,0 +1,208 @@
+/**
+ * Keyboard shortcuts: parse and normalize accelerator strings such as
+ * "Mod+Shift+M", match them against key events, and find commands that
+ * claim the same keys.
+ */
+
+import type { EntityContextType, ShortcutConflict, ShortcutKeyEvent, ShortcutPlatform } from './types';
+
+/** A parsed accelerator: one key plus the modifiers held with it */
+export interface Accelerator {
+  /** Canonical key name: "M", "5", "Enter", "ArrowUp", "F2", "Plus", ... */
+  key: string;
+  ctrl: boolean;
+  alt: boolean;
+  shift: boolean;
+  meta: boolean;
+}
+
+/** A command's effective shortcut, as checked by findShortcutConflicts */
+export interface ShortcutClaim {
+  pluginName: string;
+  commandId: string;
+  /** Normalized accelerator */
+  accelerator: string;
+  contexts: EntityContextType[];
+}
+
+type Modifier = 'ctrl' | 'alt' | 'shift' | 'meta' | 'mod';
+
+const MODIFIERS: Record<string, Modifier> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  option: 'alt',
+  opt: 'alt',
+  shift: 'shift',
+  meta: 'meta',
+  cmd: 'meta',
+  command: 'meta',
+  super: 'meta',
+  win: 'meta',
+  // Cmd on macOS, Ctrl elsewhere
+  mod: 'mod',
+  cmdorctrl: 'mod',
+  commandorcontrol: 'mod',
+};
+
+const NAMED_KEYS: Record<string, string> = {
+  enter: 'Enter',
+  return: 'Enter',
+  escape: 'Escape',
+  esc: 'Escape',
+  tab: 'Tab',
+  space: 'Space',
+  backspace: 'Backspace',
+  delete: 'Delete',
+  del: 'Delete',
+  insert: 'Insert',
+  ins: 'Insert',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  arrowup: 'ArrowUp',
+  up: 'ArrowUp',
+  arrowdown: 'ArrowDown',
+  down: 'ArrowDown',
+  arrowleft: 'ArrowLeft',
+  left: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+  right: 'ArrowRight',
+  plus: 'Plus',
+};
+
+/** KeyboardEvent.key values of the modifier keys themselves */
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'AltGraph', 'Shift', 'Meta', 'OS']);
+
+/** Canonical name of a key, or undefined if `name` is not one */
+function normalizeKey(name: string): string | undefined {
+  if (name === ' ') return 'Space';
+  if (name === '+') return 'Plus';
+  if ([...name].length === 1) return name.toUpperCase();
+  const named = NAMED_KEYS[name.toLowerCase()];
+  if (named) return named;
+  const fn = /^f([1-9]|1\d|2[0-4])$/i.exec(name);
+  return fn ? `F${fn[1]}` : undefined;
+}
+
+/**
+ * Best guess at the host's platform: macOS and iOS map Mod to Cmd,
+ * everything else to Ctrl.
+ */
+export function detectShortcutPlatform(): ShortcutPlatform {
+  const nav = globalThis.navigator as (Navigator & { userAgentData?: { platform?: string } }) | undefined;
+  const platform =
+    nav?.userAgentData?.platform ??
+    nav?.platform ??
+    (globalThis as { process?: { platform?: string } }).process?.platform ??
+    '';
+  return /mac|darwin|iphone|ipad/i.test(platform) ? 'mac' : 'other';
+}
+
+/**
+ * Parse an accelerator such as "Ctrl+M", "mod+shift+k" or "Alt+ArrowUp".
+ * Modifier and key names are case-insensitive; "Ctrl++" means the plus
+ * key. Throws if the string has no key, an unknown key or a repeated
+ * modifier.
+ */
+export function parseAccelerator(text: string, platform: ShortcutPlatform = 'other'): Accelerator {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid shortcut "${text}": ${reason}`);
+  };
+
+  const parts = text.split('+').map((part) => part.trim());
+  // "Ctrl++" splits into ['Ctrl', '', '']
+  if (parts.length >= 2 && parts[parts.length - 1] === '' && parts[parts.length - 2] === '') {
+    parts.splice(-2, 2, '+');
+  }
+
+  const keyName = parts.pop()!;
+  if (keyName === '') fail('missing key');
+  if (MODIFIERS[keyName.toLowerCase()]) fail('missing key after modifiers');
+  const key = normalizeKey(keyName) ?? fail(`unknown key "${keyName}"`);
+
+  const accelerator: Accelerator = { key, ctrl: false, alt: false, shift: false, meta: false };
+  for (const part of parts) {
+    const modifier = MODIFIERS[part.toLowerCase()] ?? fail(`unknown modifier "${part}"`);
+    const flag = modifier === 'mod' ? (platform === 'mac' ? 'meta' : 'ctrl') : modifier;
+    if (accelerator[flag]) fail(`"${part}" repeats a modifier`);
+    accelerator[flag] = true;
+  }
+  return accelerator;
+}
+
+/**
+ * Canonical string for an accelerator: modifiers in Ctrl, Alt, Shift,
+ * Cmd/Meta order, then the key. Meta is written "Cmd" on macOS.
+ */
+export function formatAccelerator(accelerator: Accelerator, platform: ShortcutPlatform = 'other'): string {
+  const parts: string[] = [];
+  if (accelerator.ctrl) parts.push('Ctrl');
+  if (accelerator.alt) parts.push('Alt');
+  if (accelerator.shift) parts.push('Shift');
+  if (accelerator.meta) parts.push(platform === 'mac' ? 'Cmd' : 'Meta');
+  parts.push(accelerator.key);
+  return parts.join('+');
+}
+
+/** parseAccelerator then formatAccelerator: "mod+shift+m" -> "Ctrl+Shift+M" */
+export function normalizeAccelerator(text: string, platform: ShortcutPlatform = 'other'): string {
+  return formatAccelerator(parseAccelerator(text, platform), platform);
+}
+
+/**
+ * The accelerator a key event represents, or null for a lone modifier
+ * press. The key comes from `key`, so shortcuts follow the user's layout
+ * (Ctrl+A is the key labelled A on AZERTY too). `code` is only used when
+ * `key` names no character, such as a dead key.
+ */
+export function acceleratorFromEvent(event: ShortcutKeyEvent): Accelerator | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const code = event.code ?? '';
+  const key =
+    normalizeKey(event.key) ??
+    (/^Key[A-Z]$/.test(code) ? code.slice(3) : /^Digit\d$/.test(code) ? code.slice(5) : event.key);
+
+  return {
+    key,
+    ctrl: event.ctrlKey ?? false,
+    alt: event.altKey ?? false,
+    shift: event.shiftKey ?? false,
+    meta: event.metaKey ?? false,
+  };
+}
+
+/** Whether two commands can be offered for the same entity */
+function contextsOverlap(a: EntityContextType[], b: EntityContextType[]): boolean {
+  return a.includes('all') || b.includes('all') || a.some((context) => b.includes(context));
+}
+
+/**
+ * Accelerators claimed by more than one command. Commands whose contexts
+ * never overlap (e.g. one for tables, one for figures) share a key without
+ * conflict, because an entity only ever sees one of them.
+ */
+export function findShortcutConflicts(claims: ShortcutClaim[]): ShortcutConflict[] {
+  const byAccelerator = new Map<string, ShortcutClaim[]>();
+  for (const claim of claims) {
+    const group = byAccelerator.get(claim.accelerator);
+    if (group) group.push(claim);
+    else byAccelerator.set(claim.accelerator, [claim]);
+  }
+
+  const conflicts: ShortcutConflict[] = [];
+  for (const [accelerator, group] of byAccelerator) {
+    const clashing = group.filter((claim) =>
+      group.some((other) => other !== claim && contextsOverlap(claim.contexts, other.contexts))
+    );
+    if (clashing.length > 1) {
+      conflicts.push({
+        accelerator,
+        commands: clashing.map(({ pluginName, commandId }) => ({ pluginName, commandId })),
+      });
+    }
+  }
+  return conflicts;
+}
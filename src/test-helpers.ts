@@ -0,0 +1,59 @@
+/**
+ * Fixtures shared by the test files: nodes, a `$` over them, the
+ * document context runEvent() takes and a command context.
+ */
+
+import type { CommandRunContext, PluginRunContext, QueryEngine, VdomNode } from './types';
+
+export function createMockNode(overrides: Partial<VdomNode> = {}): VdomNode {
+  return {
+    id: 'node-1',
+    type: 'table',
+    bbox: { x1: 0, y1: 0, x2: 100, y2: 100 },
+    pageNumber: 1,
+    classNames: [],
+    attributes: {},
+    ...overrides,
+  };
+}
+
+/**
+ * `$` over `nodes`. `matches` decides which nodes a selector returns; by
+ * default every selector returns all of them.
+ */
+export function createMockQueryEngine(
+  nodes: VdomNode[],
+  matches: (node: VdomNode, selector: string) => boolean = () => true
+): QueryEngine {
+  return (selector) => {
+    const found = nodes.filter((node) => matches(node, selector));
+    return {
+      toArray: () => found,
+      length: found.length,
+      first: () => found[0],
+      filter: (predicate) => ({ toArray: () => found.filter(predicate) }),
+    };
+  };
+}
+
+/** Document 'doc-1' with `nodes` on a single page */
+export function createMockRunContext(
+  nodes: VdomNode[] = [],
+  $: QueryEngine = createMockQueryEngine(nodes)
+): PluginRunContext {
+  return {
+    document: {
+      id: 'doc-1',
+      getAllNodes: () => nodes,
+      getNode: (id) => nodes.find((n) => n.id === id),
+      pages: [nodes],
+    },
+    $,
+  };
+}
+
+/** Command context targeting a default mock node in 'doc-1' */
+export function createCommandContext(): CommandRunContext {
+  const node = createMockNode();
+  return { entity: node, bbox: node.bbox, pageNumber: node.pageNumber, documentId: 'doc-1' };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Tracer, noopTrace } from './tracing';
+
+describe('Tracer', () => {
+  it('nests ctx.trace spans and ends them when their promise settles', async () => {
+    const tracer = new Tracer();
+    const root = tracer.start('tables', 'plugin');
+    const trace = tracer.createTraceFunction(root);
+
+    const value = await trace('detect', async (child) => {
+      child('score', () => 1, { rows: 3 });
+      await Promise.resolve();
+      return 'done';
+    });
+    await expect(trace('fail', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    tracer.end(root);
+
+    const spans = tracer.getSpans();
+    expect(value).toBe('done');
+    expect(spans.map((s) => [s.name, s.parentId, s.category])).toEqual([
+      ['tables', undefined, 'plugin'],
+      ['detect', root.id, 'user'],
+      ['score', spans[1].id, 'user'],
+      ['fail', root.id, 'user'],
+    ]);
+    expect(spans[2].attributes).toEqual({ rows: 3 });
+    expect(spans[3].attributes).toEqual({ error: 'boom' });
+    expect(spans.every((s) => s.end !== undefined && s.end >= s.start)).toBe(true);
+  });
+
+  it('exports finished spans as Chrome trace events on per-name tracks', () => {
+    const tracer = new Tracer();
+    const run = tracer.start('runEvent interactive', 'run');
+    const first = tracer.start('tables', 'plugin', {}, run);
+    const second = tracer.start('tables', 'plugin', {}, run);
+    tracer.instant('emit badges', 'emit', {}, first);
+    tracer.start('never-ended', 'user', {}, first);
+    tracer.end(first, { success: true });
+    tracer.end(second);
+    tracer.end(run);
+
+    const { traceEvents, displayTimeUnit } = tracer.toChromeTrace();
+    const byName = (name: string) => traceEvents.filter((e) => e.name === name && e.ph !== 'M');
+
+    expect(displayTimeUnit).toBe('ms');
+    expect(traceEvents.filter((e) => e.ph === 'M').map((e) => e.args!.name)).toEqual([
+      'runs',
+      'tables',
+      'tables (2)',
+    ]);
+    expect(byName('tables').map((e) => e.tid)).toEqual([2, 3]);
+    expect(byName('tables')[0]).toMatchObject({
+      ph: 'X',
+      cat: 'plugin',
+      ts: first.start * 1000,
+      dur: (first.end! - first.start) * 1000,
+      args: { success: true },
+    });
+    expect(byName('emit badges')).toEqual([expect.objectContaining({ ph: 'i', s: 't', tid: 2 })]);
+    expect(byName('never-ended')).toEqual([]);
+  });
+
+  it('exports plain JSON and clears', () => {
+    const tracer = new Tracer();
+    tracer.end(tracer.start('a', 'command'));
+
+    expect(JSON.parse(JSON.stringify(tracer))).toEqual({
+      spans: [expect.objectContaining({ id: 1, name: 'a', category: 'command' })],
+    });
+    tracer.clear();
+    expect(tracer.getSpans()).toEqual([]);
+  });
+
+  it('noopTrace just calls the function', () => {
+    expect(noopTrace('x', (trace) => trace('y', () => 42))).toBe(42);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Execution traces: spans for runs, plugin handlers, commands, emits and
+ * ctx.trace calls, exportable as plain JSON or Chrome trace-event format.
+ */
+
+import type { TraceAttributes, TraceCategory, TraceFunction, TraceSpan } from './types';
+
+/**
+ * One entry of the Chrome trace-event format ('X' complete events, 'i'
+ * instant events, 'M' thread name metadata). Times are in microseconds.
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'X' | 'i' | 'M';
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  /** Scope of an instant event: 't' = thread */
+  s?: 't';
+  args?: Record<string, unknown>;
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ms';
+}
+
+/** ctx.trace when tracing is off: runs `fn` without recording anything */
+export const noopTrace: TraceFunction = (_name, fn) => fn(noopTrace);
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Spans that get their own track in the Chrome export; others join their parent's */
+const LANE_CATEGORIES: ReadonlySet<TraceCategory> = new Set(['run', 'plugin', 'command']);
+
+/**
+ * Collects spans. Pass one to runEvent/executeCommand (`{ tracer }`) to trace
+ * a single call, or to the manager to trace everything. Spans accumulate
+ * until clear().
+ */
+export class Tracer {
+  private spans: TraceSpan[] = [];
+  private spanCounter = 0;
+
+  start(name: string, category: TraceCategory, attributes: TraceAttributes = {}, parent?: TraceSpan): TraceSpan {
+    const span: TraceSpan = {
+      id: ++this.spanCounter,
+      ...(parent && { parentId: parent.id }),
+      name,
+      category,
+      start: performance.now(),
+      attributes: { ...attributes },
+    };
+    this.spans.push(span);
+    return span;
+  }
+
+  /** Close `span`, adding `attributes` to it. Ending twice keeps the first end */
+  end(span: TraceSpan, attributes: TraceAttributes = {}): void {
+    if (span.end !== undefined) return;
+    span.end = performance.now();
+    Object.assign(span.attributes, attributes);
+  }
+
+  /** Record a zero-length span, such as an emit */
+  instant(name: string, category: TraceCategory, attributes: TraceAttributes = {}, parent?: TraceSpan): TraceSpan {
+    const span = this.start(name, category, attributes, parent);
+    span.end = span.start;
+    return span;
+  }
+
+  /**
+   * ctx.trace for a handler running in `parent`. Spans end when `fn` returns
+   * or its promise settles; a throw or rejection is recorded as an `error`
+   * attribute and rethrown.
+   */
+  createTraceFunction(parent: TraceSpan): TraceFunction {
+    return <T>(name: string, fn: (trace: TraceFunction) => T, attributes?: TraceAttributes): T => {
+      const span = this.start(name, 'user', attributes, parent);
+      let value: T;
+      try {
+        value = fn(this.createTraceFunction(span));
+      } catch (error) {
+        this.end(span, { error: errorMessage(error) });
+        throw error;
+      }
+
+      if (!isPromiseLike(value)) {
+        this.end(span);
+        return value;
+      }
+      return Promise.resolve(value).then(
+        (settled) => {
+          this.end(span);
+          return settled;
+        },
+        (error: unknown) => {
+          this.end(span, { error: errorMessage(error) });
+          throw error;
+        }
+      ) as T;
+    };
+  }
+
+  /** Recorded spans in start order, including ones still open */
+  getSpans(): TraceSpan[] {
+    return this.spans.map((span) => ({ ...span, attributes: { ...span.attributes } }));
+  }
+
+  clear(): void {
+    this.spans = [];
+  }
+
+  toJSON(): { spans: TraceSpan[] } {
+    return { spans: this.getSpans() };
+  }
+
+  /**
+   * Export finished spans as Chrome trace-event JSON. Runs, plugins and
+   * commands get one track per name (extra tracks when the same name
+   * overlaps itself, e.g. a plugin in two concurrent runs); ctx.trace spans
+   * and emits are drawn on their parent's track.
+   */
+  toChromeTrace(): ChromeTrace {
+    const tids = this.assignTracks();
+    const traceEvents: ChromeTraceEvent[] = [];
+
+    for (const [tid, name] of tids.names) {
+      traceEvents.push({ name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid, args: { name } });
+    }
+
+    for (const span of this.spans) {
+      if (span.end === undefined) continue;
+      const event: ChromeTraceEvent = {
+        name: span.name,
+        cat: span.category,
+        ph: 'X',
+        ts: span.start * 1000,
+        pid: 1,
+        tid: tids.bySpan.get(span.id) ?? 0,
+        args: { ...span.attributes },
+      };
+      if (span.category === 'emit') {
+        event.ph = 'i';
+        event.s = 't';
+      } else {
+        event.dur = (span.end - span.start) * 1000;
+      }
+      traceEvents.push(event);
+    }
+
+    return { traceEvents, displayTimeUnit: 'ms' };
+  }
+
+  private assignTracks(): { bySpan: Map<number, number>; names: Map<number, string> } {
+    const bySpan = new Map<number, number>();
+    const names = new Map<number, string>();
+    const tracks: { label: string; tid: number; end: number }[] = [];
+    const byId = new Map(this.spans.map((span) => [span.id, span]));
+
+    // spans is in start order, so parents are assigned before their children
+    for (const span of this.spans) {
+      const parent = span.parentId !== undefined ? byId.get(span.parentId) : undefined;
+      if (parent && !LANE_CATEGORIES.has(span.category)) {
+        bySpan.set(span.id, bySpan.get(parent.id) ?? 0);
+        continue;
+      }
+
+      const label = span.category === 'run' ? 'runs' : span.name;
+      const end = span.end ?? Infinity;
+      let track = tracks.find((t) => t.label === label && t.end <= span.start);
+      if (track) {
+        track.end = end;
+      } else {
+        const count = tracks.filter((t) => t.label === label).length;
+        track = { label, tid: tracks.length + 1, end };
+        tracks.push(track);
+        names.set(track.tid, count === 0 ? label : `${label} (${count + 1})`);
+      }
+      bySpan.set(span.id, track.tid);
+    }
+
+    return { bySpan, names };
+  }
+}
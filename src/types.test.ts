@@ -4,6 +4,9 @@ import {
   isCommandResult,
   isVdomPlugin,
   isPluginResult,
+  validatePluginConfig,
+  applyConfigDefaults,
+  type PluginConfigSchema,
 } from './types';
 
 describe('type guards', () => {
@@ -155,3 +158,63 @@ describe('type guards', () => {
     });
   });
 });
+
+describe('config validation', () => {
+  const schema: PluginConfigSchema = {
+    threshold: { type: 'number', label: 'Threshold', default: 0.5, min: 0, max: 1 },
+    mode: {
+      type: 'select',
+      label: 'Mode',
+      default: 'fast',
+      options: [
+        { label: 'Fast', value: 'fast' },
+        { label: 'Slow', value: 'slow' },
+      ],
+    },
+    color: { type: 'color', label: 'Color', default: '#fff' },
+  };
+
+  describe('validatePluginConfig', () => {
+    it('accepts defaults', () => {
+      expect(validatePluginConfig({}, schema)).toEqual({ valid: true, errors: [], fieldErrors: [] });
+    });
+
+    it('reports structured field errors', () => {
+      const result = validatePluginConfig({ threshold: 'abc', mode: 'medium', color: 3 }, schema);
+
+      expect(result.valid).toBe(false);
+      expect(result.fieldErrors.map((e) => e.field)).toEqual(['threshold', 'mode', 'color']);
+      expect(result.fieldErrors[0]).toEqual({
+        field: 'threshold',
+        message: 'Field threshold must be a number',
+        value: 'abc',
+      });
+    });
+
+    it('rejects NaN and out-of-range numbers', () => {
+      expect(validatePluginConfig({ threshold: NaN }, schema).valid).toBe(false);
+      expect(validatePluginConfig({ threshold: -3 }, schema).errors).toEqual([
+        'Field threshold must be >= 0',
+      ]);
+    });
+
+    it('treats null like a missing value', () => {
+      expect(validatePluginConfig({ threshold: null }, schema).valid).toBe(true);
+      const noDefault: PluginConfigSchema = { limit: { type: 'number', label: 'Limit', default: undefined } };
+      expect(validatePluginConfig({ limit: null }, noDefault).errors).toEqual([
+        'Missing required field: limit',
+      ]);
+    });
+  });
+
+  describe('applyConfigDefaults', () => {
+    it('fills missing, undefined and null keys and keeps extra keys', () => {
+      expect(applyConfigDefaults({ threshold: undefined, mode: null, extra: 1 }, schema)).toEqual({
+        threshold: 0.5,
+        mode: 'fast',
+        color: '#fff',
+        extra: 1,
+      });
+    });
+  });
+});
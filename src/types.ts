@@ -5,6 +5,10 @@
  * Plugins declare capabilities via manifest, host renders UI dynamically.
  */
 
+import type { DecorationStore } from './decorations';
+import type { Tracer } from './tracing';
+import type { MetricsRegistry } from './metrics';
+
 // =============================================================================
 // Bounding Box Types
 // =============================================================================
@@ -90,6 +94,47 @@ export interface VdomNode {
   metadata?: Record<string, unknown>;
 }
 
+// =============================================================================
+// Node Mutations
+// =============================================================================
+
+/** A node's type and geometry at one point in time */
+export interface NodeSnapshot {
+  type: EntityType | string;
+  bbox: BBox;
+  pageNumber: number;
+}
+
+/** One edit reported by the host via queueMutation() */
+export type NodeMutation =
+  | { type: 'added'; node: VdomNode }
+  | { type: 'removed'; node: VdomNode }
+  | { type: 'updated'; node: VdomNode; before: NodeSnapshot };
+
+export interface NodeUpdate {
+  node: VdomNode;
+  before: NodeSnapshot;
+  after: NodeSnapshot;
+}
+
+/**
+ * Coalesced mutations since the last flush, delivered as ctx.mutations.
+ * A node appears at most once.
+ */
+export interface MutationBatch {
+  added: VdomNode[];
+  removed: VdomNode[];
+  updated: NodeUpdate[];
+  /** Sorted pages touched by the batch, including pages a node moved off */
+  pages: number[];
+  /**
+   * Counts the manager's batches for this document from 1. A plugin whose
+   * last batch was not `sequence - 1` missed one (it was disabled, failed
+   * or timed out)
+   */
+  sequence: number;
+}
+
 // =============================================================================
 // Plugin Configuration Schema (like Chrome's options_ui)
 // =============================================================================
@@ -172,6 +217,184 @@ export interface PluginEmitData {
   transformation: { nodeId: string; format: CommandOutputFormat; content: string };
 }
 
+// =============================================================================
+// Decorations (current overlays, badges, annotations and stats per plugin)
+// =============================================================================
+
+interface DecorationBase {
+  pluginName: string;
+  /** Unique per plugin and kind: overlay id, node id + text, ... */
+  key: string;
+  /** Overlay page, or the page of the badge/annotation's node if known */
+  page?: number;
+  nodeId?: string;
+}
+
+export type Decoration =
+  | (DecorationBase & { kind: 'overlay'; value: EntityOverlay })
+  | (DecorationBase & { kind: 'badge'; value: NodeBadge })
+  | (DecorationBase & { kind: 'annotation'; value: Annotation })
+  | (DecorationBase & { kind: 'stats'; value: Record<string, number | string> });
+
+export type DecorationKind = Decoration['kind'];
+
+/** `changed` holds the new values of decorations whose key stayed the same */
+export interface DecorationDiff {
+  added: Decoration[];
+  removed: Decoration[];
+  changed: Decoration[];
+}
+
+// =============================================================================
+// Logging
+// =============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFunction = (level: LogLevel, message: string) => void;
+
+/**
+ * A single ctx.log() call, as delivered to the Logger, the 'plugin:log'
+ * event and the result's `logs` buffer.
+ */
+export interface LogEntry {
+  pluginName: string;
+  /** Set when logged from a command handler */
+  commandId?: string;
+  level: LogLevel;
+  message: string;
+  /** Epoch milliseconds */
+  timestamp: number;
+}
+
+/**
+ * Destination for plugin logs, injected via VdomPluginManagerOptions.logger.
+ * `console` satisfies this interface.
+ */
+export interface Logger {
+  debug(message: string, entry: LogEntry): void;
+  info(message: string, entry: LogEntry): void;
+  warn(message: string, entry: LogEntry): void;
+  error(message: string, entry: LogEntry): void;
+}
+
+// =============================================================================
+// Tracing
+// =============================================================================
+
+export type TraceCategory = 'run' | 'plugin' | 'command' | 'emit' | 'user';
+
+export type TraceAttributes = Record<string, string | number | boolean>;
+
+export interface TraceSpan {
+  id: number;
+  parentId?: number;
+  name: string;
+  category: TraceCategory;
+  /** performance.now() at start, in ms */
+  start: number;
+  /** Unset while the span is open; equal to start for emits */
+  end?: number;
+  attributes: TraceAttributes;
+}
+
+/**
+ * ctx.trace: run `fn` in a child span, ended when `fn` returns or its
+ * promise settles. `fn` receives a trace function for nesting further.
+ * Without a tracer it just calls `fn`.
+ */
+export type TraceFunction = <T>(name: string, fn: (trace: TraceFunction) => T, attributes?: TraceAttributes) => T;
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+export type MetricLabels = Record<string, string>;
+
+export interface CounterSeries {
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSeries {
+  labels: MetricLabels;
+  count: number;
+  sum: number;
+  /** Cumulative counts per upper bound, ending with le: Infinity */
+  buckets: { le: number; count: number }[];
+  /** Nearest-rank percentiles over the most recent observations */
+  percentiles: { p50: number; p90: number; p95: number; p99: number };
+}
+
+export type MetricSnapshot =
+  | { name: string; help: string; type: 'counter'; series: CounterSeries[] }
+  | { name: string; help: string; type: 'histogram'; series: HistogramSeries[] };
+
+/**
+ * How a plugin run or command invocation ended, as recorded in the
+ * `outcome` label.
+ */
+export type InvocationOutcome = 'success' | 'error' | 'timeout' | 'cancelled';
+
+// =============================================================================
+// Failure Policy (circuit breaker)
+// =============================================================================
+
+/**
+ * When to quarantine a plugin handler or command that keeps failing. Errors
+ * and timeouts count as failures; cancellations do not.
+ */
+export interface FailurePolicy {
+  /** Consecutive failures that trip the breaker. Default: 5 */
+  maxFailures?: number;
+  /** The failures must all fall within this many ms. Default: 60000 */
+  windowMs?: number;
+  /** Quarantine length before one trial call is let through. Default: 30000 */
+  cooldownMs?: number;
+}
+
+/**
+ * A tripped breaker. `commandId` is set when a command, not the plugin's
+ * handler, is quarantined. Times are epoch milliseconds.
+ */
+export interface PluginQuarantine {
+  name: string;
+  commandId?: string;
+  /** Consecutive failures that tripped the breaker */
+  failures: number;
+  /** Message of the last failure */
+  error: string;
+  since: number;
+  /** Earliest time a trial call is allowed */
+  retryAt: number;
+}
+
+// =============================================================================
+// Permissions (like Chrome's manifest permissions / host_permissions)
+// =============================================================================
+
+export type PluginCapability = 'network' | 'mutation' | 'clipboard';
+
+export interface PluginPermissions {
+  /**
+   * Origins ctx.fetch may reach: 'https://api.example.com',
+   * 'https://*.example.com', 'self' (same origin and relative URLs) or '*'
+   */
+  network?: string[];
+  /** Run commands marked `mutatesDocument` */
+  mutation?: boolean;
+  /** Use ctx.writeClipboard */
+  clipboard?: boolean;
+}
+
+/**
+ * Decides what a plugin is granted when it registers. Receives the
+ * manifest's `permissions` (empty if none). Default: grant what is requested.
+ */
+export type PermissionPolicy = (plugin: VdomPlugin, requested: PluginPermissions) => PluginPermissions;
+
+export type PluginFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
 // =============================================================================
 // Plugin Commands (Chrome contextMenus-inspired)
 // =============================================================================
@@ -209,9 +432,29 @@ export interface CommandContext<TConfig = Record<string, unknown>> {
   config: TConfig;
 
   /** Logging */
-  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+  log: LogFunction;
+
+  /** Aborted on cancelCommand() or timeout - pass to fetch() etc. */
+  signal: AbortSignal;
+
+  /** fetch() limited to the plugin's granted network origins */
+  fetch: PluginFetch;
+
+  /** Requires the clipboard permission */
+  writeClipboard(text: string): Promise<void>;
+
+  /** Record a nested span when the command is traced */
+  trace: TraceFunction;
 }
 
+/**
+ * Host-supplied part of CommandContext; the manager fills in the rest.
+ */
+export type CommandRunContext = Omit<
+  CommandContext,
+  'config' | 'log' | 'signal' | 'fetch' | 'writeClipboard' | 'trace'
+>;
+
 /**
  * Result returned by command handler.
  */
@@ -225,6 +468,54 @@ export interface CommandResult {
   error?: string;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
+  /** ctx.log() calls made during this execution; omitted when there were none */
+  logs?: LogEntry[];
+  /** Set on a failed result when trying again may succeed (e.g. HTTP 429/503) */
+  retryable?: boolean;
+}
+
+/**
+ * Content produced piece by piece. The manager relays each chunk as a
+ * 'command:chunk' event and resolves executeCommand with the chunks joined
+ * as `content`. An async generator may `return` a CommandResult whose fields
+ * override the assembled ones (format, metadata, or a failure).
+ */
+export type CommandStream = AsyncIterable<string, CommandResult | void>;
+
+/** What a command handler returns: one result (sync or async), or a stream of chunks */
+export type CommandOutput = CommandResult | Promise<CommandResult> | CommandStream;
+
+/**
+ * A failed attempt, as passed to CommandRetryPolicy.retryOn. Exactly one of
+ * `result` and `error` is set.
+ */
+export interface CommandFailure {
+  /** 1-based number of the attempt that failed */
+  attempt: number;
+  /** The failed result the handler returned */
+  result?: CommandResult;
+  /** What the handler threw, or a PluginTimeoutError */
+  error?: Error;
+}
+
+/**
+ * Retry a failed command with exponential backoff: the delay after attempt
+ * n is initialDelayMs * multiplier^(n-1), capped at maxDelayMs. With jitter
+ * the actual delay is random between 0 and that value.
+ */
+export interface CommandRetryPolicy {
+  /** Attempts in total, including the first. Default: 3 */
+  maxAttempts?: number;
+  /** Default: 500 */
+  initialDelayMs?: number;
+  /** Default: 10000 */
+  maxDelayMs?: number;
+  /** Default: 2 */
+  multiplier?: number;
+  /** Default: true */
+  jitter?: boolean;
+  /** Whether a failure is worth retrying. Default: results with `retryable: true` */
+  retryOn?: (failure: CommandFailure) => boolean;
 }
 
 /**
@@ -235,7 +526,7 @@ export interface PluginCommand<TConfig = Record<string, unknown>> {
   /** Unique command ID within plugin */
   id: string;
 
-  /** Display text in dropdown. Use %s for entity title interpolation */
+  /** Display text in dropdown. %s is replaced with the entity's title in searchCommands() */
   title: string;
 
   /** Entity types this command appears for (like Chrome's ContextType) */
@@ -250,7 +541,10 @@ export interface PluginCommand<TConfig = Record<string, unknown>> {
   /** Icon for dropdown (optional) - icon name or URL */
   icon?: string;
 
-  /** Keyboard shortcut (optional) e.g., "Ctrl+M" */
+  /**
+   * Default keyboard shortcut, e.g. "Ctrl+M" or "Mod+Shift+M" (Mod is Cmd
+   * on macOS, Ctrl elsewhere). Users can rebind it with setShortcut()
+   */
   shortcut?: string;
 
   /** Whether command is enabled (can be static or dynamic) */
@@ -259,8 +553,20 @@ export interface PluginCommand<TConfig = Record<string, unknown>> {
   /** Whether command is visible (can be static or dynamic) */
   visible?: boolean | ((entity: VdomNode) => boolean);
 
-  /** The handler - called when user clicks this command */
-  handler: (ctx: CommandContext<TConfig>) => Promise<CommandResult>;
+  /** Abort the handler after this many ms. Overrides the plugin's timeoutMs */
+  timeoutMs?: number;
+
+  /** Result changes the document (e.g. creates entities); requires the mutation permission */
+  mutatesDocument?: boolean;
+
+  /** Retry failed attempts. timeoutMs applies to each attempt */
+  retry?: CommandRetryPolicy;
+
+  /** Set false to refuse executeCommandBatch (e.g. commands that open a dialog) */
+  batch?: boolean;
+
+  /** The handler - called when user clicks this command. May stream its content */
+  handler: (ctx: CommandContext<TConfig>) => CommandOutput;
 }
 
 /**
@@ -271,6 +577,66 @@ export interface ResolvedCommand<TConfig = Record<string, unknown>> extends Plug
   pluginName: string;
 }
 
+// =============================================================================
+// Keyboard Shortcuts
+// =============================================================================
+
+/** Decides what "Mod" means and how Meta is written */
+export type ShortcutPlatform = 'mac' | 'other';
+
+/** The parts of a KeyboardEvent shortcuts look at */
+export interface ShortcutKeyEvent {
+  key: string;
+  code?: string;
+  ctrlKey?: boolean;
+  altKey?: boolean;
+  shiftKey?: boolean;
+  metaKey?: boolean;
+}
+
+/** A command's current shortcut, as listed by getShortcuts() */
+export interface ShortcutBinding {
+  pluginName: string;
+  commandId: string;
+  /** Normalized accelerator; null when the user removed the binding */
+  accelerator: string | null;
+  /** Normalized `shortcut` declared by the command */
+  defaultAccelerator?: string;
+  /** The user rebound or unbound this command */
+  overridden: boolean;
+}
+
+/** Commands that claim the same keys for overlapping entity contexts */
+export interface ShortcutConflict {
+  accelerator: string;
+  commands: { pluginName: string; commandId: string }[];
+}
+
+// =============================================================================
+// Command Palette
+// =============================================================================
+
+/** Half-open character range [start, end) of a string */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface CommandSearchOptions {
+  /** Return at most this many results */
+  limit?: number;
+}
+
+export interface CommandSearchResult {
+  command: ResolvedCommand;
+  /** Command title with %s replaced by the entity's title */
+  title: string;
+  /** Ranges of `title` the query matched */
+  highlights: TextRange[];
+  /** Match quality plus the usage boost; higher ranks first */
+  score: number;
+}
+
 // =============================================================================
 // Plugin Context
 // =============================================================================
@@ -287,9 +653,28 @@ export type EmitFunction = <T extends PluginEmitType>(
   data: PluginEmitData[T]
 ) => void;
 
+/**
+ * Everything a plugin emitted during one run, grouped by emit type in emit order.
+ */
+export type EmittedData = { [T in PluginEmitType]?: PluginEmitData[T][] };
+
+/**
+ * A dependency's outcome from the current run, as seen via ctx.getResult().
+ */
+export interface UpstreamResult<TExports = unknown> {
+  name: string;
+  result: PluginResult<TExports>;
+  emitted: EmittedData;
+}
+
 export interface PluginContext<TConfig = Record<string, unknown>> {
   document: {
     id: string;
+    /**
+     * Host-maintained revision, bumped whenever the document changes. Keys
+     * the result cache; without it the manager hashes the node content.
+     */
+    revision?: string | number;
     getAllNodes(): VdomNode[];
     getNode(id: string): VdomNode | undefined;
     pages: VdomNode[][];
@@ -298,16 +683,59 @@ export interface PluginContext<TConfig = Record<string, unknown>> {
   event: VdomLifecycleEvent;
   pageNumber?: number;
   node?: VdomNode;
+  /** Set on nodeAdded/nodeRemoved/nodeUpdated runs dispatched from queueMutation() */
+  mutations?: MutationBatch;
+  /**
+   * Sequence of this document's latest mutation batch, up to and including
+   * this run's; 0 before the first
+   */
+  mutationSequence: number;
+  /**
+   * Scratch space that survives between this plugin's runs in this manager
+   * (or its worker), e.g. a PageState. Dropped on unregister
+   */
+  state: Record<string, unknown>;
   config: TConfig;
   emit: EmitFunction;
-  log: (level: 'debug' | 'info' | 'warn' | 'error', message: string) => void;
+  log: LogFunction;
+  /** Aborted on cancel(runId) or when the plugin's timeoutMs elapses */
+  signal: AbortSignal;
+  /** fetch() limited to the plugin's granted network origins */
+  fetch: PluginFetch;
+  /** Requires the clipboard permission */
+  writeClipboard(text: string): Promise<void>;
+  /** Record a nested span when the run is traced */
+  trace: TraceFunction;
+  /**
+   * Result and emits of a (transitive) dependency from this run.
+   * Undefined for non-dependencies and for dependencies that did not run.
+   */
+  getResult<TExports = unknown>(pluginName: string): UpstreamResult<TExports> | undefined;
 }
 
+/**
+ * Host-supplied part of PluginContext; the manager fills in the rest.
+ */
+export type PluginRunContext = Omit<
+  PluginContext,
+  | 'event'
+  | 'config'
+  | 'emit'
+  | 'log'
+  | 'signal'
+  | 'fetch'
+  | 'writeClipboard'
+  | 'trace'
+  | 'getResult'
+  | 'mutationSequence'
+  | 'state'
+>;
+
 // =============================================================================
 // Plugin Result
 // =============================================================================
 
-export interface PluginResult {
+export interface PluginResult<TExports = unknown> {
   success: boolean;
   data?: {
     overlays?: EntityOverlay[];
@@ -317,24 +745,92 @@ export interface PluginResult {
   };
   error?: string;
   errorDetails?: unknown;
+  /** Typed payload for dependent plugins, read via ctx.getResult() */
+  exports?: TExports;
+  /** ctx.log() calls made during this run; omitted when there were none */
+  logs?: LogEntry[];
 }
 
 // =============================================================================
 // Plugin Interface (the manifest)
 // =============================================================================
 
-export interface VdomPlugin<TConfig = Record<string, unknown>> {
+/**
+ * Version of the plugin API this library implements. A plugin's
+ * `apiVersion` must have the same major and be no newer.
+ */
+export const PLUGIN_API_VERSION = '1.0.0';
+
+export interface VdomPlugin<TConfig = Record<string, unknown>, TExports = unknown> {
   name: string;
   description: string;
+  /** Semver version; required to satisfy dependents' ranges */
   version?: string;
+  /** Plugin API version the plugin was written against, e.g. '1.0' */
+  apiVersion?: string;
   runsOn: VdomLifecycleEvent[];
-  handler: (ctx: PluginContext<TConfig>) => PluginResult | Promise<PluginResult>;
+  handler: (ctx: PluginContext<TConfig>) => PluginResult<TExports> | Promise<PluginResult<TExports>>;
   commands?: PluginCommand<TConfig>[];
   configSchema?: PluginConfigSchema;
   viewControls?: ViewControlSchema[];
   defaultEnabled?: boolean;
   cleanup?: () => void | Promise<void>;
+  /** Plugin names, optionally with a semver range: 'coord-table-detector@^1.2' */
   dependencies?: string[];
+  /** Abort the handler (and commands without their own timeoutMs) after this many ms */
+  timeoutMs?: number;
+  /** Capabilities the plugin needs; anything not granted is denied */
+  permissions?: PluginPermissions;
+  /** Set false for handlers whose output depends on more than document and config */
+  cacheable?: boolean;
+}
+
+// =============================================================================
+// Manifest Files (like Chrome's manifest.json)
+// =============================================================================
+
+/** A command as declared in manifest.json: everything but the handler */
+export interface PluginCommandManifest extends Omit<PluginCommand, 'handler' | 'enabled' | 'visible' | 'retry'> {
+  enabled?: boolean;
+  visible?: boolean;
+  retry?: Omit<CommandRetryPolicy, 'retryOn'>;
+}
+
+/**
+ * Contents of a plugin's manifest.json. Code lives in the `entry` module,
+ * which exports the handlers the manifest declares (see PluginEntryModule).
+ */
+export interface PluginManifest
+  extends Omit<VdomPlugin, 'handler' | 'commands' | 'cleanup' | 'viewControls'> {
+  /** Entry module, relative to the manifest */
+  entry: string;
+  viewControls?: ViewControlSchema[];
+  commands?: PluginCommandManifest[];
+}
+
+/**
+ * Exports of a manifest's entry module, as named exports or a default
+ * export object. `handler` is required when the manifest has `runsOn`
+ * events; `commands` needs one handler per declared command id.
+ */
+export interface PluginEntryModule {
+  handler?: VdomPlugin['handler'];
+  commands?: Record<string, PluginCommand['handler']>;
+  cleanup?: VdomPlugin['cleanup'];
+}
+
+export interface PluginLoadFailure {
+  /** Manifest URL or path */
+  source: string;
+  /** Known once the manifest has been parsed */
+  pluginName?: string;
+  error: Error;
+}
+
+export interface PluginLoadReport {
+  /** Names of plugins registered, in load order */
+  loaded: string[];
+  failed: PluginLoadFailure[];
 }
 
 // =============================================================================
@@ -350,10 +846,25 @@ export type PluginManagerEvent =
   | 'plugin:started'
   | 'plugin:completed'
   | 'plugin:error'
+  | 'plugin:timeout'
+  | 'plugin:log'
+  | 'plugin:dependencyWarning'
+  | 'plugin:quarantined'
+  | 'plugin:restored'
+  | 'permission:denied'
+  | 'permission:narrowed'
+  | 'profile:applied'
   | 'lifecycle:emit'
+  | 'lifecycle:dispatched'
+  | 'decorations:changed'
   | 'command:started'
   | 'command:completed'
-  | 'command:error';
+  | 'command:retry'
+  | 'command:chunk'
+  | 'command:progress'
+  | 'command:error'
+  | 'shortcut:changed'
+  | 'shortcut:conflict';
 
 export interface PluginManagerEventData {
   'plugin:registered': { name: string };
@@ -361,36 +872,320 @@ export interface PluginManagerEventData {
   'plugin:enabled': { name: string };
   'plugin:disabled': { name: string };
   'plugin:configChanged': { name: string; config: Record<string, unknown> };
-  'plugin:started': { name: string; event: VdomLifecycleEvent };
-  'plugin:completed': { name: string; result: PluginResult; duration: number };
+  'plugin:started': { name: string; event: VdomLifecycleEvent; runId: string };
+  /** `cached` is set when the result was replayed from the result cache */
+  'plugin:completed': { name: string; result: PluginResult; duration: number; cached?: boolean };
   'plugin:error': { name: string; error: Error };
+  /** Fired when a handler or command exceeds its timeoutMs; commandId is set for commands */
+  'plugin:timeout': { name: string; timeoutMs: number; commandId?: string };
+  /** Fired when a plugin is disabled while enabled plugins still depend on it */
+  'plugin:dependencyWarning': { name: string; dependents: string[] };
+  /** A handler or command tripped the failure policy and is skipped until retryAt */
+  'plugin:quarantined': PluginQuarantine;
+  /** A quarantine ended: a trial call succeeded or resetQuarantine() was called */
+  'plugin:restored': { name: string; commandId?: string };
+  'plugin:log': LogEntry;
+  /** A plugin used a capability it was not granted; detail is the origin for 'network' */
+  'permission:denied': { name: string; capability: PluginCapability; detail?: string; commandId?: string };
+  /** At register, the permissionPolicy granted less than the plugin requested */
+  'permission:narrowed': {
+    name: string;
+    requested: PluginPermissions;
+    granted: PluginPermissions;
+    withheld: PluginPermissions;
+  };
+  'profile:applied': { name: string };
   'lifecycle:emit': { pluginName: string; type: PluginEmitType; data: unknown };
+  /** An automatic lifecycle run finished; catch-up runs only report plugins they ran */
+  'lifecycle:dispatched': {
+    event: VdomLifecycleEvent;
+    results: Map<string, PluginResult>;
+    catchUp: boolean;
+  };
+  /** The decoration store changed after a run, a disable or an unregister */
+  'decorations:changed': DecorationDiff;
   'command:started': { pluginName: string; commandId: string; entityId: string };
   'command:completed': { pluginName: string; commandId: string; result: CommandResult; duration: number };
+  /**
+   * A streaming command produced a chunk. `index` counts from 0 per attempt;
+   * after a 'command:retry' the next attempt streams from the start again.
+   */
+  'command:chunk': {
+    pluginName: string;
+    commandId: string;
+    entityId: string;
+    attempt: number;
+    index: number;
+    chunk: string;
+  };
+  /** Attempt `attempt` failed; attempt + 1 starts after delayMs */
+  'command:retry': { pluginName: string; commandId: string; attempt: number; delayMs: number; error: string };
   'command:error': { pluginName: string; commandId: string; error: Error };
+  /** One entity of an executeCommandBatch call finished; `failures` counts failed results so far */
+  'command:progress': {
+    batchId: string;
+    pluginName: string;
+    commandId: string;
+    entityId: string;
+    result: CommandResult;
+    done: number;
+    total: number;
+    failures: number;
+  };
+  /** setShortcut() or resetShortcut() changed a binding; null means unbound */
+  'shortcut:changed': { pluginName: string; commandId: string; accelerator: string | null };
+  /** A register or setShortcut() left two commands on the same keys */
+  'shortcut:conflict': ShortcutConflict;
+}
+
+/**
+ * How `enable` treats dependencies that are registered but disabled.
+ * - 'enable': turn them on first (default)
+ * - 'require': refuse with a PluginDependencyError
+ */
+export interface EnablePluginOptions {
+  dependencies?: 'enable' | 'require';
+}
+
+export interface DisablePluginOptions {
+  /** Also disable every enabled plugin that (transitively) depends on this one */
+  cascade?: boolean;
+}
+
+/**
+ * One plugin in the dependency graph, as returned by getDependencyGraph().
+ */
+export interface PluginDependencyNode {
+  name: string;
+  enabled: boolean;
+  /** Declared dependency names (ranges stripped) */
+  dependencies: string[];
+  /** Declared dependencies that are not registered */
+  missing: string[];
+  /** Registered plugins that directly depend on this one */
+  dependents: string[];
+  /** Enabled plugins that depend on this one, directly or transitively */
+  enabledDependents: string[];
+}
+
+export interface RunEventOptions {
+  /** Max plugins running at once; overrides the manager default */
+  concurrency?: number;
+  /** ID for cancel(runId). Generated if omitted; reported in 'plugin:started' */
+  runId?: string;
+  /** Caller-owned signal; aborting it cancels the run */
+  signal?: AbortSignal;
+  /** Set false to bypass the result cache for this run (results are still stored) */
+  cache?: boolean;
+  /** Record spans for this run; overrides the manager's tracer */
+  tracer?: Tracer;
+}
+
+export interface ExecuteCommandOptions {
+  /** Caller-owned signal; aborting it cancels the command */
+  signal?: AbortSignal;
+  /** Record spans for this command; overrides the manager's tracer */
+  tracer?: Tracer;
+}
+
+export interface ExecuteCommandBatchOptions extends ExecuteCommandOptions {
+  /** Max entities processed at once. Default: 4 */
+  concurrency?: number;
+  /** ID for cancelBatch(batchId). Generated if omitted; reported in 'command:progress' */
+  batchId?: string;
+}
+
+// =============================================================================
+// Persistent Settings
+// =============================================================================
+
+/**
+ * Persisted state of one plugin. `config` holds only values that differ
+ * from the schema defaults, so changed defaults reach existing users.
+ */
+export interface PluginSettings {
+  enabled?: boolean;
+  config?: Record<string, unknown>;
+  /** Shortcut overrides by command ID; null unbinds the command's default */
+  shortcuts?: Record<string, string | null>;
+}
+
+/**
+ * Named snapshot of every plugin's enabled flag and full config.
+ */
+export interface SettingsProfile {
+  name: string;
+  /** Epoch milliseconds */
+  createdAt: number;
+  plugins: Record<string, PluginSettings>;
+}
+
+/**
+ * Outcome of importProfiles(). Profiles with invalid configs are not imported.
+ */
+export interface ProfileImportReport {
+  imported: string[];
+  /** Profiles that already exist and were kept (import without `overwrite`) */
+  skipped: string[];
+  /** Entries for plugins that are not registered; kept in the profile */
+  unknownPlugins: { profile: string; plugin: string }[];
+  /** Entries whose config fails the plugin's configSchema */
+  invalid: { profile: string; plugin: string; fieldErrors: ConfigFieldError[] }[];
+}
+
+export interface PluginSettingsSnapshot {
+  /** Format version (PLUGIN_SETTINGS_VERSION); other versions are ignored on read */
+  version: number;
+  /** Epoch milliseconds of the write */
+  updatedAt: number;
+  plugins: Record<string, PluginSettings>;
+  profiles?: Record<string, SettingsProfile>;
+}
+
+/**
+ * Storage backend for enabled flags and configs.
+ * `read` is synchronous because the manager reads while registering. If it
+ * throws, the manager logs the error and plugins start from their defaults.
+ */
+export interface PluginSettingsStore {
+  read(): PluginSettingsSnapshot | null;
+  write(snapshot: PluginSettingsSnapshot): void | Promise<void>;
+}
+
+export interface VdomPluginManagerOptions {
+  /** Default max plugins running at once in runEvent. Default: Infinity */
+  concurrency?: number;
+  /** Receives every plugin log entry. Default: errors to the console */
+  logger?: Logger;
+  /** Restores enabled flags and configs on register and saves changes */
+  settingsStore?: PluginSettingsStore;
+  /** Debounce window for settings writes. Default: 250 */
+  settingsWriteDelayMs?: number;
+  /** Memoize runEvent results. Off by default */
+  cache?: boolean | ResultCacheOptions;
+  /** Debounce window for queueMutation() batches. Default: 50 */
+  mutationDelayMs?: number;
+  /** Starts workers for plugins registered with `worker`. Default: Web Worker or worker_threads */
+  workerFactory?: PluginWorkerFactory;
+  /** Grants manifest permissions at register. Default: grant what is requested */
+  permissionPolicy?: PermissionPolicy;
+  /** Network implementation behind ctx.fetch. Default: globalThis.fetch */
+  fetch?: PluginFetch;
+  /** Clipboard behind ctx.writeClipboard. Default: navigator.clipboard */
+  clipboard?: { writeText(text: string): Promise<void> };
+  /** Records spans for every run and command. Off by default */
+  tracer?: Tracer;
+  /** Registry to record plugin and command metrics in. Default: a new one */
+  metrics?: MetricsRegistry;
+  /** Quarantine repeatedly failing handlers and commands. Off by default */
+  failurePolicy?: FailurePolicy;
+  /** Platform for "Mod" in shortcuts. Default: detected from navigator or process */
+  shortcutPlatform?: ShortcutPlatform;
+  /** Entity title for %s in command titles. Default: title attribute, first line of text, or type */
+  entityTitle?: (entity: VdomNode) => string;
+}
+
+// =============================================================================
+// Worker Isolation
+// =============================================================================
+
+export interface PluginWorkerOptions {
+  /** Module the worker imports the plugin from; must resolve inside the worker */
+  module: string | URL;
+  /** Export holding the plugin. Default: the default export, else the export with the plugin's name */
+  exportName?: string;
+}
+
+export interface RegisterPluginOptions {
+  /** Run the handler in a worker instead of the calling thread */
+  worker?: PluginWorkerOptions;
 }
 
+/**
+ * Minimal transport over a Web Worker or a worker_threads Worker.
+ */
+export interface PluginWorkerPort {
+  postMessage(message: unknown): void;
+  onMessage(handler: (message: unknown) => void): void;
+  onError(handler: (error: Error) => void): void;
+  terminate(): void;
+}
+
+export type PluginWorkerFactory = () => PluginWorkerPort | Promise<PluginWorkerPort>;
+
+export interface ResultCacheOptions {
+  /** Least recently used entries are evicted beyond this. Default: 500 */
+  maxEntries?: number;
+}
+
+/** Entries matching every given field are dropped; an empty filter clears all */
+export interface CacheInvalidationFilter {
+  documentId?: string;
+  pluginName?: string;
+}
+
+/** Supplies the current document for automatic lifecycle dispatch */
+export type DocumentProvider = () => PluginRunContext;
+
 export interface IPluginManager {
-  register(plugin: VdomPlugin): void;
+  /** Current overlays, badges, annotations and stats per plugin */
+  readonly decorations: DecorationStore;
+  /** Invocation counts, latencies and emitted items per plugin and command */
+  readonly metrics: MetricsRegistry;
+  register(plugin: VdomPlugin, options?: RegisterPluginOptions): void;
   unregister(name: string): void;
-  enable(name: string): void;
-  disable(name: string): void;
+  enable(name: string, options?: EnablePluginOptions): void;
+  disable(name: string, options?: DisablePluginOptions): void;
   isEnabled(name: string): boolean;
   setConfig(name: string, config: Record<string, unknown>): void;
   getConfig(name: string): Record<string, unknown>;
+  flushSettings(): Promise<void>;
+  saveProfile(name: string): SettingsProfile;
+  getProfiles(): SettingsProfile[];
+  applyProfile(name: string): void;
+  deleteProfile(name: string): boolean;
+  exportProfiles(names?: string[]): string;
+  importProfiles(data: string | unknown, options?: { overwrite?: boolean }): ProfileImportReport;
   getPlugin(name: string): VdomPlugin | undefined;
+  getGrantedPermissions(name: string): PluginPermissions | undefined;
+  getQuarantine(name: string, commandId?: string): PluginQuarantine | undefined;
+  resetQuarantine(name: string, commandId?: string): boolean;
   getPlugins(): VdomPlugin[];
   getEnabledPlugins(): string[];
+  getDependencyGraph(): PluginDependencyNode[];
   runEvent(
     event: VdomLifecycleEvent,
-    context: Omit<PluginContext, 'event' | 'config' | 'emit' | 'log'>
+    context: PluginRunContext,
+    options?: RunEventOptions
   ): Promise<Map<string, PluginResult>>;
+  cancel(runId: string): boolean;
+  bindDocument(provider: DocumentProvider): () => void;
+  whenIdle(): Promise<void>;
+  invalidateCache(filter?: CacheInvalidationFilter): number;
+  queueMutation(mutation: NodeMutation, context: PluginRunContext): void;
+  flushMutations(): Promise<Map<string, PluginResult>>;
   getCommandsForEntity(entity: VdomNode): ResolvedCommand[];
   executeCommand(
     pluginName: string,
     commandId: string,
-    context: Omit<CommandContext, 'config' | 'log'>
+    context: CommandRunContext,
+    options?: ExecuteCommandOptions
   ): Promise<CommandResult>;
+  cancelCommand(pluginName: string, commandId?: string, entityId?: string): number;
+  executeCommandBatch(
+    pluginName: string,
+    commandId: string,
+    contexts: CommandRunContext[],
+    options?: ExecuteCommandBatchOptions
+  ): Promise<Map<string, CommandResult>>;
+  cancelBatch(batchId: string): boolean;
+  getShortcuts(): ShortcutBinding[];
+  getShortcutConflicts(): ShortcutConflict[];
+  setShortcut(pluginName: string, commandId: string, accelerator: string | null): ShortcutConflict[];
+  resetShortcut(pluginName: string, commandId?: string): void;
+  resolveShortcut(event: ShortcutKeyEvent, entity: VdomNode): ResolvedCommand | undefined;
+  searchCommands(query: string, entity: VdomNode, options?: CommandSearchOptions): CommandSearchResult[];
+  clearCommandUsage(pluginName?: string): void;
   on<E extends PluginManagerEvent>(
     event: E,
     handler: (data: PluginManagerEventData[E]) => void
@@ -435,42 +1230,81 @@ export function isCommandResult(value: unknown): value is CommandResult {
   return typeof (value as Record<string, unknown>).success === 'boolean';
 }
 
+/**
+ * A single config value that failed schema validation.
+ */
+export interface ConfigFieldError {
+  field: string;
+  message: string;
+  value: unknown;
+}
+
+/**
+ * Check `config` against `schema`. Missing, undefined and null values fall
+ * back to the field's default; a field with neither is reported missing.
+ */
 export function validatePluginConfig(
   config: Record<string, unknown>,
   schema: PluginConfigSchema
-): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+): { valid: boolean; errors: string[]; fieldErrors: ConfigFieldError[] } {
+  const fieldErrors: ConfigFieldError[] = [];
+  const fail = (field: string, message: string, value: unknown) => {
+    fieldErrors.push({ field, message, value });
+  };
+
   for (const [key, field] of Object.entries(schema)) {
     const value = config[key] ?? field.default;
-    if (value === undefined) {
-      errors.push(`Missing required field: ${key}`);
+    if (value === undefined || value === null) {
+      fail(key, `Missing required field: ${key}`, value);
       continue;
     }
     switch (field.type) {
       case 'number':
-        if (typeof value !== 'number') {
-          errors.push(`Field ${key} must be a number`);
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          fail(key, `Field ${key} must be a number`, value);
         } else {
           if (field.min !== undefined && value < field.min) {
-            errors.push(`Field ${key} must be >= ${field.min}`);
+            fail(key, `Field ${key} must be >= ${field.min}`, value);
           }
           if (field.max !== undefined && value > field.max) {
-            errors.push(`Field ${key} must be <= ${field.max}`);
+            fail(key, `Field ${key} must be <= ${field.max}`, value);
           }
         }
         break;
       case 'string':
-        if (typeof value !== 'string') errors.push(`Field ${key} must be a string`);
+      case 'color':
+        if (typeof value !== 'string') fail(key, `Field ${key} must be a string`, value);
         break;
       case 'boolean':
-        if (typeof value !== 'boolean') errors.push(`Field ${key} must be a boolean`);
+        if (typeof value !== 'boolean') fail(key, `Field ${key} must be a boolean`, value);
         break;
       case 'select':
         if (field.options && !field.options.some((o) => o.value === value)) {
-          errors.push(`Field ${key} must be one of: ${field.options.map((o) => o.value).join(', ')}`);
+          fail(key, `Field ${key} must be one of: ${field.options.map((o) => o.value).join(', ')}`, value);
         }
         break;
     }
   }
-  return { valid: errors.length === 0, errors };
+  return {
+    valid: fieldErrors.length === 0,
+    errors: fieldErrors.map((e) => e.message),
+    fieldErrors,
+  };
+}
+
+/**
+ * Fill in schema defaults for keys that are missing, undefined or null in
+ * `config`. Keys not in the schema are kept as-is.
+ */
+export function applyConfigDefaults(
+  config: Record<string, unknown>,
+  schema: PluginConfigSchema
+): Record<string, unknown> {
+  const resolved: Record<string, unknown> = { ...config };
+  for (const [key, field] of Object.entries(schema)) {
+    if (resolved[key] === undefined || resolved[key] === null) {
+      resolved[key] = field.default;
+    }
+  }
+  return resolved;
 }
@@ -0,0 +1,33 @@
+/**
+ * Entry module for plugin workers. Runs as a module Web Worker in browsers
+ * and as a worker_threads Worker in Node.
+ */
+
+import { startWorkerRuntime, type WorkerEndpoint } from './worker-runtime';
+import type { HostToWorkerMessage } from './worker-protocol';
+
+async function createEndpoint(): Promise<WorkerEndpoint> {
+  if ('WorkerGlobalScope' in globalThis) {
+    const scope = globalThis as unknown as Worker;
+    return {
+      postMessage: (message) => scope.postMessage(message),
+      onMessage: (handler) =>
+        scope.addEventListener('message', (event: MessageEvent<HostToWorkerMessage>) => handler(event.data)),
+    };
+  }
+
+  const { parentPort } = await import(/* @vite-ignore */ 'node:worker_threads');
+  if (!parentPort) throw new Error('worker-entry must be loaded in a worker');
+  return {
+    postMessage: (message) => parentPort.postMessage(message),
+    onMessage: (handler) => parentPort.on('message', handler),
+  };
+}
+
+// ctx.fetch is the only network path plugin code gets
+const nativeFetch = globalThis.fetch.bind(globalThis);
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource']) {
+  delete (globalThis as Record<string, unknown>)[name];
+}
+
+startWorkerRuntime(await createEndpoint(), undefined, nativeFetch);
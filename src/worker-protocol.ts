@@ -0,0 +1,240 @@
+/**
+ * Messages and serialization shared by PluginWorker (host side) and the
+ * worker runtime.
+ *
+ * Nodes reference each other (parent/children), so documents cross the
+ * thread boundary as a flat list with ids. `$` queries are answered by the
+ * host synchronously: the worker posts the selector with a SharedArrayBuffer
+ * and blocks on Atomics.wait until the host writes the matching node ids.
+ */
+
+import type {
+  LogLevel,
+  MutationBatch,
+  NodeSnapshot,
+  PluginCapability,
+  PluginEmitType,
+  PluginPermissions,
+  PluginResult,
+  UpstreamResult,
+  VdomLifecycleEvent,
+  VdomNode,
+} from './types';
+
+// =============================================================================
+// Document Snapshot
+// =============================================================================
+
+export interface SerializedNode {
+  id: string;
+  type: string;
+  bbox: VdomNode['bbox'];
+  pageNumber: number;
+  /** textContent if already resolved, else _textContent */
+  text?: string;
+  classNames: string[];
+  attributes: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  parentId?: string | null;
+  childIds?: string[];
+}
+
+export interface DocumentSnapshot {
+  id: string;
+  revision?: string | number;
+  nodes: SerializedNode[];
+  /** Node ids per page */
+  pages: string[][];
+}
+
+export interface SerializedMutationBatch {
+  added: SerializedNode[];
+  removed: SerializedNode[];
+  updated: { node: SerializedNode; before: NodeSnapshot; after: NodeSnapshot }[];
+  pages: number[];
+  sequence: number;
+}
+
+export function serializeNode(node: VdomNode): SerializedNode {
+  const text = typeof node.textContent === 'string' ? node.textContent : node._textContent;
+  return {
+    id: node.id,
+    type: node.type,
+    bbox: node.bbox,
+    pageNumber: node.pageNumber,
+    ...(text !== undefined && { text }),
+    classNames: node.classNames,
+    attributes: node.attributes,
+    ...(node.metadata && { metadata: node.metadata }),
+    ...(node.parent !== undefined && { parentId: node.parent?.id ?? null }),
+    ...(node.children && { childIds: node.children.map((child) => child.id) }),
+  };
+}
+
+export function serializeDocument(document: {
+  id: string;
+  revision?: string | number;
+  getAllNodes(): VdomNode[];
+  pages: VdomNode[][];
+}): DocumentSnapshot {
+  return {
+    id: document.id,
+    ...(document.revision !== undefined && { revision: document.revision }),
+    nodes: document.getAllNodes().map(serializeNode),
+    pages: document.pages.map((page) => page.map((node) => node.id)),
+  };
+}
+
+export function serializeMutations(batch: MutationBatch): SerializedMutationBatch {
+  return {
+    added: batch.added.map(serializeNode),
+    removed: batch.removed.map(serializeNode),
+    updated: batch.updated.map(({ node, before, after }) => ({ node: serializeNode(node), before, after })),
+    pages: batch.pages,
+    sequence: batch.sequence,
+  };
+}
+
+function deserializeNode(node: SerializedNode): VdomNode {
+  return {
+    id: node.id,
+    type: node.type,
+    bbox: node.bbox,
+    pageNumber: node.pageNumber,
+    ...(node.text !== undefined && { textContent: node.text, _textContent: node.text }),
+    classNames: node.classNames,
+    attributes: node.attributes,
+    ...(node.metadata && { metadata: node.metadata }),
+  };
+}
+
+/**
+ * Rebuild nodes with parent/children links restored. Returns nodes by id in
+ * snapshot order.
+ */
+export function deserializeNodes(serialized: SerializedNode[]): Map<string, VdomNode> {
+  const nodes = new Map(serialized.map((node) => [node.id, deserializeNode(node)]));
+  for (const { id, parentId, childIds } of serialized) {
+    const node = nodes.get(id)!;
+    if (parentId !== undefined) node.parent = parentId === null ? null : nodes.get(parentId) ?? null;
+    if (childIds) node.children = childIds.map((childId) => nodes.get(childId)).filter((n): n is VdomNode => !!n);
+  }
+  return nodes;
+}
+
+/**
+ * Rebuild a batch, reusing document nodes where the node still exists.
+ */
+export function deserializeMutations(
+  batch: SerializedMutationBatch,
+  nodes: Map<string, VdomNode>
+): MutationBatch {
+  const resolve = (node: SerializedNode) => nodes.get(node.id) ?? deserializeNode(node);
+  return {
+    added: batch.added.map(resolve),
+    removed: batch.removed.map(deserializeNode),
+    updated: batch.updated.map(({ node, before, after }) => ({ node: resolve(node), before, after })),
+    pages: batch.pages,
+    sequence: batch.sequence,
+  };
+}
+
+// =============================================================================
+// Messages
+// =============================================================================
+
+export interface WorkerRunMessage {
+  type: 'run';
+  runId: string;
+  pluginName: string;
+  module: string;
+  exportName?: string;
+  document: DocumentSnapshot;
+  event: VdomLifecycleEvent;
+  pageNumber?: number;
+  nodeId?: string;
+  mutations?: SerializedMutationBatch;
+  mutationSequence: number;
+  config: Record<string, unknown>;
+  upstream: Record<string, UpstreamResult>;
+  permissions: PluginPermissions;
+}
+
+export interface WorkerAbortMessage {
+  type: 'abort';
+  runId: string;
+}
+
+export interface WorkerClipboardResultMessage {
+  type: 'clipboard-result';
+  runId: string;
+  requestId: number;
+  error?: string;
+}
+
+export type HostToWorkerMessage = WorkerRunMessage | WorkerAbortMessage | WorkerClipboardResultMessage;
+
+export type WorkerToHostMessage =
+  | { type: 'query'; runId: string; selector: string; buffer: SharedArrayBuffer }
+  | { type: 'emit'; runId: string; emitType: PluginEmitType; data: unknown }
+  | { type: 'log'; runId: string; level: LogLevel; message: string }
+  | { type: 'denied'; runId: string; capability: PluginCapability; detail?: string }
+  | { type: 'clipboard'; runId: string; requestId: number; text: string }
+  | { type: 'result'; runId: string; result: PluginResult }
+  | { type: 'error'; runId: string; message: string; stack?: string };
+
+// =============================================================================
+// Query Buffer
+// =============================================================================
+
+/** Header: [status, byteLength] as Int32, followed by UTF-8 JSON */
+const QUERY_HEADER_BYTES = 8;
+
+export const QUERY_PENDING = 0;
+export const QUERY_OK = 1;
+/** Response did not fit; byteLength holds the size needed */
+export const QUERY_TOO_LARGE = 2;
+export const QUERY_FAILED = 3;
+
+export const DEFAULT_QUERY_BUFFER_BYTES = 64 * 1024;
+
+export function createQueryBuffer(capacity: number): SharedArrayBuffer {
+  return new SharedArrayBuffer(QUERY_HEADER_BYTES + capacity);
+}
+
+/**
+ * Host side: write `value` as JSON and wake the waiting worker.
+ */
+export function writeQueryResponse(buffer: SharedArrayBuffer, status: number, value: unknown): void {
+  const header = new Int32Array(buffer, 0, 2);
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  const capacity = buffer.byteLength - QUERY_HEADER_BYTES;
+
+  if (bytes.length > capacity) {
+    header[1] = bytes.length;
+    Atomics.store(header, 0, QUERY_TOO_LARGE);
+  } else {
+    new Uint8Array(buffer, QUERY_HEADER_BYTES, bytes.length).set(bytes);
+    header[1] = bytes.length;
+    Atomics.store(header, 0, status);
+  }
+  Atomics.notify(header, 0);
+}
+
+/**
+ * Worker side: block until the host responds, then return status and the
+ * decoded value (or the required size for QUERY_TOO_LARGE).
+ */
+export function waitForQueryResponse(buffer: SharedArrayBuffer): { status: number; value: unknown } {
+  const header = new Int32Array(buffer, 0, 2);
+  Atomics.wait(header, 0, QUERY_PENDING);
+
+  const status = Atomics.load(header, 0);
+  const length = header[1];
+  if (status === QUERY_TOO_LARGE) return { status, value: length };
+
+  // TextDecoder rejects views of shared memory
+  const bytes = new Uint8Array(length);
+  bytes.set(new Uint8Array(buffer, QUERY_HEADER_BYTES, length));
+  return { status, value: JSON.parse(new TextDecoder().decode(bytes)) };
+}
@@ -0,0 +1,193 @@
+/**
+ * Worker side of PluginWorker: loads plugin modules and runs their handlers
+ * against a document snapshot, forwarding emits, logs and results to the
+ * host.
+ */
+
+import type { PluginContext, PluginFetch, PluginResult, QueryEngine, VdomNode, VdomPlugin } from './types';
+import { isVdomPlugin } from './types';
+import {
+  type HostToWorkerMessage,
+  type WorkerRunMessage,
+  type WorkerToHostMessage,
+  DEFAULT_QUERY_BUFFER_BYTES,
+  QUERY_FAILED,
+  QUERY_TOO_LARGE,
+  createQueryBuffer,
+  waitForQueryResponse,
+  deserializeNodes,
+  deserializeMutations,
+} from './worker-protocol';
+import { createGatedFetch } from './permissions';
+import { noopTrace } from './tracing';
+
+export interface WorkerEndpoint {
+  postMessage(message: WorkerToHostMessage): void;
+  onMessage(handler: (message: HostToWorkerMessage) => void): void;
+}
+
+export type ModuleLoader = (specifier: string) => Promise<Record<string, unknown>>;
+
+function pickPlugin(
+  module: Record<string, unknown>,
+  pluginName: string,
+  exportName?: string
+): VdomPlugin {
+  const candidate = exportName
+    ? module[exportName]
+    : isVdomPlugin(module.default)
+      ? module.default
+      : Object.values(module).find((value) => isVdomPlugin(value) && value.name === pluginName);
+
+  if (!isVdomPlugin(candidate)) {
+    const where = exportName ? `export "${exportName}"` : 'any export';
+    throw new Error(`Plugin "${pluginName}" not found in ${where} of its worker module`);
+  }
+  if (candidate.name !== pluginName) {
+    throw new Error(`Worker module exports plugin "${candidate.name}", expected "${pluginName}"`);
+  }
+  return candidate;
+}
+
+/**
+ * Serve run requests arriving on `endpoint` until the worker is terminated.
+ * `fetchImpl` backs ctx.fetch, which only lets granted origins through.
+ */
+export function startWorkerRuntime(
+  endpoint: WorkerEndpoint,
+  load: ModuleLoader = (specifier) => import(/* @vite-ignore */ specifier),
+  fetchImpl: PluginFetch = (input, init) => globalThis.fetch(input, init)
+): void {
+  const modules = new Map<string, Promise<Record<string, unknown>>>();
+  const controllers = new Map<string, AbortController>();
+  /** ctx.state per plugin, kept for the life of the worker */
+  const states = new Map<string, Record<string, unknown>>();
+  const clipboardWrites = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+  let clipboardCounter = 0;
+
+  const query = (runId: string, selector: string): string[] => {
+    let capacity = DEFAULT_QUERY_BUFFER_BYTES;
+    for (;;) {
+      const buffer = createQueryBuffer(capacity);
+      endpoint.postMessage({ type: 'query', runId, selector, buffer });
+      const { status, value } = waitForQueryResponse(buffer);
+      if (status === QUERY_TOO_LARGE) {
+        capacity = value as number;
+        continue;
+      }
+      if (status === QUERY_FAILED) throw new Error(String(value));
+      return value as string[];
+    }
+  };
+
+  const run = async (message: WorkerRunMessage): Promise<PluginResult> => {
+    let module = modules.get(message.module);
+    if (!module) {
+      module = load(message.module);
+      modules.set(message.module, module);
+    }
+    const plugin = pickPlugin(await module, message.pluginName, message.exportName);
+
+    const nodes = deserializeNodes(message.document.nodes);
+    const lookup = (ids: string[]) =>
+      ids.map((id) => nodes.get(id)).filter((node): node is VdomNode => node !== undefined);
+
+    const $: QueryEngine = (selector) => {
+      const matches = lookup(query(message.runId, selector));
+      return {
+        toArray: () => matches,
+        length: matches.length,
+        first: () => matches[0],
+        filter: (predicate) => ({ toArray: () => matches.filter(predicate) }),
+      };
+    };
+
+    const signal = controllers.get(message.runId)!.signal;
+    let state = states.get(message.pluginName);
+    if (!state) {
+      state = {};
+      states.set(message.pluginName, state);
+    }
+    const ctx: PluginContext = {
+      document: {
+        id: message.document.id,
+        ...(message.document.revision !== undefined && { revision: message.document.revision }),
+        getAllNodes: () => Array.from(nodes.values()),
+        getNode: (id) => nodes.get(id),
+        pages: message.document.pages.map(lookup),
+      },
+      $,
+      event: message.event,
+      pageNumber: message.pageNumber,
+      node: message.nodeId !== undefined ? nodes.get(message.nodeId) : undefined,
+      ...(message.mutations && { mutations: deserializeMutations(message.mutations, nodes) }),
+      mutationSequence: message.mutationSequence,
+      state,
+      config: message.config,
+      emit: (type, data) => {
+        endpoint.postMessage({ type: 'emit', runId: message.runId, emitType: type, data });
+      },
+      log: (level, text) => {
+        endpoint.postMessage({ type: 'log', runId: message.runId, level, message: text });
+      },
+      signal,
+      fetch: createGatedFetch(
+        {
+          pluginName: message.pluginName,
+          granted: message.permissions,
+          onDenied: (capability, detail) => {
+            endpoint.postMessage({
+              type: 'denied',
+              runId: message.runId,
+              capability,
+              ...(detail !== undefined && { detail }),
+            });
+          },
+        },
+        (input, init) => fetchImpl(input, { signal, ...init })
+      ),
+      // The host checks the clipboard grant and performs the write
+      writeClipboard: (text) =>
+        new Promise<void>((resolve, reject) => {
+          const requestId = ++clipboardCounter;
+          clipboardWrites.set(requestId, { resolve, reject });
+          endpoint.postMessage({ type: 'clipboard', runId: message.runId, requestId, text });
+        }),
+      // Spans recorded in the worker are not relayed to the host's tracer
+      trace: noopTrace,
+      getResult: (name) => message.upstream[name] as never,
+    };
+
+    // An abort that arrived while the module loaded
+    signal.throwIfAborted();
+    return plugin.handler(ctx);
+  };
+
+  endpoint.onMessage((message) => {
+    if (message.type === 'abort') {
+      controllers.get(message.runId)?.abort();
+      return;
+    }
+    if (message.type === 'clipboard-result') {
+      const pending = clipboardWrites.get(message.requestId);
+      clipboardWrites.delete(message.requestId);
+      if (message.error === undefined) pending?.resolve();
+      else pending?.reject(new Error(message.error));
+      return;
+    }
+
+    const { runId } = message;
+    controllers.set(runId, new AbortController());
+    run(message)
+      .then((result) => endpoint.postMessage({ type: 'result', runId, result }))
+      .catch((error) => {
+        endpoint.postMessage({
+          type: 'error',
+          runId,
+          message: error instanceof Error ? error.message : String(error),
+          ...(error instanceof Error && error.stack && { stack: error.stack }),
+        });
+      })
+      .finally(() => controllers.delete(runId));
+  });
+}
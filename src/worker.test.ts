@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { build } from 'esbuild';
+import { VdomPluginManager } from './runtime';
+import { startWorkerRuntime } from './worker-runtime';
+import { serializeDocument, deserializeNodes } from './worker-protocol';
+import { PluginTimeoutError } from './errors';
+import { createMockNode, createMockQueryEngine, createMockRunContext } from './test-helpers';
+import type {
+  PluginContext,
+  PluginRunContext,
+  PluginWorkerFactory,
+  PluginWorkerPort,
+  VdomNode,
+  VdomPlugin,
+} from './types';
+
+/** `$` returns the nodes whose type is the selector */
+function createRunContext(nodes: VdomNode[]): PluginRunContext {
+  return createMockRunContext(nodes, createMockQueryEngine(nodes, (node, selector) => node.type === selector));
+}
+
+/**
+ * Worker transport that runs the worker runtime on this thread. Messages to
+ * the host are delivered synchronously so the blocking `$` protocol works;
+ * messages to the worker are cloned and delivered asynchronously.
+ */
+function createInProcessWorkerFactory(
+  modules: Record<string, Record<string, unknown>>,
+  fetchImpl: typeof fetch = vi.fn()
+) {
+  const ports: PluginWorkerPort[] = [];
+  const factory: PluginWorkerFactory = () => {
+    let toHost: (message: unknown) => void = () => {};
+    const toWorker: ((message: never) => void)[] = [];
+    startWorkerRuntime(
+      {
+        postMessage: (message) => toHost(message.type === 'query' ? message : structuredClone(message)),
+        onMessage: (handler) => toWorker.push(handler as (message: never) => void),
+      },
+      async (specifier) => modules[specifier],
+      fetchImpl
+    );
+
+    const port: PluginWorkerPort = {
+      postMessage: (message) => {
+        const copy = structuredClone(message) as never;
+        setTimeout(() => toWorker.forEach((handler) => handler(copy)), 0);
+      },
+      onMessage: (handler) => {
+        toHost = handler;
+      },
+      onError: () => {},
+      terminate: vi.fn(),
+    };
+    ports.push(port);
+    return port;
+  };
+  return { factory, ports };
+}
+
+function createPlugin(overrides: Partial<VdomPlugin> = {}): VdomPlugin {
+  return {
+    name: 'isolated',
+    description: 'Runs in a worker',
+    runsOn: ['interactive'],
+    defaultEnabled: true,
+    handler: vi.fn().mockResolvedValue({ success: true }),
+    ...overrides,
+  };
+}
+
+describe('worker protocol', () => {
+  it('round-trips documents with parent links and resolved text', () => {
+    const parent = createMockNode({ id: 'table', type: 'table' });
+    const child = createMockNode({ id: 'cell', parent, textContent: 'Total' });
+    parent.children = [child];
+
+    const snapshot = structuredClone(serializeDocument(createRunContext([parent, child]).document));
+    const nodes = deserializeNodes(snapshot.nodes);
+
+    expect(nodes.get('cell')!.parent).toBe(nodes.get('table'));
+    expect(nodes.get('table')!.children).toEqual([nodes.get('cell')]);
+    expect(nodes.get('cell')!.textContent).toBe('Total');
+    expect(snapshot.pages).toEqual([['table', 'cell']]);
+  });
+});
+
+describe('VdomPluginManager - Worker isolation', () => {
+  it('runs the handler in the worker with a proxied $ and marshalled emits', async () => {
+    const workerPlugin = createPlugin({
+      handler: async (ctx: PluginContext) => {
+        const tables = ctx.$('table').toArray();
+        ctx.emit('badges', tables.map((t) => ({ nodeId: t.id, text: 'T', color: 'blue' as const })));
+        ctx.log('info', `threshold ${ctx.config.threshold}`);
+        return { success: true, data: { stats: { tables: tables.length, parent: String(tables[0].parent?.id) } } };
+      },
+    });
+    const { factory } = createInProcessWorkerFactory({ 'plugin:isolated': { default: workerPlugin } });
+    const manager = new VdomPluginManager({ workerFactory: factory });
+    const mainThreadHandler = vi.fn();
+    manager.register(
+      createPlugin({ handler: mainThreadHandler, configSchema: { threshold: { type: 'number', label: 'T', default: 3 } } }),
+      { worker: { module: 'plugin:isolated' } }
+    );
+    const emits = vi.fn();
+    const logs = vi.fn();
+    manager.on('lifecycle:emit', emits);
+    manager.on('plugin:log', logs);
+
+    const page = createMockNode({ id: 'page', type: 'page' });
+    const table = createMockNode({ id: 't1', type: 'table', parent: page });
+    const results = await manager.runEvent('interactive', createRunContext([page, table]));
+
+    expect(mainThreadHandler).not.toHaveBeenCalled();
+    expect(results.get('isolated')).toEqual({
+      success: true,
+      data: { badges: [{ nodeId: 't1', text: 'T', color: 'blue' }], stats: { tables: 1, parent: 'page' } },
+      logs: [expect.objectContaining({ level: 'info', message: 'threshold 3' })],
+    });
+    expect(emits).toHaveBeenCalledWith({
+      pluginName: 'isolated',
+      type: 'badges',
+      data: [{ nodeId: 't1', text: 'T', color: 'blue' }],
+    });
+    expect(logs).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes upstream results to the worker', async () => {
+    const workerPlugin = createPlugin({
+      name: 'summary',
+      handler: (ctx) => ({
+        success: true,
+        data: { stats: { upstream: String(ctx.getResult<{ n: number }>('tables')?.result.exports?.n) } },
+      }),
+    });
+    const { factory } = createInProcessWorkerFactory({ summary: { summaryPlugin: workerPlugin } });
+    const manager = new VdomPluginManager({ workerFactory: factory });
+    manager.register(createPlugin({
+      name: 'tables',
+      handler: vi.fn().mockResolvedValue({ success: true, exports: { n: 2 } }),
+    }));
+    manager.register(createPlugin({ name: 'summary', dependencies: ['tables'] }), {
+      worker: { module: 'summary' },
+    });
+
+    const results = await manager.runEvent('interactive', createRunContext([]));
+    expect(results.get('summary')!.data).toEqual({ stats: { upstream: '2' } });
+  });
+
+  it('reports handler errors and missing exports as failed results', async () => {
+    const throwing = createPlugin({ handler: () => { throw new Error('boom'); } });
+    const { factory } = createInProcessWorkerFactory({
+      throwing: { default: throwing },
+      empty: {},
+    });
+    const manager = new VdomPluginManager({ workerFactory: factory });
+    manager.register(createPlugin(), { worker: { module: 'throwing' } });
+    manager.register(createPlugin({ name: 'other' }), { worker: { module: 'empty' } });
+
+    const results = await manager.runEvent('interactive', createRunContext([]));
+    expect(results.get('isolated')).toEqual({ success: false, error: 'boom' });
+    expect(results.get('other')!.error).toBe('Plugin "other" not found in any export of its worker module');
+  });
+
+  it('enforces granted origins in the worker and relays clipboard writes to the host', async () => {
+    const workerPlugin = createPlugin({
+      handler: async (ctx) => {
+        await ctx.fetch('https://api.example.com/data');
+        await ctx.writeClipboard('copied');
+        await ctx.fetch('https://tracker.io/beacon');
+        return { success: true };
+      },
+    });
+    const workerFetch = vi.fn().mockResolvedValue(new Response('{}'));
+    const { factory } = createInProcessWorkerFactory({ isolated: { default: workerPlugin } }, workerFetch);
+    const clipboard = { writeText: vi.fn().mockResolvedValue(undefined) };
+    const manager = new VdomPluginManager({ workerFactory: factory, clipboard });
+    manager.register(createPlugin({ permissions: { network: ['https://api.example.com'], clipboard: true } }), {
+      worker: { module: 'isolated' },
+    });
+    const denied = vi.fn();
+    manager.on('permission:denied', denied);
+
+    const results = await manager.runEvent('interactive', createRunContext([]));
+
+    expect(workerFetch).toHaveBeenCalledTimes(1);
+    expect(clipboard.writeText).toHaveBeenCalledWith('copied');
+    expect(results.get('isolated')!.error).toBe(
+      'Plugin "isolated" was not granted network access to https://tracker.io'
+    );
+    expect(denied).toHaveBeenCalledWith({ name: 'isolated', capability: 'network', detail: 'https://tracker.io' });
+  });
+
+  it('terminates the worker when a run times out', async () => {
+    const hanging = createPlugin({ handler: () => new Promise(() => {}) });
+    const { factory, ports } = createInProcessWorkerFactory({ hanging: { default: hanging } });
+    const manager = new VdomPluginManager({ workerFactory: factory });
+    manager.register(createPlugin({ timeoutMs: 20 }), { worker: { module: 'hanging' } });
+
+    const results = await manager.runEvent('interactive', createRunContext([]));
+
+    expect(results.get('isolated')!.errorDetails).toBeInstanceOf(PluginTimeoutError);
+    expect(ports[0].terminate).toHaveBeenCalled();
+
+    // The next run starts a fresh worker
+    await manager.runEvent('interactive', createRunContext([]));
+    expect(ports).toHaveLength(2);
+  });
+
+  it('clear() terminates workers and drops their grants', async () => {
+    const { factory, ports } = createInProcessWorkerFactory({ isolated: { default: createPlugin() } });
+    const manager = new VdomPluginManager({ workerFactory: factory });
+    manager.register(createPlugin(), { worker: { module: 'isolated' } });
+    await manager.runEvent('interactive', createRunContext([]));
+
+    manager.clear();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(ports[0].terminate).toHaveBeenCalled();
+    expect(manager.getGrantedPermissions('isolated')).toBeUndefined();
+  });
+});
+
+describe('PluginWorker - worker_threads', () => {
+  let dir: string;
+
+  // Resolves after 200ms with the number of aborted runs this worker has seen
+  const pluginSource = `
+    let aborted = 0;
+    export default {
+      name: 'isolated',
+      description: 'Runs in a worker',
+      runsOn: ['interactive'],
+      handler: (ctx) =>
+        new Promise((resolve, reject) => {
+          ctx.log('info', 'started');
+          const timer = setTimeout(() => resolve({ success: true, exports: { aborted } }), 200);
+          ctx.signal.addEventListener('abort', () => {
+            aborted++;
+            clearTimeout(timer);
+            reject(ctx.signal.reason);
+          });
+        }),
+    };
+  `;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vdom-worker-'));
+    await build({
+      entryPoints: [fileURLToPath(new URL('./worker-entry.ts', import.meta.url))],
+      outfile: join(dir, 'worker-entry.mjs'),
+      bundle: true,
+      format: 'esm',
+      platform: 'node',
+      logLevel: 'silent',
+    });
+    await writeFile(join(dir, 'plugin.mjs'), pluginSource);
+  });
+
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  /** Same port as defaultWorkerFactory's worker_threads branch, on the bundled entry */
+  function createThreadWorkerFactory() {
+    const ports: PluginWorkerPort[] = [];
+    const factory: PluginWorkerFactory = () => {
+      const worker = new Worker(join(dir, 'worker-entry.mjs'));
+      const port: PluginWorkerPort = {
+        postMessage: (message) => worker.postMessage(message),
+        onMessage: (handler) => worker.on('message', handler),
+        onError: (handler) => worker.on('error', handler),
+        terminate: vi.fn(() => void worker.terminate()),
+      };
+      ports.push(port);
+      return port;
+    };
+    return { factory, ports };
+  }
+
+  it('cancels one run without failing the others in the same worker', async () => {
+    const { factory, ports } = createThreadWorkerFactory();
+    const manager = new VdomPluginManager({ workerFactory: factory });
+    manager.register(createPlugin(), { worker: { module: pathToFileURL(join(dir, 'plugin.mjs')).href } });
+
+    let started = 0;
+    const bothStarted = new Promise<void>((resolve) =>
+      manager.on('plugin:log', (entry) => entry.message === 'started' && ++started === 2 && resolve())
+    );
+
+    try {
+      const first = manager.runEvent('interactive', createRunContext([]), { runId: 'first' });
+      const second = manager.runEvent('interactive', createRunContext([]), { runId: 'second' });
+      await bothStarted;
+      manager.cancel('first');
+
+      expect((await first).get('isolated')!.success).toBe(false);
+      const result = (await second).get('isolated')!;
+      expect(result.success).toBe(true);
+      // The worker saw the abort and kept serving the other run
+      expect(result.exports).toEqual({ aborted: 1 });
+      expect(ports).toHaveLength(1);
+      expect(ports[0].terminate).not.toHaveBeenCalled();
+    } finally {
+      manager.clear();
+    }
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Host side of worker isolation: runs one plugin's handler in a dedicated
+ * worker and relays its `$` queries, emits, logs and result.
+ */
+
+import type {
+  PluginCapability,
+  PluginContext,
+  PluginPermissions,
+  PluginResult,
+  PluginWorkerFactory,
+  PluginWorkerOptions,
+  PluginWorkerPort,
+  UpstreamResult,
+} from './types';
+import {
+  type WorkerRunMessage,
+  type WorkerToHostMessage,
+  QUERY_FAILED,
+  QUERY_OK,
+  serializeDocument,
+  serializeMutations,
+  writeQueryResponse,
+} from './worker-protocol';
+
+/**
+ * Start `worker-entry.js` as a module Web Worker where `Worker` exists,
+ * otherwise as a worker_threads Worker.
+ */
+export const defaultWorkerFactory: PluginWorkerFactory = async () => {
+  const entry = new URL('./worker-entry.js', import.meta.url);
+
+  if (typeof Worker !== 'undefined') {
+    const worker = new Worker(entry, { type: 'module' });
+    return {
+      postMessage: (message) => worker.postMessage(message),
+      onMessage: (handler) => worker.addEventListener('message', (event) => handler(event.data)),
+      onError: (handler) =>
+        worker.addEventListener('error', (event) => handler(new Error(event.message))),
+      terminate: () => worker.terminate(),
+    };
+  }
+
+  const { Worker: NodeWorker } = await import(/* @vite-ignore */ 'node:worker_threads');
+  const worker = new NodeWorker(entry);
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    onMessage: (handler) => worker.on('message', handler),
+    onError: (handler) => {
+      worker.on('error', handler);
+      worker.on('exit', (code) => {
+        if (code !== 0) handler(new Error(`Plugin worker exited with code ${code}`));
+      });
+    },
+    terminate: () => void worker.terminate(),
+  };
+};
+
+interface PendingRun {
+  ctx: PluginContext;
+  port: PluginWorkerPort;
+  resolve: (result: PluginResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Worker for one plugin, started on first use. Aborting a run's signal
+ * rejects that run and aborts its signal in the worker. Once no other run
+ * is in flight the worker is terminated, so a handler stuck in a CPU loop
+ * is actually stopped; the next run starts a fresh worker.
+ */
+export class PluginWorker {
+  private readonly pluginName: string;
+  private readonly options: PluginWorkerOptions;
+  private readonly factory: PluginWorkerFactory;
+  private readonly permissions: PluginPermissions;
+  private readonly onDenied: (capability: PluginCapability, detail?: string) => void;
+  private port: Promise<PluginWorkerPort> | null = null;
+  private runs = new Map<string, PendingRun>();
+  private runCounter = 0;
+
+  /**
+   * `permissions` are enforced inside the worker; `onDenied` is told about
+   * requests it refused.
+   */
+  constructor(
+    pluginName: string,
+    options: PluginWorkerOptions,
+    factory: PluginWorkerFactory,
+    permissions: PluginPermissions,
+    onDenied: (capability: PluginCapability, detail?: string) => void
+  ) {
+    this.pluginName = pluginName;
+    this.options = options;
+    this.factory = factory;
+    this.permissions = permissions;
+    this.onDenied = onDenied;
+  }
+
+  /**
+   * Run the plugin's handler in the worker. `upstreamNames` are the
+   * dependencies whose ctx.getResult() values are sent along.
+   */
+  async run(ctx: PluginContext, upstreamNames: string[]): Promise<PluginResult> {
+    ctx.signal.throwIfAborted();
+    const port = await this.getPort();
+    ctx.signal.throwIfAborted();
+
+    const upstream: Record<string, UpstreamResult> = {};
+    for (const name of upstreamNames) {
+      const result = ctx.getResult(name);
+      if (result) upstream[name] = result;
+    }
+
+    const runId = `${this.pluginName}-${++this.runCounter}`;
+    const message: WorkerRunMessage = {
+      type: 'run',
+      runId,
+      pluginName: this.pluginName,
+      module: String(this.options.module),
+      ...(this.options.exportName !== undefined && { exportName: this.options.exportName }),
+      document: serializeDocument(ctx.document),
+      event: ctx.event,
+      ...(ctx.pageNumber !== undefined && { pageNumber: ctx.pageNumber }),
+      ...(ctx.node && { nodeId: ctx.node.id }),
+      ...(ctx.mutations && { mutations: serializeMutations(ctx.mutations) }),
+      mutationSequence: ctx.mutationSequence,
+      config: ctx.config,
+      upstream,
+      permissions: this.permissions,
+    };
+
+    return new Promise<PluginResult>((resolve, reject) => {
+      const onAbort = () => this.abort(runId, ctx.signal.reason);
+      ctx.signal.addEventListener('abort', onAbort, { once: true });
+      const settle = <T>(fn: (value: T) => void) => (value: T) => {
+        ctx.signal.removeEventListener('abort', onAbort);
+        this.runs.delete(runId);
+        fn(value);
+      };
+
+      this.runs.set(runId, { ctx, port, resolve: settle(resolve), reject: settle(reject) });
+      try {
+        port.postMessage(message);
+      } catch (error) {
+        this.runs.get(runId)!.reject(error);
+      }
+    });
+  }
+
+  /**
+   * Reject one run with `reason`. Its handler's signal is aborted in the
+   * worker, or the worker is terminated if no other run is using it.
+   */
+  private abort(runId: string, reason: unknown): void {
+    const run = this.runs.get(runId);
+    if (!run) return;
+    run.reject(reason);
+
+    if (this.runs.size === 0) {
+      this.terminate(reason);
+      return;
+    }
+    try {
+      run.port.postMessage({ type: 'abort', runId });
+    } catch {
+      // The worker is gone; its other runs learn through onError
+    }
+  }
+
+  /**
+   * Stop the worker. Runs still in flight reject with `reason`.
+   */
+  terminate(reason: unknown = new Error(`Worker for plugin "${this.pluginName}" was terminated`)): void {
+    const port = this.port;
+    this.port = null;
+    port?.then((p) => p.terminate(), () => {});
+    this.rejectAll(reason);
+  }
+
+  private getPort(): Promise<PluginWorkerPort> {
+    if (!this.port) {
+      const port = Promise.resolve(this.factory()).then((p) => {
+        p.onMessage((message) => this.handleMessage(message as WorkerToHostMessage));
+        p.onError((error) => {
+          if (this.port !== port) return;
+          this.port = null;
+          p.terminate();
+          this.rejectAll(error);
+        });
+        return p;
+      });
+      port.catch(() => {
+        if (this.port === port) this.port = null;
+      });
+      this.port = port;
+    }
+    return this.port;
+  }
+
+  private rejectAll(reason: unknown): void {
+    for (const run of Array.from(this.runs.values())) {
+      run.reject(reason);
+    }
+  }
+
+  private handleMessage(message: WorkerToHostMessage): void {
+    const run = this.runs.get(message.runId);
+
+    if (message.type === 'query') {
+      // The worker is blocked until we answer, even for finished runs
+      if (!run) {
+        writeQueryResponse(message.buffer, QUERY_FAILED, `Run ${message.runId} is no longer active`);
+        return;
+      }
+      try {
+        const ids = run.ctx.$(message.selector).toArray().map((node) => node.id);
+        writeQueryResponse(message.buffer, QUERY_OK, ids);
+      } catch (error) {
+        writeQueryResponse(message.buffer, QUERY_FAILED, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+
+    if (!run) return;
+
+    switch (message.type) {
+      case 'emit':
+        run.ctx.emit(message.emitType, message.data as never);
+        break;
+      case 'log':
+        run.ctx.log(message.level, message.message);
+        break;
+      case 'denied':
+        this.onDenied(message.capability, message.detail);
+        break;
+      case 'clipboard': {
+        // Workers have no clipboard; the host's ctx.writeClipboard does the write
+        const { runId, requestId } = message;
+        run.ctx.writeClipboard(message.text).then(
+          () => run.port.postMessage({ type: 'clipboard-result', runId, requestId }),
+          (error) =>
+            run.port.postMessage({
+              type: 'clipboard-result',
+              runId,
+              requestId,
+              error: error instanceof Error ? error.message : String(error),
+            })
+        );
+        break;
+      }
+      case 'result':
+        run.resolve(message.result);
+        break;
+      case 'error': {
+        const error = new Error(message.message);
+        if (message.stack) error.stack = message.stack;
+        run.reject(error);
+        break;
+      }
+    }
+  }
+}